@@ -10,27 +10,31 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useAccount, usePublicClient, useWriteContract } from "wagmi";
-import { ContractClient } from "@/lib/contract-client";
+import { useAccount } from "wagmi";
+import { useContractClient } from "@/providers/contract-client-provider";
+import { useInitializePool } from "@/hooks/use-pool-mutations";
+import { showErrorToast } from "@/lib/error-toast";
+import { useChainModal } from "@rainbow-me/rainbowkit";
 import { InitPool } from "@/types/pool";
-import { useMemo, useState } from "react";
+import { useState } from "react";
 import { toast } from "sonner";
-import { parseEther, isAddress, Address } from "viem";
+import { isAddress, Address } from "viem";
+import { formatTokenAmount } from "@/lib/utils";
+import { parsePrice, priceDecimals, toBaseUnits } from "@/lib/units";
+import { DEFAULT_CHAIN_ID, explorerTxUrl } from "@/lib/chains";
 import { Loader2, Plus } from "lucide-react";
+import { ApprovalModeSelector } from "@/components/approval-mode-selector";
 import { TokenPicker, TokenObject } from "@/components/tokens/token-picker";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
 
 export default function CreatePoolPage() {
-  const { chainId } = useAccount();
-  const { writeContractAsync } = useWriteContract();
-  const publicClient = usePublicClient();
-  const contractClient = useMemo(
-    () => new ContractClient(writeContractAsync, publicClient, chainId),
-    [chainId]
-  );
-  const { chain, isConnected } = useAccount();
-  const baseUrl = chain?.blockExplorers?.default.url;
-  const nativeCurrencySymbol = chain?.nativeCurrency?.symbol || "ETH";
+  const contractClient = useContractClient();
+  const initializePool = useInitializePool();
+  const { chain, chainId, isConnected } = useAccount();
+  const { openChainModal } = useChainModal();
+  const nativeCurrency = useNativeCurrency();
+  const nativeCurrencySymbol = nativeCurrency.symbol;
   const [tokenName, setTokenName] = useState("");
   const [tokenSymbol, setTokenSymbol] = useState("");
   const [tokenURL, setTokenURL] = useState("");
@@ -177,15 +181,15 @@ export default function CreatePoolPage() {
   };
 
   const handleCreatePool = async () => {
-    if (!validateForm()) return;
+    if (!validateForm() || !tokenInfo) return;
 
     setIsCreating(true);
     try {
-      // Convert amounts to wei (assuming 18 decimals for ETH and proper decimals for token)
-      const ethAmountWei = parseEther(formData.ethAmount).toString();
-      const tokenAmountWei = parseEther(formData.tokenAmount).toString();
-      const buyPriceWei = parseEther(formData.initialBuyPrice).toString();
-      const sellPriceWei = parseEther(formData.initialSellPrice).toString();
+      // Convert amounts to base units with the token's decimals; prices are entered per whole token
+      const ethAmountWei = toBaseUnits(formData.ethAmount, nativeCurrency.decimals).toString();
+      const tokenAmountWei = toBaseUnits(formData.tokenAmount, tokenInfo.decimals).toString();
+      const buyPriceWei = parsePrice(formData.initialBuyPrice, tokenInfo.decimals).toString();
+      const sellPriceWei = parsePrice(formData.initialSellPrice, tokenInfo.decimals).toString();
 
       const initPoolData: InitPool = {
         ...formData,
@@ -195,15 +199,24 @@ export default function CreatePoolPage() {
         initialSellPrice: sellPriceWei,
       };
 
-      const result = await contractClient.initializePool(initPoolData);
+      const result = await initializePool.mutateAsync(initPoolData);
 
       if (result.success) {
         toast.success(
           <div>
             <div>Pool created successfully! </div>
+            <div>
+              Seeded with {formatTokenAmount(result.ethAmount)} {nativeCurrencySymbol} and{" "}
+              {formatTokenAmount(result.tokenAmount, tokenInfo.decimals)} {tokenInfo.symbol}
+            </div>
+            <div className="text-xs text-white/60">
+              Buy {formatTokenAmount(result.initialBuyPrice, priceDecimals(tokenInfo.decimals))} / Sell{" "}
+              {formatTokenAmount(result.initialSellPrice, priceDecimals(tokenInfo.decimals))}{" "}
+              {nativeCurrencySymbol} · Gas used: {Number(result.gasUsed).toLocaleString()}
+            </div>
             <div>
               <a
-                href={`${baseUrl}/tx/${result.txHash}`}
+                href={explorerTxUrl(chain?.id, result.txHash)}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="underline text-blue-400"
@@ -225,7 +238,7 @@ export default function CreatePoolPage() {
       }
     } catch (error) {
       console.error("Error creating pool:", error);
-      toast.error(`Failed to create pool: ${(error as Error).message}`);
+      showErrorToast(error, "Create pool", { retry: handleCreatePool, switchNetwork: openChainModal });
     } finally {
       setIsCreating(false);
     }
@@ -318,7 +331,7 @@ export default function CreatePoolPage() {
                             setTokenSymbol(token.symbol);
                             setTokenURL(token.image);
                           }}
-                          chainId={chainId ? chainId : 63}
+                          chainId={chainId ?? DEFAULT_CHAIN_ID}
                           className="w-full"
                         />
                       </TabsContent>
@@ -498,6 +511,8 @@ export default function CreatePoolPage() {
                   )}
                 </div>
 
+                {tokenInfo && isConnected && <ApprovalModeSelector />}
+
                 {/* Create Button */}
                 <Button
                   onClick={handleCreatePool}
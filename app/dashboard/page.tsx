@@ -4,154 +4,75 @@ import { DashboardOverview } from "@/components/dashboard/dashboard-overview";
 import { PoolsTable } from "@/components/dashboard/pools-table";
 import { RecentActivity } from "@/components/dashboard/recent-activity";
 import { DashboardSkeleton } from "@/components/dashboard/dashboard-skeleton";
-import { useAccount, usePublicClient, useWriteContract } from "wagmi";
-import { ContractClient } from "@/lib/contract-client";
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo } from "react";
 import { RowPool } from "@/types/pool";
 import { toast } from "sonner";
 import { formatEther } from "viem";
-import { Deposit, Withdraw } from "@/types/trades";
+import { ConnectButton } from "@rainbow-me/rainbowkit";
+import { proportionOf, sum } from "@/lib/fixed-point";
+import { usePoolCount, usePoolEvents, useTotalFees, useUserPools } from "@/hooks/use-pool-queries";
+import { useNetworkState } from "@/providers/network-provider";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
+
+// Indexed history is cached locally, so only blocks since the last visit hit the RPC
+const ACTIVITY_LOOKBACK_BLOCKS = 50_000;
+
+const calculatePortfolioValue = (poolsData: RowPool[]) => {
+  const total = sum(
+    poolsData.map((pool) =>
+      proportionOf(
+        BigInt(pool.totalLiquidity),
+        BigInt(pool.lpToken!.balance),
+        BigInt(pool.lpToken!.totalSupply)
+      )
+    )
+  );
+  return formatEther(total);
+};
 
 export default function DashboardPage() {
-  const { chainId } = useAccount();
-  const { writeContractAsync } = useWriteContract();
-  const publicClient = usePublicClient();
-  const contractClient = useMemo(
-      () => new ContractClient(
-        writeContractAsync,
-        publicClient,
-        chainId
-      ),
-      [chainId]
-    );
-  const { address } = useAccount();
-  const [totalPools, setTotalPools] = useState<number>(0);
-  const [portfolioValue, setPortfolioValue] = useState<string>("0");
-  const [events, setEvents] = useState<(Deposit | Withdraw)[]>([]);
-  const [pools, setPools] = useState<RowPool[]>([]);
-  const [isLoading, setIsLoading] = useState<boolean>(true);
-  const POOL_FETCH_LIMIT = 5;
-
-  const fetchPoolCount = async () => {
-    if (!address) return;
-    try {
-      const count = await contractClient.getUserPoolCount(address!);
-      setTotalPools(count);
-      return count;
-    } catch (error) {
-      console.error("Error fetching pool count:", error);
-      toast.error("Failed to fetch pool count.");
-    }
-  };
+  const { account } = useNetworkState();
+  const nativeCurrencySymbol = useNativeCurrency().symbol;
+  const userPools = useUserPools(account);
+  // Without a wallet the dashboard shows protocol-wide stats and activity instead of the user's
+  const poolCount = usePoolCount();
+  const totalFees = useTotalFees();
+  const deposits = usePoolEvents("deposit", { user: account, lookbackBlocks: ACTIVITY_LOOKBACK_BLOCKS });
+  const withdrawals = usePoolEvents("withdraw", { user: account, lookbackBlocks: ACTIVITY_LOOKBACK_BLOCKS });
+
+  const pools = useMemo(() => userPools.data?.pools ?? [], [userPools.data]);
+  const totalPools = userPools.data?.count ?? 0;
+  const portfolioValue = useMemo(() => (pools.length > 0 ? calculatePortfolioValue(pools) : "0"), [pools]);
+  const events = useMemo(
+    () => [...(deposits.data ?? []), ...(withdrawals.data ?? [])],
+    [deposits.data, withdrawals.data]
+  );
+  const isLoading =
+    (account ? userPools.isPending : poolCount.isPending || totalFees.isPending) || deposits.isPending || withdrawals.isPending;
+  const stats = account
+    ? [
+        { label: "Portfolio Value", value: `${Number(portfolioValue).toFixed(8)} ${nativeCurrencySymbol}` },
+        { label: "Active Pools", value: totalPools.toString() },
+      ]
+    : [
+        { label: "Total Pools", value: String(poolCount.data ?? 0) },
+        { label: "Protocol Fees", value: `${Number(formatEther(BigInt(totalFees.data ?? "0"))).toFixed(8)} ${nativeCurrencySymbol}` },
+      ];
 
-  const fetchUserPools = async (poolCount: number) => {
-    if (!address) return;
-    if (poolCount === 0) return;
-    try {
-      const allPools: RowPool[] = [];
-      for (let i = 0; i < Math.ceil(poolCount / POOL_FETCH_LIMIT); i++) {
-        const userPools = await contractClient.getUserPools(
-          address,
-          i * POOL_FETCH_LIMIT,
-          Math.min(i * POOL_FETCH_LIMIT + POOL_FETCH_LIMIT, poolCount - 1)
-        );
-        allPools.push(...userPools);
-      }
-      setPools(allPools);
-    } catch (error) {
-      console.error("Error fetching user pools:", error);
+  useEffect(() => {
+    if (userPools.error) {
+      console.error("Error fetching user pools:", userPools.error);
       toast.error("Failed to fetch user pools.");
     }
-  };
-
-  const fetchRecentDeposits = async () => {
-    if (!address) return [];
-    try {
-      const currentBlock = await publicClient?.getBlock();
-      if (!currentBlock) return [];
-      const deposits = await contractClient.getDepositEventLogs(
-        Number(currentBlock.number) - 999,
-        Number(currentBlock.number),
-        undefined,
-        address
-      );
-      return deposits;
-    } catch (error) {
-      console.error("Error fetching recent deposits:", error);
-      toast.error("Failed to fetch recent deposits.");
-      return [];
-    }
-  };
-
-  const fetchRecentWithdrawals = async () => {
-    if (!address) return [];
-    try {
-      const currentBlock = await publicClient?.getBlock();
-      if (!currentBlock) return [];
-      const withdrawals = await contractClient.getWithdrawEventLogs(
-        Number(currentBlock.number) - 999,
-        Number(currentBlock.number),
-        undefined,
-        address
-      );
-      return withdrawals;
-    } catch (error) {
-      console.error("Error fetching recent withdrawals:", error);
-      toast.error("Failed to fetch recent withdrawals.");
-      return [];
-    }
-  };
-
-
-
-  const calculatePortfolioValue = (poolsData: RowPool[]) => {
-    let total = 0;
-    for (const pool of poolsData) {
-      const proportion =
-        Number(pool.lpToken!.balance) / Number(pool.lpToken!.totalSupply);
-      total += Number(proportion) * Number(pool.totalLiquidity);
-    }
-    return formatEther(BigInt(total));
-  };
-
-  useEffect(() => {
-    if (!address) return;
-
-    const fetchData = async () => {
-      try {
-        setIsLoading(true);
-        
-        const count = await fetchPoolCount();
-        if (count === undefined) throw new Error("Pool count is undefined");
-        
-        await fetchUserPools(count);
-        
-        // Fetch deposits and withdrawals in parallel and combine them
-        const [deposits, withdrawals] = await Promise.all([
-          fetchRecentDeposits(),
-          fetchRecentWithdrawals()
-        ]);
-        
-        // Combine and set all events at once to avoid duplicates
-        setEvents([...deposits, ...withdrawals]);
-        
-      } catch (error) {
-        console.error("Error fetching dashboard data:", error);
-        toast.error("Failed to fetch dashboard data.");
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [address]);
+  }, [userPools.error]);
 
   useEffect(() => {
-    if (pools.length > 0) {
-      const portfolio = calculatePortfolioValue(pools);
-      setPortfolioValue(portfolio);
+    const error = deposits.error ?? withdrawals.error;
+    if (error) {
+      console.error("Error fetching recent activity:", error);
+      toast.error("Failed to fetch recent activity.");
     }
-  }, [pools]);
+  }, [deposits.error, withdrawals.error]);
 
   if (isLoading) {
     return <DashboardSkeleton />;
@@ -181,13 +102,7 @@ export default function DashboardPage() {
           </div>
 
           {/* Overview Cards */}
-          <DashboardOverview
-            portfolioValue={portfolioValue}
-            // totalLiquidity={totalLiquidity}
-            // profit={totalProfit}
-            activePools={totalPools.toString()}
-            loading={isLoading}
-          />
+          <DashboardOverview stats={stats} loading={isLoading} />
 
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Left Column - Portfolio & Pools */}
@@ -196,7 +111,14 @@ export default function DashboardPage() {
                 <div className="absolute inset-0 bg-gradient-to-br from-accent/[0.08] to-primary-500/[0.05]" />
                 <div className="absolute inset-0 border border-white/[0.05] rounded-xl" />
                 <div className="relative">
-                  <PoolsTable pools={pools} loading={isLoading} />
+                  {account ? (
+                    <PoolsTable pools={pools} loading={isLoading} />
+                  ) : (
+                    <div className="p-6 flex flex-col items-center gap-4 text-center">
+                      <p className="text-muted-foreground/70">Connect a wallet to see your pools and positions.</p>
+                      <ConnectButton />
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -206,7 +128,7 @@ export default function DashboardPage() {
               <div className="absolute inset-0 bg-gradient-to-br from-accent/[0.08] to-primary-500/[0.05]" />
               <div className="absolute inset-0 border border-white/[0.05] rounded-xl" />
               <div className="relative">
-                <RecentActivity events={events} />
+                <RecentActivity events={events} title={account ? "Recent Activity" : "Protocol Activity"} />
               </div>
             </div>
           </div>
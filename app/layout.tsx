@@ -6,6 +6,8 @@ import { Providers } from "@/providers/chain-provider";
 import "./globals.css";
 import { Header } from "@/components/header";
 import { Footer } from "@/components/footer";
+import { NetworkGuard } from "@/components/network-guard";
+import { ContractClientGuard } from "@/components/contract-client-guard";
 
 export const metadata: Metadata = {
   title: "Maelstrom",
@@ -54,7 +56,11 @@ export default function RootLayout({
             <Providers>
               <div>
                 <Header />
-                <main>{children}</main>
+                <main>
+                  <NetworkGuard>
+                    <ContractClientGuard>{children}</ContractClientGuard>
+                  </NetworkGuard>
+                </main>
                 <Footer />
               </div>
             </Providers>
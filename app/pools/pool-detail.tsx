@@ -5,53 +5,30 @@ import { TokenPairStats } from "@/components/tokens/token-pair-stats";
 import { LiquidityBreakdown } from "@/components/tokens/liquidity-breakdown";
 import { LiquidityActions } from "@/components/tokens/liquidity-actions";
 import { PriceCharts } from "@/components/tokens/price-charts";
+import { AuctionState } from "@/components/tokens/auction-state";
 import { TokenPageSkeleton } from "@/components/tokens/token-page-skeleton";
-import { CSSProperties, useEffect, useMemo, useState } from "react";
-import { useAccount, usePublicClient, useWriteContract } from "wagmi";
-import { ContractClient } from "@/lib/contract-client";
-import { Pool } from "@/types/pool";
+import { CSSProperties } from "react";
 import { Address } from "viem";
-import { Token } from "@/types/token";
+import { usePool, usePoolState, useTokenMeta } from "@/hooks/use-pool-queries";
+import { useNetworkState } from "@/providers/network-provider";
 
 interface TokenPageProps {
   tokenAddress: string;
 }
 
 export default function TokenPage({ tokenAddress }: TokenPageProps) {
-  const { chainId } = useAccount();
-  const { writeContractAsync } = useWriteContract();
-  const publicClient = usePublicClient();
-  const contractClient = useMemo(
-    () => new ContractClient(writeContractAsync, publicClient, chainId),
-    [chainId]
-  );
-  const { address } = useAccount();
-  const [token, setToken] = useState<Token | null>(null);
-  const [pool, setPool] = useState<Pool | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      setLoading(true);
-      if (!address) return;
-      try {
-        const token = await contractClient.getToken(tokenAddress! as Address);
-        setToken(token);
-        const pool = await contractClient.getPool(token, address);
-        setPool(pool);
-      } catch (error) {
-        setError(
-          "Failed to fetch token or pool data." + (error as Error).message
-        );
-        console.error("Error fetching token or pool data:", error);
-        return;
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchData();
-  }, []);
+  // Everything but the LP balance is public, so the page works without a wallet
+  const { account } = useNetworkState();
+  // Live trades and liquidity changes invalidate these queries, so the page refreshes in place
+  const tokenQuery = useTokenMeta(tokenAddress as Address);
+  const token = tokenQuery.data ?? null;
+  const poolQuery = usePool(token, account);
+  const { data: poolState = null } = usePoolState(token);
+  const pool = poolQuery.data ?? null;
+  const loading = !token || !pool;
+  // A failed background refresh keeps the last data on screen
+  const failure = (!token && tokenQuery.error) || (!pool && poolQuery.error);
+  const error = failure ? "Failed to fetch token or pool data." + (failure as Error).message : null;
 
   if (error) {
     return (
@@ -89,12 +66,22 @@ export default function TokenPage({ tokenAddress }: TokenPageProps) {
               />
             </div>
 
+            {/* Auction State */}
+            {poolState && (
+              <div
+                className="animate-fade-in"
+                style={{ "--delay": "400ms" } as CSSProperties}
+              >
+                <AuctionState poolState={poolState} />
+              </div>
+            )}
+
             {/* Price Charts */}
             <div
               className="animate-fade-in"
               style={{ "--delay": "600ms" } as CSSProperties}
             >
-              <PriceCharts token={token!} pool={pool!} />
+              <PriceCharts token={token!} pool={pool!} poolState={poolState} />
             </div>
           </div>
         )}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ApprovalMode,
+  getApprovalMode,
+  getPermitPreference,
+  setApprovalMode,
+  setPermitPreference,
+} from "@/lib/approval-manager";
+
+const OPTIONS: { mode: ApprovalMode; label: string }[] = [
+  { mode: "exact", label: "Exact amount" },
+  { mode: "unlimited", label: "Unlimited" },
+];
+
+// Exact/unlimited approval choice, plus the opt-in to permits; both are saved and reused for later approvals
+export function ApprovalModeSelector() {
+  const [mode, setMode] = useState<ApprovalMode>("exact");
+  const [usePermit, setUsePermit] = useState(false);
+
+  useEffect(() => {
+    setMode(getApprovalMode());
+    setUsePermit(getPermitPreference());
+  }, []);
+
+  const handlePermitChange = (next: boolean) => {
+    setUsePermit(next);
+    setPermitPreference(next);
+  };
+
+  const handleSelect = (next: ApprovalMode) => {
+    setMode(next);
+    setApprovalMode(next);
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded-xl border border-white/[0.05] bg-white/[0.02] text-sm font-plus-jakarta">
+      <div className="flex items-center justify-between">
+        <span className="text-white/70">Token approval</span>
+        <div className="flex gap-1 p-1 rounded-lg bg-white/[0.03]">
+          {OPTIONS.map((option) => (
+            <button
+              key={option.mode}
+              type="button"
+              onClick={() => handleSelect(option.mode)}
+              className={`px-3 py-1 rounded-md text-xs transition-colors ${
+                mode === option.mode
+                  ? "bg-accent-cyan/20 text-white"
+                  : "text-white/50 hover:text-white/80"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-start gap-2 text-xs text-white/50 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={usePermit}
+          onChange={(e) => handlePermitChange(e.target.checked)}
+          className="mt-0.5 accent-accent-cyan"
+        />
+        <span>
+          Sign a permit when the token supports it. Your wallet shows the exact spender, amount and expiry, but it
+          adds a signature prompt before the approval transaction.
+        </span>
+      </label>
+    </div>
+  );
+}
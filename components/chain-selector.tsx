@@ -0,0 +1,51 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { ChevronDown } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CHAIN_REGISTRY, getChainEntry } from "@/lib/chains";
+import { isDemoMode } from "@/lib/demo-mode";
+import { useNetworkState } from "@/providers/network-provider";
+
+// Lets visitors without a wallet pick which chain's pools they browse; the wallet decides once connected
+export function ChainSelector() {
+  const { isConnected } = useAccount();
+  const { chainId, setBrowseChainId } = useNetworkState();
+  const [demo, setDemo] = useState(false);
+
+  useEffect(() => {
+    setDemo(isDemoMode());
+  }, []);
+
+  if (isConnected || demo) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-border/40 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors">
+        {getChainEntry(chainId)?.chain.name}
+        <ChevronDown className="h-3.5 w-3.5" />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Browse network</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={String(chainId)} onValueChange={(value) => setBrowseChainId(Number(value))}>
+          {CHAIN_REGISTRY.map((entry) => (
+            <DropdownMenuRadioItem key={entry.chain.id} value={String(entry.chain.id)}>
+              {entry.chain.name}
+              {entry.testnet && <span className="ml-auto pl-3 text-xs text-muted-foreground">Testnet</span>}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
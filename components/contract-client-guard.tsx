@@ -0,0 +1,32 @@
+"use client";
+
+import { ReactNode } from "react";
+import { AlertTriangle } from "lucide-react";
+import { describeError } from "@/lib/error-toast";
+import { useContractClientError } from "@/providers/contract-client-provider";
+
+// Replaces the page with the reason when the contract client can't be built (no RPC for the chain, unsupported
+// chain, ...), so pages never mount without one. The header stays usable to switch network or fix the RPC, and
+// the page comes back as soon as the client builds.
+export function ContractClientGuard({ children }: { children: ReactNode }) {
+  const error = useContractClientError();
+
+  if (!error) return <>{children}</>;
+
+  const { title, description } = describeError(error);
+
+  return (
+    <div className="min-h-[70vh] flex items-center justify-center px-4 py-16">
+      <div className="w-full max-w-md space-y-3 p-6 rounded-2xl border border-white/[0.05] bg-white/[0.02] backdrop-blur-md text-center">
+        <div className="mx-auto h-12 w-12 rounded-full bg-red-500/10 flex items-center justify-center">
+          <AlertTriangle className="h-6 w-6 text-red-400" />
+        </div>
+        <h2 className="text-xl font-semibold font-plus-jakarta text-white/90">{title}</h2>
+        <p className="text-sm text-white/60">{description}</p>
+        <p className="text-xs text-white/40">
+          Switch network or update the RPC endpoint from the header; the page reloads its data once connected.
+        </p>
+      </div>
+    </div>
+  );
+}
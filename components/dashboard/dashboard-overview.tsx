@@ -1,44 +1,18 @@
 "use client";
 
 import { Card } from "@/components/ui/card";
-import { useAccount } from "wagmi";
 
-interface Stat {
-  portfolioValue: string;
-  // totalLiquidity: string;
-  activePools: string;
-  // profit: string;
-  loading: boolean;
+interface OverviewStat {
+  label: string;
+  value: string;
 }
 
-export function DashboardOverview({
-  portfolioValue,
-  // totalLiquidity,
-  activePools,
-  // profit,
-  loading,
-}: Stat) {
-  const { chainId, chain } = useAccount();
-  const nativeCurrencySymbol = chain?.nativeCurrency?.symbol || "ETH";
-  const stats = [
-    {
-      label: "Portfolio Value",
-      value: loading ? "..." : `${Number(portfolioValue).toFixed(8)} ${nativeCurrencySymbol}`,
-    },
-    // {
-    //   label: "Total Liquidity",
-    //   value: loading ? "..." : `${Number(totalLiquidity).toFixed(8)} ETH`,
-    // },
-    {
-      label: "Active Pools",
-      value: loading ? "..." : activePools.toString(),
-    },
-    // {
-    //   label: "Estimated APR",
-    //   value: loading ? "..." : `${profit}%`,
-    // },
-  ];
+interface DashboardOverviewProps {
+  stats: OverviewStat[];
+  loading: boolean;
+}
 
+export function DashboardOverview({ stats, loading }: DashboardOverviewProps) {
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
       {stats.map((stat) => (
@@ -55,7 +29,7 @@ export function DashboardOverview({
               className="text-2xl font-bold font-clash-display mb-1 text-transparent bg-clip-text bg-gradient-to-r 
               from-white to-white/90 group-hover:to-white/100 transition-colors"
             >
-              {stat.value}
+              {loading ? "..." : stat.value}
             </div>
 
             {/* Label with subtle opacity */}
@@ -2,11 +2,12 @@
 
 import { Deposit, Withdraw } from "@/types/trades";
 import { useEffect, useState } from "react";
-import { formatEther } from "viem";
-import { useAccount } from "wagmi";
+import { fromBaseUnits } from "@/lib/units";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
 
 interface RecentActivityProps {
   events: (Deposit | Withdraw)[];
+  title?: string;
 }
 
 interface Activity {
@@ -16,9 +17,9 @@ interface Activity {
   timestamp: number;
 }
 
-export function RecentActivity({ events }: RecentActivityProps) {
-  const { chainId, chain } = useAccount();
-  const nativeCurrencySymbol = chain?.nativeCurrency?.symbol || "ETH";
+export function RecentActivity({ events, title = "Recent Activity" }: RecentActivityProps) {
+  const nativeCurrency = useNativeCurrency();
+  const nativeCurrencySymbol = nativeCurrency.symbol;
   const [transactions, setTransactions] = useState<Activity[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
 
@@ -31,8 +32,9 @@ export function RecentActivity({ events }: RecentActivityProps) {
         return {
           type: "Deposit",
           token: event.token.symbol,
-          amount: `${formatEther(BigInt(event.ethAmount))} ${nativeCurrencySymbol} + ${formatEther(
-            BigInt(event.tokenAmount)
+          amount: `${fromBaseUnits(event.ethAmount, nativeCurrency.decimals)} ${nativeCurrencySymbol} + ${fromBaseUnits(
+            event.tokenAmount,
+            event.token.decimals
           )} ${event.token.symbol}`,
           timestamp: event.timestamp,
         };
@@ -40,8 +42,9 @@ export function RecentActivity({ events }: RecentActivityProps) {
         return {
           type: "Withdraw",
           token: event.token.symbol,
-          amount: `${formatEther(BigInt(event.ethAmount))} ${nativeCurrencySymbol} + ${formatEther(
-            BigInt(event.tokenAmount)
+          amount: `${fromBaseUnits(event.ethAmount, nativeCurrency.decimals)} ${nativeCurrencySymbol} + ${fromBaseUnits(
+            event.tokenAmount,
+            event.token.decimals
           )} ${event.token.symbol}`,
           timestamp: event.timestamp,
         };
@@ -49,12 +52,12 @@ export function RecentActivity({ events }: RecentActivityProps) {
     });
     setTransactions(updatedEvents);
     setIsLoading(false);
-  }, [events]);
+  }, [events, nativeCurrency.decimals, nativeCurrencySymbol]);
 
   return (
     <div className="p-6">
       <h2 className="text-xl font-semibold mb-6 text-transparent bg-clip-text bg-gradient-to-r from-white to-white/90">
-        Recent Activity
+        {title}
       </h2>
       <div className="space-y-4">
         {isLoading ? (
@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FlaskConical } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isDemoMode, isDemoModeForced, setDemoMode } from "@/lib/demo-mode";
+
+// Switches between the chain and the in-memory simulator; reloads so every client is rebuilt
+export function DemoModeToggle() {
+  const [enabled, setEnabled] = useState(false);
+  const [forced, setForced] = useState(false);
+
+  useEffect(() => {
+    setEnabled(isDemoMode());
+    setForced(isDemoModeForced());
+  }, []);
+
+  const handleToggle = () => {
+    setDemoMode(!enabled);
+    window.location.reload();
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleToggle}
+      disabled={forced}
+      title={enabled ? "Demo mode: trades run against a local simulator" : "Try the app offline with simulated pools"}
+      className={cn(
+        "flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-xs font-medium transition-colors disabled:cursor-default",
+        enabled
+          ? "border-accent-cyan/40 bg-accent-cyan/10 text-accent-cyan"
+          : "border-border/40 text-muted-foreground hover:text-foreground"
+      )}
+    >
+      <FlaskConical className="h-3.5 w-3.5" />
+      {enabled ? "Demo mode" : "Demo"}
+    </button>
+  );
+}
@@ -7,6 +7,9 @@ import { cn } from "@/lib/utils";
 import Image from "next/image";
 import { useState } from "react";
 import { Menu, X, Home, Repeat2, Droplets, LayoutDashboard, Plus } from "lucide-react";
+import { DemoModeToggle } from "@/components/demo-mode-toggle";
+import { RpcSettings } from "@/components/rpc-settings";
+import { ChainSelector } from "@/components/chain-selector";
 
 const navigation = [
   { name: "Swap", href: "/swap", icon: Repeat2 },
@@ -65,6 +68,9 @@ export function Header() {
 
           {/* Right side actions */}
           <div className="flex items-center space-x-4">
+            <ChainSelector />
+            <DemoModeToggle />
+            <RpcSettings />
             <button
               onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
               className="md:hidden p-2 rounded-lg hover:bg-accent/10 transition-colors"
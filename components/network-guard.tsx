@@ -0,0 +1,94 @@
+"use client";
+
+import { ReactNode, useEffect, useState } from "react";
+import { useSwitchChain } from "wagmi";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CHAIN_REGISTRY, getChainEntry } from "@/lib/chains";
+import { showErrorToast } from "@/lib/error-toast";
+import { useNetworkState } from "@/providers/network-provider";
+
+// Replaces the page with a network switcher while the wallet is on a chain without Maelstrom.
+// Users can dismiss it to keep browsing; reads then use the default chain and writes are refused.
+export function NetworkGuard({ children }: { children: ReactNode }) {
+  const { wrongNetwork, walletChainId } = useNetworkState();
+  const { switchChain, isPending, variables } = useSwitchChain();
+  const [dismissed, setDismissed] = useState(false);
+
+  // Moving to another unsupported chain shows the full-page state again
+  useEffect(() => {
+    setDismissed(false);
+  }, [walletChainId]);
+
+  const handleSwitch = (chainId: number) => {
+    switchChain(
+      { chainId },
+      { onError: (error) => showErrorToast(error, "Switch network", { retry: () => handleSwitch(chainId) }) }
+    );
+  };
+
+  if (!wrongNetwork) return <>{children}</>;
+
+  const walletChainName = getChainEntry(walletChainId)?.chain.name ?? `chain ${walletChainId}`;
+
+  if (dismissed) {
+    return (
+      <>
+        <div className="flex items-center justify-center gap-3 px-4 py-2 text-sm bg-yellow-500/10 border-b border-yellow-500/20 text-yellow-200">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <span>Read-only: your wallet is on {walletChainName}, where Maelstrom isn&apos;t deployed.</span>
+          <button type="button" onClick={() => setDismissed(false)} className="underline hover:text-yellow-100">
+            Switch network
+          </button>
+        </div>
+        {children}
+      </>
+    );
+  }
+
+  return (
+    <div className="min-h-[70vh] flex items-center justify-center px-4 py-16">
+      <div className="w-full max-w-md space-y-6 p-6 rounded-2xl border border-white/[0.05] bg-white/[0.02] backdrop-blur-md">
+        <div className="flex flex-col items-center gap-3 text-center">
+          <div className="h-12 w-12 rounded-full bg-yellow-500/10 flex items-center justify-center">
+            <AlertTriangle className="h-6 w-6 text-yellow-400" />
+          </div>
+          <h2 className="text-xl font-semibold font-plus-jakarta text-white/90">Wrong network</h2>
+          <p className="text-sm text-white/60">
+            Your wallet is connected to {walletChainName}, where Maelstrom isn&apos;t deployed. Switch to one of these
+            networks to trade and manage liquidity.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {CHAIN_REGISTRY.map((entry) => {
+            const switching = isPending && variables?.chainId === entry.chain.id;
+            return (
+              <button
+                key={entry.chain.id}
+                type="button"
+                onClick={() => handleSwitch(entry.chain.id)}
+                disabled={isPending}
+                className="w-full flex items-center justify-between p-3 rounded-xl border border-white/[0.05] bg-white/[0.02] hover:bg-white/[0.05] transition-colors text-sm disabled:opacity-60"
+              >
+                <span className="text-white/80">
+                  {entry.chain.name}
+                  {entry.testnet && <span className="ml-2 text-xs text-white/40">Testnet</span>}
+                </span>
+                {switching ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-accent-cyan" />
+                ) : (
+                  <span className="text-xs text-white/40">{entry.chain.nativeCurrency.symbol}</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <Button variant="ghost" className="w-full text-white/60" onClick={() => setDismissed(true)}>
+          Browse read-only
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { Loader2, Plus, Server, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { CHAIN_REGISTRY, DEFAULT_CHAIN_ID, getChainEntry } from "@/lib/chains";
+import {
+  checkRpcEndpoint,
+  getCustomRpcUrls,
+  getRpcHealth,
+  getRpcStats,
+  RpcEndpointHealth,
+  RpcEndpointStats,
+  setCustomRpcUrls,
+} from "@/lib/rpc";
+
+const STATS_REFRESH_MS = 2_000;
+
+const HEALTH_STYLES: Record<RpcEndpointHealth, string> = {
+  healthy: "bg-green-400",
+  degraded: "bg-yellow-400",
+  down: "bg-red-400",
+  unknown: "bg-white/20",
+};
+
+// Custom RPC endpoints per chain, plus live latency and error counts for every endpoint in use
+export function RpcSettings() {
+  const { chainId: connectedChainId } = useAccount();
+  const [isOpen, setIsOpen] = useState(false);
+  const [chainId, setChainId] = useState(DEFAULT_CHAIN_ID);
+  const [customUrls, setCustomUrls] = useState<string[]>([]);
+  const [endpoints, setEndpoints] = useState<RpcEndpointStats[]>([]);
+  const [newUrl, setNewUrl] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [changed, setChanged] = useState(false);
+
+  const chain = getChainEntry(chainId)!.chain;
+
+  useEffect(() => {
+    if (isOpen && getChainEntry(connectedChainId)) setChainId(connectedChainId!);
+  }, [isOpen, connectedChainId]);
+
+  useEffect(() => {
+    setCustomUrls(getCustomRpcUrls(chainId));
+    setNewUrl("");
+  }, [chainId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const refresh = () => setEndpoints(getRpcStats(getChainEntry(chainId)!.chain));
+    refresh();
+    const timer = setInterval(refresh, STATS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, chainId]);
+
+  const saveUrls = (urls: string[]) => {
+    setCustomRpcUrls(chainId, urls);
+    setCustomUrls(urls);
+    setEndpoints(getRpcStats(chain));
+    setChanged(true);
+  };
+
+  const handleAdd = async () => {
+    const url = newUrl.trim();
+    try {
+      if (!/^https?:$/.test(new URL(url).protocol)) throw new Error();
+    } catch {
+      toast.error("Enter an http(s) RPC URL.");
+      return;
+    }
+    if (customUrls.includes(url)) {
+      toast.error("This RPC is already in the list.");
+      return;
+    }
+    setChecking(true);
+    try {
+      const { latencyMs, blockNumber } = await checkRpcEndpoint(url, chainId);
+      saveUrls([...customUrls, url]);
+      setNewUrl("");
+      toast.success(`RPC added: block ${blockNumber.toLocaleString()}, ${latencyMs} ms`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        title="RPC settings"
+        aria-label="RPC settings"
+        className="p-2 rounded-lg border border-border/40 text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <Server className="h-4 w-4" />
+      </button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>RPC settings</DialogTitle>
+            <DialogDescription>
+              Custom endpoints are tried first. Endpoints are re-ranked by latency and reliability as the app runs.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex flex-wrap gap-1">
+            {CHAIN_REGISTRY.map((entry) => (
+              <button
+                key={entry.chain.id}
+                type="button"
+                onClick={() => setChainId(entry.chain.id)}
+                className={cn(
+                  "px-3 py-1 rounded-md text-xs transition-colors",
+                  entry.chain.id === chainId
+                    ? "bg-accent-cyan/20 text-white"
+                    : "text-white/50 hover:text-white/80"
+                )}
+              >
+                {entry.chain.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            {endpoints.map((endpoint) => {
+              const health = getRpcHealth(endpoint);
+              const custom = customUrls.includes(endpoint.url);
+              return (
+                <div
+                  key={endpoint.url}
+                  className="flex items-center gap-3 p-3 rounded-xl border border-white/[0.05] bg-white/[0.02] text-sm"
+                >
+                  <span className={cn("h-2 w-2 rounded-full shrink-0", HEALTH_STYLES[health])} title={health} />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-white/80" title={endpoint.url}>
+                      {endpoint.url}
+                    </div>
+                    <div className="text-xs text-white/40" title={endpoint.lastError}>
+                      {custom ? "Custom · " : "Public · "}
+                      {endpoint.latencyMs !== undefined ? `${Math.round(endpoint.latencyMs)} ms · ` : ""}
+                      {endpoint.errors}/{endpoint.requests} failed
+                    </div>
+                  </div>
+                  {custom && (
+                    <button
+                      type="button"
+                      onClick={() => saveUrls(customUrls.filter((url) => url !== endpoint.url))}
+                      aria-label={`Remove ${endpoint.url}`}
+                      className="text-white/40 hover:text-white/80"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="https://…"
+              value={newUrl}
+              onChange={(e) => setNewUrl(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+              disabled={checking}
+            />
+            <Button onClick={handleAdd} disabled={!newUrl.trim() || checking}>
+              {checking ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Add
+            </Button>
+          </div>
+
+          {changed && (
+            <div className="flex items-center justify-between gap-3 text-xs text-white/60">
+              <span>Changes apply after a reload.</span>
+              <Button size="sm" variant="outline" onClick={() => window.location.reload()}>
+                Reload now
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { ReactNode } from "react";
+import { AlertTriangle, CheckCircle2, Info, XCircle } from "lucide-react";
+import { SimulationResult } from "@/types/trades";
+
+interface SimulationStatusProps {
+  simulation: SimulationResult | undefined;
+  isSimulating: boolean;
+  // Simulated amounts, already formatted by the caller
+  details?: ReactNode;
+}
+
+export function SimulationStatus({ simulation, isSimulating, details }: SimulationStatusProps) {
+  if (isSimulating) {
+    return (
+      <div className="flex items-center gap-2 p-3 rounded-xl border border-white/[0.05] bg-white/[0.02] text-sm text-white/70 font-plus-jakarta">
+        <div className="animate-spin rounded-full h-4 w-4 border-2 border-white/20 border-t-white" />
+        Simulating transaction...
+      </div>
+    );
+  }
+  if (!simulation) return null;
+
+  if (!simulation.success) {
+    return (
+      <div className="flex items-start gap-2 p-3 rounded-xl border border-red-500/20 bg-red-500/[0.06] text-sm text-red-300 font-plus-jakarta">
+        <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <div>
+          <div className="font-medium">This transaction would fail</div>
+          <div className="text-red-300/80 break-words">{simulation.errorName ?? simulation.error}</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!simulation.simulated) {
+    return (
+      <div className="flex items-start gap-2 p-3 rounded-xl border border-amber-500/20 bg-amber-500/[0.06] text-sm text-amber-200 font-plus-jakarta">
+        <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <div>
+          {simulation.needsApproval
+            ? "Requires a token approval first. The trade will be re-checked before you sign it."
+            : "Couldn't pre-verify this transaction on this network. You can still continue."}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-2 p-3 rounded-xl border border-emerald-500/20 bg-emerald-500/[0.06] text-sm text-emerald-200 font-plus-jakarta">
+      <CheckCircle2 className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <div className="space-y-1">
+        <div className="font-medium">Simulation passed</div>
+        {details}
+        {simulation.needsApproval && (
+          <div className="flex items-center gap-1 text-emerald-200/70">
+            <Info className="h-3 w-3" />
+            Includes a token approval
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { Token } from "@/types/token";
+import { formatTokenAmount } from "@/lib/utils";
+import { fromBaseUnits } from "@/lib/units";
+
+const SHORTCUTS = [
+  { label: "25%", percent: 25 },
+  { label: "50%", percent: 50 },
+  { label: "Max", percent: 100 },
+];
+
+interface BalanceShortcutsProps {
+  token?: Token | null;
+  // Base units; nothing renders until the balance is known
+  balance?: bigint;
+  // Part of the balance the shortcuts may fill in; native balances keep gas back
+  spendable?: bigint;
+  // Leave out for fields that are computed rather than typed
+  onSelect?: (amount: string) => void;
+}
+
+// "Balance: X" for an amount field, with 25% / 50% / Max buttons that fill it in
+export function BalanceShortcuts({ token, balance, spendable = balance, onSelect }: BalanceShortcutsProps) {
+  if (!token || balance === undefined) return null;
+
+  return (
+    <div className="flex items-center justify-end gap-2 text-xs text-white/50 font-plus-jakarta">
+      <span>
+        Balance: {formatTokenAmount(balance, token.decimals)} {token.symbol}
+      </span>
+      {onSelect &&
+        SHORTCUTS.map(({ label, percent }) => (
+          <button
+            key={label}
+            type="button"
+            disabled={!spendable}
+            onClick={() => onSelect(fromBaseUnits((spendable! * BigInt(percent)) / BigInt(100), token.decimals))}
+            className="px-1.5 py-0.5 rounded-md border border-white/[0.08] text-accent-cyan/80 hover:text-accent-cyan hover:bg-white/[0.05] disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+    </div>
+  );
+}
@@ -1,17 +1,34 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { SwapPreviewModal } from "@/components/swap/swap-preview-modal";
+import { WalletGate } from "@/components/wallet-gate";
+import { PreviewQuote, RefreshedQuote, SwapPreviewModal } from "@/components/swap/swap-preview-modal";
 import { toast } from "sonner";
 import { ArrowDownUp, HelpCircle, Settings } from "lucide-react";
 import { TokenSelector } from "./token-selector";
-import { Token, getNativeCurrencyToken } from "@/types/token";
+import { isNativeToken, Token } from "@/types/token";
 import { BuyRequest, BuyResult } from "@/types/trades";
-import { useAccount, usePublicClient, useWriteContract } from "wagmi";
-import { ContractClient } from "@/lib/contract-client";
-import { RowPool } from "@/types/pool";
-import { formatEther } from "viem";
+import { useAccount } from "wagmi";
+import { useContractClient } from "@/providers/contract-client-provider";
+import { useFreshPoolState } from "@/hooks/use-pool-queries";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
+import { useWalletBalance } from "@/hooks/use-wallet-balance";
+import { useLinkedToken, useSwapLink } from "@/hooks/use-swap-link";
+import { useBuy } from "@/hooks/use-pool-mutations";
+import { showErrorToast } from "@/lib/error-toast";
+import { useChainModal } from "@rainbow-me/rainbowkit";
+import { useRouter } from "next/navigation";
+import { PoolState } from "@/types/pool";
+import { formatTokenAmount } from "@/lib/utils";
+import { applySlippage } from "@/lib/fixed-point";
+import { buyInputFor, simulateBuy, TradeSimulation } from "@/lib/auction-model";
+import { fromBaseUnits, parseAmount, priceDecimals, toBaseUnits } from "@/lib/units";
+import { explorerTxUrl } from "@/lib/chains";
+import { useSimulation } from "@/hooks/use-simulation";
+import { PriceImpact, PriceImpactProps } from "./price-impact";
+import { DecayHint } from "./decay-hint";
+import { BalanceShortcuts } from "./balance-shortcuts";
 import {
   Tooltip,
   TooltipContent,
@@ -21,10 +38,9 @@ import {
 import { Slider } from "../ui/slider";
 
 interface BuyFormProps {
-  tokens: RowPool[];
   handleTokenOutChange: (token: Token) => Promise<void>;
-  buyPrice: string;
-  tokenOutReserve: string | undefined;
+  // Auction state of the selected token's pool, from the parent's last fetch
+  poolState: PoolState | null;
   isFetchingRates: boolean;
   zeroSlippageMode: boolean;
   slippageTolerance: number;
@@ -32,25 +48,22 @@ interface BuyFormProps {
 }
 
 export function BuyForm({
-  tokens,
   handleTokenOutChange,
-  buyPrice,
-  tokenOutReserve,
+  poolState,
   isFetchingRates,
   zeroSlippageMode,
   slippageTolerance,
   setSlippageTolerance,
 }: BuyFormProps) {
-  const { chainId } = useAccount();
-  const { writeContractAsync } = useWriteContract();
-  const publicClient = usePublicClient();
-  const contractClient = useMemo(
-    () => new ContractClient(writeContractAsync, publicClient, chainId),
-    [chainId]
-  );
+  const contractClient = useContractClient();
+  const fetchFreshPoolState = useFreshPoolState();
+  const buy = useBuy();
+  const { simulation, isSimulating, runSimulation, resetSimulation } = useSimulation();
   const { chain } = useAccount();
-  const baseUrl = chain?.blockExplorers?.default.url;
-  const nativeCurrencySymbol = chain?.nativeCurrency?.symbol || "ETH";
+  const { openChainModal } = useChainModal();
+  const router = useRouter();
+  const nativeCurrency = useNativeCurrency();
+  const nativeCurrencySymbol = nativeCurrency.symbol;
   const [ethAmount, setEthAmount] = useState("");
   const [tokenAmount, setTokenAmount] = useState("");
   const [showPreview, setShowPreview] = useState(false);
@@ -58,107 +71,201 @@ export function BuyForm({
   const [isSwapping, setIsSwapping] = useState(false);
   const [token, setToken] = useState<Token | undefined>(undefined);
   const [validationError, setValidationError] = useState<string>("");
+  const [quote, setQuote] = useState<TradeSimulation | null>(null);
+  const { balance: ethBalance, spendable: ethSpendable } = useWalletBalance(nativeCurrency);
+  const insufficientBalance = ethBalance !== undefined && toBaseUnits(ethAmount, nativeCurrency.decimals) > ethBalance;
 
   const handleTokenChange = async (selctedToken: Token) => {
     setToken(selctedToken);
     await handleTokenOutChange(selctedToken);
   };
 
-  const handleInputChange = async (value: string) => {
+  // Quote the typed amount with the auction model; the other field follows from it
+  const updateQuote = (value: string, pool = poolState): PreviewQuote | undefined => {
     setValidationError("");
-    if (!token) return;
-    if (!isEthInput) {
-      setTokenAmount(value);
-      if (Number(value) * 1e18 > Number(tokenOutReserve) * 0.1) {
-        const maxTokenOutAllowed = Number(tokenOutReserve) * 0.1;
-        setValidationError(
-          `Amount exceeds 10% of reserve. Maximum: ${formatEther(
-            BigInt(maxTokenOutAllowed)
-          )} ${token.symbol}`
-        );
-        return "";
-      }
-      const ethValue = String(
-        Number(value) * Number(formatEther(BigInt(buyPrice)))
-      );
-      setEthAmount(ethValue);
-    } else {
-      setEthAmount(value);
-      if (Number(buyPrice) === Number(0)) {
-        await handleTokenChange(token);
-      }
-      const tokenValue = String(
-        Number(value) / Number(formatEther(BigInt(buyPrice)))
+    setQuote(null);
+    if (!token || pool?.token.address !== token.address) return;
+    const amount = parseAmount(value, isEthInput ? nativeCurrency.decimals : token.decimals);
+    if (amount === undefined) {
+      setValidationError("Enter a valid amount");
+      return;
+    }
+    if (amount <= BigInt(0)) {
+      if (isEthInput) setTokenAmount("");
+      else setEthAmount("");
+      return;
+    }
+    const ethIn = isEthInput ? amount : buyInputFor(pool, amount);
+    const result = simulateBuy(pool, ethIn);
+    if (result.exceedsReserve) {
+      setValidationError(
+        `Not enough ${token.symbol} in the pool. Available: ${fromBaseUnits(
+          pool.reserve.tokenReserve,
+          token.decimals
+        )} ${token.symbol}`
       );
-      if (Number(tokenValue) * 1e18 > Number(tokenOutReserve) * 0.1) {
-        const maxTokenOutAllowed = Number(tokenOutReserve) * 0.1;
-        setValidationError(
-          `Amount exceeds 10% of reserve. Maximum: ${formatEther(
-            BigInt(maxTokenOutAllowed)
-          )} ${token.symbol}`
-        );
-        return "";
-      }
-      setTokenAmount(tokenValue);
+      return;
     }
-    setValidationError("");
+    const amountIn = fromBaseUnits(ethIn, nativeCurrency.decimals);
+    const amountOut = fromBaseUnits(result.amountOut, token.decimals);
+    if (isEthInput) setTokenAmount(amountOut);
+    else setEthAmount(amountIn);
+    setQuote(result);
+    return { amountIn, amountOut };
   };
 
+  const handleInputChange = (value: string) => {
+    if (!token) return;
+    if (isEthInput) setEthAmount(value);
+    else setTokenAmount(value);
+    updateQuote(value);
+  };
+
+  // The pool and link effects below only fire on their own inputs; they reach this render's handlers through a ref
+  const handlers = { requote: () => updateQuote(isEthInput ? ethAmount : tokenAmount), handleTokenChange };
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  // Re-quote when the pool state for the selected token arrives or refreshes
+  useEffect(() => {
+    handlersRef.current.requote();
+  }, [poolState]);
+
+  // Pre-fill from a buy link once its token is resolved; the quote follows when the pool state arrives
+  const { link, setLink } = useSwapLink();
+  const linkedToken = useLinkedToken(link.mode === "buy" ? link.tokenOut : undefined);
+  const linkAppliedRef = useRef(false);
+
+  useEffect(() => {
+    if (linkAppliedRef.current || linkedToken.pending) return;
+    linkAppliedRef.current = true;
+    if (link.mode !== "buy") return;
+    if (linkedToken.token === null) toast.error(`No Maelstrom pool for ${link.tokenOut}.`);
+    const ethInput = !link.exactOut;
+    setIsEthInput(ethInput);
+    if (ethInput) setEthAmount(link.amount ?? "");
+    else setTokenAmount(link.amount ?? "");
+    if (linkedToken.token && !isNativeToken(linkedToken.token)) handlersRef.current.handleTokenChange(linkedToken.token);
+  }, [link, linkedToken]);
+
+  useEffect(() => {
+    if (!linkAppliedRef.current) return;
+    setLink({
+      mode: "buy",
+      tokenOut: token?.address,
+      amount: isEthInput ? ethAmount : tokenAmount,
+      exactOut: !isEthInput,
+    });
+  }, [token, ethAmount, tokenAmount, isEthInput, setLink]);
+
+  const priceImpact: PriceImpactProps | undefined =
+    quote && token
+      ? {
+          impactBps: quote.priceImpactBps,
+          nextPrices: [
+            {
+              label: "Buy price after trade",
+              value: `${formatTokenAmount(quote.updatedBuyPrice, priceDecimals(token.decimals), 8)} ${nativeCurrencySymbol}`,
+            },
+          ],
+        }
+      : undefined;
+
   const handleSwapInputType = () => {
     setIsEthInput(!isEthInput);
   };
 
+  // Request for `quote`, or for the amounts in the form when there is none
+  const buildBuyRequest = (
+    selectedToken: Token,
+    quote: PreviewQuote = { amountIn: ethAmount, amountOut: tokenAmount }
+  ): BuyRequest => {
+    const effectiveSlippage = zeroSlippageMode ? 0 : slippageTolerance;
+    const minimumTokenOut = applySlippage(toBaseUnits(quote.amountOut, selectedToken.decimals), effectiveSlippage);
+
+    return {
+      token: selectedToken,
+      amountIn: toBaseUnits(quote.amountIn, nativeCurrency.decimals).toString(),
+      minimumAmountToBuy: minimumTokenOut.toString(),
+    };
+  };
+
   const handlePreview = () => {
     if (!ethAmount || !tokenAmount || !token) {
       toast.error("Invalid Amount: Please enter an amount to buy");
       return;
     }
     setShowPreview(true);
+    simulateTrade();
   };
 
-  const handleConfirmBuy = async () => {
+  const simulateTrade = (quote?: PreviewQuote) =>
+    token ? runSimulation(() => contractClient.simulateBuy(buildBuyRequest(token, quote))) : undefined;
+
+  // Re-quote against the pool as it is now, just before the preview sends the trade, and simulate the new quote
+  const refreshQuote = async (): Promise<RefreshedQuote | undefined> => {
+    if (!token) return undefined;
+    const quote = updateQuote(isEthInput ? ethAmount : tokenAmount, await fetchFreshPoolState(token));
+    const simulation = quote && (await simulateTrade(quote));
+    return quote && simulation && { quote, simulation };
+  };
+
+  const handleClosePreview = () => {
+    setShowPreview(false);
+    resetSimulation();
+  };
+
+  const handleConfirmBuy = async (quote?: PreviewQuote) => {
     if (!token || validationError) return;
     setIsSwapping(true);
 
-    const amountOutNum = parseFloat(tokenAmount);
-    const effectiveSlippage = zeroSlippageMode ? 0 : slippageTolerance;
-    const slippageMultiplier = (100 - effectiveSlippage) / 100;
-    const minimumTokenOut = (amountOutNum * slippageMultiplier).toString();
-
-    const request: BuyRequest = {
-      token,
-      amountIn: (Math.round(Number(ethAmount) * 1e18)).toString(),
-      minimumAmountToBuy: (Math.round(Number(minimumTokenOut) * 1e18)).toString(),
-    };
-    const result: BuyResult = await contractClient.buy(request);
-    if (result.success) {
-      toast.success(
-        <div>
-          <div>Swap Successful! </div>
+    const request = buildBuyRequest(token, quote);
+    try {
+      const result: BuyResult = await buy.mutateAsync(request);
+      if (result.success) {
+        toast.success(
           <div>
-            <a
-              href={`${baseUrl}/tx/${result.txHash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="underline text-blue-400"
-            >
-              View on block explorer
-            </a>
+            <div>Swap Successful! </div>
+            <div>
+              Received {formatTokenAmount(result.amountOut, token.decimals)} {token.symbol}
+            </div>
+            <div className="text-xs text-white/60">
+              New buy price: {formatTokenAmount(result.updatedBuyPrice, priceDecimals(token.decimals))} {nativeCurrencySymbol} · Gas used:{" "}
+              {Number(result.gasUsed).toLocaleString()}
+            </div>
+            <div>
+              <a
+                href={explorerTxUrl(chain?.id, result.txHash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline text-blue-400"
+              >
+                View on block explorer
+              </a>
+            </div>
           </div>
-        </div>
-      );
-    } else {
-      toast.error(
-        `Swap Failed!: ${
-          result.error || "An error occurred during the swap process."
-        }`
-      );
-    }
-    setIsSwapping(false);
-    if (result) {
+        );
+      } else {
+        toast.error(
+          `Swap Failed!: ${
+            result.error || "An error occurred during the swap process."
+          }`
+        );
+      }
       setEthAmount("");
       setTokenAmount("");
       setShowPreview(false);
+    } catch (error) {
+      console.error("Buy failed:", error);
+      showErrorToast(error, "Buy", {
+        retry: () => handleConfirmBuy(quote),
+        switchNetwork: openChainModal,
+        createPool: () => router.push("/create"),
+      });
+    } finally {
+      setIsSwapping(false);
     }
   };
 
@@ -191,7 +298,6 @@ export function BuyForm({
           {!isEthInput && (
             <div className="ml-2">
               <TokenSelector
-                Tokens={tokens}
                 selectedToken={token}
                 onTokenChange={handleTokenChange}
               />
@@ -211,8 +317,22 @@ export function BuyForm({
             </Button>
           )}
         </div>
+        {isEthInput && (
+          <div className="mt-2">
+            <BalanceShortcuts token={nativeCurrency} balance={ethBalance} spendable={ethSpendable} onSelect={handleInputChange} />
+          </div>
+        )}
       </div>
 
+      {token && poolState?.token.address === token.address && (
+        <DecayHint
+          label="Buy"
+          side={poolState.buy}
+          tokenDecimals={token.decimals}
+          nativeCurrencySymbol={nativeCurrencySymbol}
+        />
+      )}
+
       {/* Validation Error Message */}
       {validationError && (
         <div className="px-1 py-2 -my-1">
@@ -258,7 +378,6 @@ export function BuyForm({
           {isEthInput && (
             <div className="ml-2">
               <TokenSelector
-                Tokens={tokens}
                 selectedToken={token}
                 onTokenChange={handleTokenChange}
               />
@@ -278,6 +397,11 @@ export function BuyForm({
             </Button>
           )}
         </div>
+        {!isEthInput && (
+          <div className="mt-2">
+            <BalanceShortcuts token={nativeCurrency} balance={ethBalance} />
+          </div>
+        )}
       </div>
 
       {token && Number(tokenAmount) > 0 && !isFetchingRates && !isSwapping && (
@@ -289,6 +413,7 @@ export function BuyForm({
               {Number(ethAmount) / Number(tokenAmount)} {nativeCurrencySymbol}
             </span>
           </div>
+          {priceImpact && <PriceImpact {...priceImpact} />}
           {/* Slippage Tolerance - Only show in Advanced Mode */}
           {!zeroSlippageMode ? (
             <div className="space-y-3 pt-2 border-t border-white/[0.05]">
@@ -354,31 +479,39 @@ export function BuyForm({
         </div>
       )}
 
-      <Button
-        onClick={handlePreview}
-        disabled={!ethAmount || !tokenAmount || isSwapping || isFetchingRates}
-        className="w-full h-14 mt-6 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
-          text-white font-semibold rounded-xl shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
-          disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
-          border border-white/[0.05] backdrop-blur-sm font-plus-jakarta text-base"
-      >
-        {isSwapping || isFetchingRates ? (
-          <div className="animate-spin rounded-full h-5 w-5 border-2 border-white/20 border-t-white" />
-        ) : (
-          `Preview Buy`
-        )}
-      </Button>
+      <WalletGate className="mt-6">
+        <Button
+          onClick={handlePreview}
+          disabled={!ethAmount || !tokenAmount || isSwapping || isFetchingRates || insufficientBalance}
+          className="w-full h-14 mt-6 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
+            text-white font-semibold rounded-xl shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
+            disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
+            border border-white/[0.05] backdrop-blur-sm font-plus-jakarta text-base"
+        >
+          {isSwapping || isFetchingRates ? (
+            <div className="animate-spin rounded-full h-5 w-5 border-2 border-white/20 border-t-white" />
+          ) : insufficientBalance ? (
+            `Insufficient ${nativeCurrencySymbol} balance`
+          ) : (
+            `Preview Buy`
+          )}
+        </Button>
+      </WalletGate>
 
       <SwapPreviewModal
         isOpen={showPreview}
-        onClose={() => setShowPreview(false)}
+        onClose={handleClosePreview}
         onConfirm={handleConfirmBuy}
-        tokenIn={getNativeCurrencyToken(chain)}
+        onRefreshQuote={refreshQuote}
+        tokenIn={nativeCurrency}
         tokenOut={token}
         amountIn={ethAmount}
         amountOut={tokenAmount}
         loading={isSwapping}
         slippageTolerance={!zeroSlippageMode ? slippageTolerance : undefined}
+        simulation={simulation}
+        isSimulating={isSimulating}
+        priceImpact={priceImpact}
       />
     </div>
   );
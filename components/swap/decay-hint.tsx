@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Clock } from "lucide-react";
+import { AuctionSide } from "@/types/pool";
+import { projectDecay } from "@/lib/auction-model";
+import { formatDuration, formatTokenAmount } from "@/lib/utils";
+import { priceDecimals } from "@/lib/units";
+
+interface DecayHintProps {
+  label: "Buy" | "Sell";
+  side: AuctionSide;
+  tokenDecimals: number;
+  nativeCurrencySymbol: string;
+}
+
+// Where this side's price is heading if nobody trades in the meantime
+export function DecayHint({ label, side, tokenDecimals, nativeCurrencySymbol }: DecayHintProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second so the countdown keeps moving between pool refetches
+  useEffect(() => {
+    const ticker = setInterval(() => setNow(Date.now()), 1_000);
+    return () => clearInterval(ticker);
+  }, []);
+
+  const projection = projectDecay(side, now);
+  if (!projection) return null;
+
+  const seconds = Math.ceil((projection.endTs - projection.startTs) / 1000);
+  const eta = seconds < 60 ? "under a minute" : `~${formatDuration(seconds)}`;
+
+  return (
+    <div className="flex items-start gap-2 px-3 py-2 rounded-xl border border-white/[0.05] bg-white/[0.02] text-xs text-white/60 font-plus-jakarta">
+      <Clock className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-accent-cyan" />
+      <span>
+        {label} price expected to reach{" "}
+        <span className="text-white/80">
+          {formatTokenAmount(projection.endPrice, priceDecimals(tokenDecimals), 8)} {nativeCurrencySymbol}
+        </span>{" "}
+        in {eta} if nobody trades.
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { TrendingUp } from "lucide-react";
+
+export interface PriceImpactProps {
+  // Move of the auction price caused by the trade, in basis points
+  impactBps: bigint;
+  // Post-trade prices, already formatted by the caller
+  nextPrices: { label: string; value: string }[];
+}
+
+// Modelled effect of the trade on the auction prices the next trader sees
+export function PriceImpact({ impactBps, nextPrices }: PriceImpactProps) {
+  const impact = Number(impactBps) / 100;
+  const tone = impact >= 5 ? "text-red-300" : impact >= 1 ? "text-amber-200" : "text-white/80";
+
+  return (
+    <div className="space-y-2 text-sm font-plus-jakarta">
+      <div className="flex items-center justify-between">
+        <span className="text-white/50 font-medium flex items-center gap-2">
+          <TrendingUp className="h-4 w-4" />
+          Price impact
+        </span>
+        <span className={`font-medium ${tone}`}>{impact.toFixed(2)}%</span>
+      </div>
+      {nextPrices.map((price) => (
+        <div key={price.label} className="flex items-center justify-between text-xs">
+          <span className="text-white/40">{price.label}</span>
+          <span className="text-white/60">{price.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,17 +1,34 @@
 "use client";
 
-import { useMemo, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { WalletGate } from "@/components/wallet-gate";
 import { TokenSelector } from "./token-selector";
-import { SwapPreviewModal } from "@/components/swap/swap-preview-modal";
+import { PreviewQuote, RefreshedQuote, SwapPreviewModal } from "@/components/swap/swap-preview-modal";
 import { toast } from "sonner";
 import { ArrowDownUp, HelpCircle, Settings } from "lucide-react";
-import { useAccount, usePublicClient, useWriteContract } from "wagmi";
-import { ContractClient } from "@/lib/contract-client";
-import { Token, getNativeCurrencyToken } from "@/types/token";
+import { useAccount } from "wagmi";
+import { useContractClient } from "@/providers/contract-client-provider";
+import { useFreshPoolState } from "@/hooks/use-pool-queries";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
+import { useWalletBalance } from "@/hooks/use-wallet-balance";
+import { useLinkedToken, useSwapLink } from "@/hooks/use-swap-link";
+import { useSell } from "@/hooks/use-pool-mutations";
+import { showErrorToast } from "@/lib/error-toast";
+import { useChainModal } from "@rainbow-me/rainbowkit";
+import { useRouter } from "next/navigation";
+import { isNativeToken, Token } from "@/types/token";
 import { SellRequest, SellResult } from "@/types/trades";
-import { RowPool } from "@/types/pool";
-import { formatEther } from "viem";
+import { PoolState } from "@/types/pool";
+import { formatTokenAmount } from "@/lib/utils";
+import { applySlippage } from "@/lib/fixed-point";
+import { sellInputFor, simulateSell, TradeSimulation } from "@/lib/auction-model";
+import { fromBaseUnits, parseAmount, priceDecimals, toBaseUnits } from "@/lib/units";
+import { explorerTxUrl } from "@/lib/chains";
+import { useSimulation } from "@/hooks/use-simulation";
+import { PriceImpact, PriceImpactProps } from "./price-impact";
+import { DecayHint } from "./decay-hint";
+import { BalanceShortcuts } from "./balance-shortcuts";
 import {
   Tooltip,
   TooltipContent,
@@ -21,36 +38,32 @@ import {
 import { Slider } from "../ui/slider";
 
 interface SellFormProps {
-  tokens: RowPool[];
   handleTokenInChange: (token: Token) => Promise<void>;
-  sellPrice: string;
   isFetchingRates: boolean;
-  ethInReserve: string | undefined;
+  // Auction state of the selected token's pool, from the parent's last fetch
+  poolState: PoolState | null;
   zeroSlippageMode: boolean;
   slippageTolerance: number;
   setSlippageTolerance: (value: number) => void;
 }
 
 export function SellForm({
-  tokens,
   handleTokenInChange,
-  sellPrice,
   isFetchingRates,
-  ethInReserve,
+  poolState,
   zeroSlippageMode,
   slippageTolerance,
   setSlippageTolerance,
 }: SellFormProps) {
-  const { chainId } = useAccount();
-  const { writeContractAsync } = useWriteContract();
-  const publicClient = usePublicClient();
-  const contractClient = useMemo(
-    () => new ContractClient(writeContractAsync, publicClient, chainId),
-    [chainId]
-  );
+  const contractClient = useContractClient();
+  const fetchFreshPoolState = useFreshPoolState();
+  const sell = useSell();
+  const { simulation, isSimulating, runSimulation, resetSimulation } = useSimulation();
   const { chain } = useAccount();
-  const baseUrl = chain?.blockExplorers?.default.url;
-  const nativeCurrencySymbol = chain?.nativeCurrency?.symbol || "ETH";
+  const { openChainModal } = useChainModal();
+  const router = useRouter();
+  const nativeCurrency = useNativeCurrency();
+  const nativeCurrencySymbol = nativeCurrency.symbol;
   const [ethAmount, setEthAmount] = useState("");
   const [token, setToken] = useState<Token | undefined>(undefined);
   const [tokenAmount, setTokenAmount] = useState("");
@@ -58,100 +71,203 @@ export function SellForm({
   const [isEthInput, setIsEthInput] = useState(false);
   const [isSwapping, setIsSwapping] = useState(false);
   const [validationError, setValidationError] = useState<string>("");
+  const [quote, setQuote] = useState<TradeSimulation | null>(null);
+  const { balance: tokenBalance } = useWalletBalance(token);
+  const insufficientBalance =
+    !!token && tokenBalance !== undefined && toBaseUnits(tokenAmount, token.decimals) > tokenBalance;
 
   const handleInputTokenChange = async (token: Token) => {
     setToken(token);
     await handleTokenInChange(token);
   };
 
-  const handleInputChange = (value: string) => {
+  // Quote the typed amount with the auction model; the other field follows from it
+  const updateQuote = (value: string, pool = poolState): PreviewQuote | undefined => {
     setValidationError("");
-    if (!token) return;
-    if (!isEthInput) {
-      setTokenAmount(value);
-      const ethValue = String(
-        Number(value) * Number(formatEther(BigInt(sellPrice)))
-      );
-      if (Number(ethValue) * 1e18 > Number(ethInReserve) * 0.1) {
-        const maxEthAllowed = String((Number(ethInReserve) * 0.1) / 1e18);
-        setValidationError(
-          `Amount exceeds 10% of reserve. Maximum: ${maxEthAllowed} ${nativeCurrencySymbol}`
-        );
-        return "";
-      }
-      setEthAmount(ethValue);
-    } else {
-      setEthAmount(value);
-      if (Number(value) * 1e18 > Number(ethInReserve) * 0.1) {
-        const maxEthAllowed = String((Number(ethInReserve) * 0.1) / 1e18);
-        setValidationError(
-          `Amount exceeds 10% of reserve. Maximum: ${maxEthAllowed} ${nativeCurrencySymbol}`
-        );
-        return "";
-      }
-      const tokenValue = String(
-        Number(value) / Number(formatEther(BigInt(sellPrice)))
+    setQuote(null);
+    if (!token || pool?.token.address !== token.address) return;
+    const amount = parseAmount(value, isEthInput ? nativeCurrency.decimals : token.decimals);
+    if (amount === undefined) {
+      setValidationError("Enter a valid amount");
+      return;
+    }
+    if (amount <= BigInt(0)) {
+      if (isEthInput) setTokenAmount("");
+      else setEthAmount("");
+      return;
+    }
+    const tokensIn = isEthInput ? sellInputFor(pool, amount) : amount;
+    const result = simulateSell(pool, tokensIn);
+    if (result.exceedsReserve) {
+      setValidationError(
+        `Not enough ${nativeCurrencySymbol} in the pool. Available: ${fromBaseUnits(
+          pool.reserve.ethReserve,
+          nativeCurrency.decimals
+        )} ${nativeCurrencySymbol}`
       );
-      setTokenAmount(tokenValue);
+      return;
     }
+    const amountIn = fromBaseUnits(tokensIn, token.decimals);
+    const amountOut = fromBaseUnits(result.amountOut, nativeCurrency.decimals);
+    if (isEthInput) setTokenAmount(amountIn);
+    else setEthAmount(amountOut);
+    setQuote(result);
+    return { amountIn, amountOut };
   };
 
+  const handleInputChange = (value: string) => {
+    if (!token) return;
+    if (isEthInput) setEthAmount(value);
+    else setTokenAmount(value);
+    updateQuote(value);
+  };
+
+  // The pool and link effects below only fire on their own inputs; they reach this render's handlers through a ref
+  const handlers = { requote: () => updateQuote(isEthInput ? ethAmount : tokenAmount), handleInputTokenChange };
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  // Re-quote when the pool state for the selected token arrives or refreshes
+  useEffect(() => {
+    handlersRef.current.requote();
+  }, [poolState]);
+
+  // Pre-fill from a sell link once its token is resolved; the quote follows when the pool state arrives
+  const { link, setLink } = useSwapLink();
+  const linkedToken = useLinkedToken(link.mode === "sell" ? link.tokenIn : undefined);
+  const linkAppliedRef = useRef(false);
+
+  useEffect(() => {
+    if (linkAppliedRef.current || linkedToken.pending) return;
+    linkAppliedRef.current = true;
+    if (link.mode !== "sell") return;
+    if (linkedToken.token === null) toast.error(`No Maelstrom pool for ${link.tokenIn}.`);
+    const ethInput = !!link.exactOut;
+    setIsEthInput(ethInput);
+    if (ethInput) setEthAmount(link.amount ?? "");
+    else setTokenAmount(link.amount ?? "");
+    if (linkedToken.token && !isNativeToken(linkedToken.token)) handlersRef.current.handleInputTokenChange(linkedToken.token);
+  }, [link, linkedToken]);
+
+  useEffect(() => {
+    if (!linkAppliedRef.current) return;
+    setLink({
+      mode: "sell",
+      tokenIn: token?.address,
+      amount: isEthInput ? ethAmount : tokenAmount,
+      exactOut: isEthInput,
+    });
+  }, [token, ethAmount, tokenAmount, isEthInput, setLink]);
+
+  const priceImpact: PriceImpactProps | undefined =
+    quote && token
+      ? {
+          impactBps: quote.priceImpactBps,
+          nextPrices: [
+            {
+              label: "Sell price after trade",
+              value: `${formatTokenAmount(quote.updatedSellPrice, priceDecimals(token.decimals), 8)} ${nativeCurrencySymbol}`,
+            },
+          ],
+        }
+      : undefined;
+
   const handleSwapInputType = () => {
     setIsEthInput(!isEthInput);
   };
 
+  // Request for `quote`, or for the amounts in the form when there is none
+  const buildSellRequest = (
+    selectedToken: Token,
+    quote: PreviewQuote = { amountIn: tokenAmount, amountOut: ethAmount }
+  ): SellRequest => {
+    const effectiveSlippage = zeroSlippageMode ? 0 : slippageTolerance;
+    const minimumEthOut = applySlippage(toBaseUnits(quote.amountOut, nativeCurrency.decimals), effectiveSlippage);
+
+    return {
+      token: selectedToken,
+      amountIn: toBaseUnits(quote.amountIn, selectedToken.decimals).toString(),
+      minimumEthAmount: minimumEthOut.toString(),
+    };
+  };
+
   const handlePreview = () => {
     if (!ethAmount || !tokenAmount) {
       toast.error("Invalid Amount: Please enter an amount to sell");
       return;
     }
     setShowPreview(true);
+    simulateTrade();
   };
 
-  const handleConfirmSell = async () => {
+  const simulateTrade = (quote?: PreviewQuote) =>
+    token ? runSimulation(() => contractClient.simulateSell(buildSellRequest(token, quote))) : undefined;
+
+  // Re-quote against the pool as it is now, just before the preview sends the trade, and simulate the new quote
+  const refreshQuote = async (): Promise<RefreshedQuote | undefined> => {
+    if (!token) return undefined;
+    const quote = updateQuote(isEthInput ? ethAmount : tokenAmount, await fetchFreshPoolState(token));
+    const simulation = quote && (await simulateTrade(quote));
+    return quote && simulation && { quote, simulation };
+  };
+
+  const handleClosePreview = () => {
+    setShowPreview(false);
+    resetSimulation();
+  };
+
+  const handleConfirmSell = async (quote?: PreviewQuote) => {
     if (!token || validationError) return;
     setIsSwapping(true);
 
-    const amountOutNum = parseFloat(ethAmount);
-    const effectiveSlippage = zeroSlippageMode ? 0 : slippageTolerance;
-    const slippageMultiplier = (100 - effectiveSlippage) / 100;
-    const minimumEthOut = (amountOutNum * slippageMultiplier).toString();
-
-    const sellRequest: SellRequest = {
-      token: token,
-      amountIn: (Math.round(Number(tokenAmount) * 1e18)).toString(),
-      minimumEthAmount: (Math.round(Number(minimumEthOut) * 1e18)).toString(),
-    };
+    const sellRequest = buildSellRequest(token, quote);
 
-    const result: SellResult = await contractClient.sell(sellRequest);
-    if (result.success) {
-      toast.success(
-        <div>
-          <div>Swap Successful! </div>
+    try {
+      const result: SellResult = await sell.mutateAsync(sellRequest);
+      if (result.success) {
+        toast.success(
           <div>
-            <a
-              href={`${baseUrl}/tx/${result.txHash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="underline text-blue-400"
-            >
-              View on block explorer
-            </a>
+            <div>Swap Successful! </div>
+            <div>
+              Received {formatTokenAmount(result.amountOut, nativeCurrency.decimals)} {nativeCurrencySymbol}
+            </div>
+            <div className="text-xs text-white/60">
+              New sell price: {formatTokenAmount(result.updatedSellPrice, priceDecimals(token.decimals))} {nativeCurrencySymbol} · Gas used:{" "}
+              {Number(result.gasUsed).toLocaleString()}
+            </div>
+            <div>
+              <a
+                href={explorerTxUrl(chain?.id, result.txHash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline text-blue-400"
+              >
+                View on block explorer
+              </a>
+            </div>
           </div>
-        </div>
-      );
-    } else {
-      toast.error(
-        `Swap Failed!: ${
-          result.error || "An error occurred during the swap process."
-        }`
-      );
-    }
-    setIsSwapping(false);
-    if (result) {
+        );
+      } else {
+        toast.error(
+          `Swap Failed!: ${
+            result.error || "An error occurred during the swap process."
+          }`
+        );
+      }
       setEthAmount("");
       setTokenAmount("");
       setShowPreview(false);
+    } catch (error) {
+      console.error("Sell failed:", error);
+      showErrorToast(error, "Sell", {
+        retry: () => handleConfirmSell(quote),
+        switchNetwork: openChainModal,
+        createPool: () => router.push("/create"),
+      });
+    } finally {
+      setIsSwapping(false);
     }
   };
 
@@ -208,7 +324,6 @@ export function SellForm({
               />
               <div className="ml-2">
                 <TokenSelector
-                  Tokens={tokens}
                   selectedToken={token}
                   onTokenChange={handleInputTokenChange}
                 />
@@ -216,8 +331,22 @@ export function SellForm({
             </>
           )}
         </div>
+        {!isEthInput && (
+          <div className="mt-2">
+            <BalanceShortcuts token={token} balance={tokenBalance} onSelect={handleInputChange} />
+          </div>
+        )}
       </div>
 
+      {token && poolState?.token.address === token.address && (
+        <DecayHint
+          label="Sell"
+          side={poolState.sell}
+          tokenDecimals={token.decimals}
+          nativeCurrencySymbol={nativeCurrencySymbol}
+        />
+      )}
+
       {/* Validation Error Message */}
       {validationError && (
         <div className="px-1 py-2 -my-1">
@@ -263,7 +392,6 @@ export function SellForm({
               />
               <div className="ml-2">
                 <TokenSelector
-                  Tokens={tokens}
                   selectedToken={token}
                   onTokenChange={handleInputTokenChange}
                 />
@@ -295,6 +423,11 @@ export function SellForm({
             </>
           )}
         </div>
+        {isEthInput && (
+          <div className="mt-2">
+            <BalanceShortcuts token={token} balance={tokenBalance} />
+          </div>
+        )}
       </div>
 
       {token && Number(tokenAmount) > 0 && !isFetchingRates && !isSwapping && (
@@ -306,6 +439,7 @@ export function SellForm({
               {Number(ethAmount) / Number(tokenAmount)} {nativeCurrencySymbol}
             </span>
           </div>
+          {priceImpact && <PriceImpact {...priceImpact} />}
           {/* Slippage Tolerance - Only show in Advanced Mode */}
           {!zeroSlippageMode ? (
             <div className="space-y-3 pt-2 border-t border-white/[0.05]">
@@ -371,31 +505,39 @@ export function SellForm({
         </div>
       )}
 
-      <Button
-        onClick={handlePreview}
-        disabled={!ethAmount || !tokenAmount || isSwapping || isFetchingRates}
-        className="w-full h-14 mt-6 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
-          text-white font-semibold rounded-xl shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
-          disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
-          border border-white/[0.05] backdrop-blur-sm font-plus-jakarta text-base"
-      >
-        {isSwapping ? (
-          <div className="animate-spin rounded-full h-5 w-5 border-2 border-white/20 border-t-white" />
-        ) : (
-          `Preview Sell`
-        )}
-      </Button>
+      <WalletGate className="mt-6">
+        <Button
+          onClick={handlePreview}
+          disabled={!ethAmount || !tokenAmount || isSwapping || isFetchingRates || insufficientBalance}
+          className="w-full h-14 mt-6 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
+            text-white font-semibold rounded-xl shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
+            disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
+            border border-white/[0.05] backdrop-blur-sm font-plus-jakarta text-base"
+        >
+          {isSwapping ? (
+            <div className="animate-spin rounded-full h-5 w-5 border-2 border-white/20 border-t-white" />
+          ) : insufficientBalance ? (
+            `Insufficient ${token?.symbol} balance`
+          ) : (
+            `Preview Sell`
+          )}
+        </Button>
+      </WalletGate>
 
       <SwapPreviewModal
         isOpen={showPreview}
-        onClose={() => setShowPreview(false)}
+        onClose={handleClosePreview}
         onConfirm={handleConfirmSell}
+        onRefreshQuote={refreshQuote}
         tokenIn={token!}
-        tokenOut={getNativeCurrencyToken(chain)}
+        tokenOut={nativeCurrency}
         amountIn={tokenAmount}
         amountOut={ethAmount}
         loading={isSwapping}
         slippageTolerance={!zeroSlippageMode ? slippageTolerance : undefined}
+        simulation={simulation}
+        isSimulating={isSimulating}
+        priceImpact={priceImpact}
       />
     </div>
   );
@@ -1,21 +1,40 @@
 "use client";
 
-import { useState, useEffect, useMemo, useRef } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TokenSelector } from "@/components/swap/token-selector";
-import { SwapPreviewModal } from "@/components/swap/swap-preview-modal";
+import { PreviewQuote, RefreshedQuote, SwapPreviewModal } from "@/components/swap/swap-preview-modal";
 import { BuyForm } from "@/components/swap/buy-form";
 import { SellForm } from "@/components/swap/sell-form";
 import { Button } from "@/components/ui/button";
+import { WalletGate } from "@/components/wallet-gate";
 import { Slider } from "@/components/ui/slider";
 import { toast } from "sonner";
 import { ArrowDownUp, Settings, Shield, HelpCircle } from "lucide-react";
-import { ContractClient } from "@/lib/contract-client";
-import { useAccount, usePublicClient, useWriteContract } from "wagmi";
-import { Token } from "@/types/token";
+import { showErrorToast } from "@/lib/error-toast";
+import { useChainModal } from "@rainbow-me/rainbowkit";
+import { useRouter } from "next/navigation";
+import { useAccount } from "wagmi";
+import { isNativeToken, Token } from "@/types/token";
 import { BuyRequest, SellRequest, SwapRequest } from "@/types/trades";
-import { ETH_ROW_POOL, RowPool } from "@/types/pool";
+import { PoolState } from "@/types/pool";
 import { formatEther, parseEther } from "viem";
+import { formatTokenAmount } from "@/lib/utils";
+import { applySlippage, priceRatio } from "@/lib/fixed-point";
+import { buyInputFor, sellInputFor, simulateBuy, simulateSell, simulateSwap, swapInputFor } from "@/lib/auction-model";
+import { fromBaseUnits, parseAmount, priceDecimals, toBaseUnits } from "@/lib/units";
+import { explorerTxUrl } from "@/lib/chains";
+import { useSimulation } from "@/hooks/use-simulation";
+import { PriceImpact, PriceImpactProps } from "@/components/swap/price-impact";
+import { BalanceShortcuts } from "@/components/swap/balance-shortcuts";
+import { poolStateQuery, useFreshPoolState, usePoolState } from "@/hooks/use-pool-queries";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
+import { useWalletBalance } from "@/hooks/use-wallet-balance";
+import { useLinkedToken, useSwapLink } from "@/hooks/use-swap-link";
+import { SwapMode } from "@/lib/swap-link";
+import { useBuy, useSell, useSwap } from "@/hooks/use-pool-mutations";
+import { useContractClient, useContractScope } from "@/providers/contract-client-provider";
 import {
   Tooltip,
   TooltipContent,
@@ -30,18 +49,21 @@ interface SwapState {
   amountOut: string;
   exchangeRate: string;
 }
-const ITEMS_PER_PAGE = 10;
 
 export function SwapInterface() {
-  const { chainId } = useAccount();
-  const { writeContractAsync } = useWriteContract();
-  const publicClient = usePublicClient();
-  const contractClient = useMemo(
-    () => new ContractClient(writeContractAsync, publicClient, chainId),
-    [chainId]
-  );
+  const contractClient = useContractClient();
+  const scope = useContractScope();
+  const queryClient = useQueryClient();
+  const fetchFreshPoolState = useFreshPoolState();
+  const buy = useBuy();
+  const sell = useSell();
+  const swap = useSwap();
+  const { simulation, isSimulating, runSimulation, resetSimulation } = useSimulation();
   const { chain } = useAccount();
-  const baseUrl = chain?.blockExplorers?.default.url;
+  const { openChainModal } = useChainModal();
+  const router = useRouter();
+  const nativeCurrency = useNativeCurrency();
+  const nativeCurrencySymbol = nativeCurrency.symbol;
   const [swapState, setSwapState] = useState<SwapState>({
     tokenIn: undefined,
     tokenOut: undefined,
@@ -49,20 +71,16 @@ export function SwapInterface() {
     amountOut: "",
     exchangeRate: "",
   });
-  const [tokens, setTokens] = useState<RowPool[]>([ETH_ROW_POOL]);
-  const [loadedTokens, setLoadedTokens] = useState<number>(0);
-  const [tokensInitialized, setTokensInitialized] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [isSwapping, setIsSwapping] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [tokenInSellPrice, setTokenInSellPrice] = useState<number>(0);
-  const [tokenOutBuyPrice, setTokenOutBuyPrice] = useState<number>(0);
-  const [ethInReserve, setEthInReserve] = useState<string | undefined>(
-    undefined
-  );
-  const [tokenOutReserve, setTokenOutReserve] = useState<string | undefined>(
-    undefined
-  );
+  // On-chain prices (wei per 1e18 token base units)
+  const [tokenInSellPrice, setTokenInSellPrice] = useState<bigint>(BigInt(0));
+  const [tokenOutBuyPrice, setTokenOutBuyPrice] = useState<bigint>(BigInt(0));
+  // Auction state of each side's pool; null for the native currency, which has no pool
+  const [tokenInPool, setTokenInPool] = useState<PoolState | null>(null);
+  const [tokenOutPool, setTokenOutPool] = useState<PoolState | null>(null);
+  const [priceImpact, setPriceImpact] = useState<PriceImpactProps | undefined>(undefined);
   const [fetchingRates, setFetchingRates] = useState(false);
   const [slippageTolerance, setSlippageTolerance] = useState<number>(0); // Start at 0 for zero slippage mode
   const [validationError, setValidationError] = useState<string>("");
@@ -70,92 +88,111 @@ export function SwapInterface() {
   const swapJustHappenedRef = useRef(false);
   const tokenInSellPriceForRef = useRef<Token | null>(null);
   const tokenOutBuyPriceForRef = useRef<Token | null>(null);
-
-  const calculateOutput = (amount: string, isInput: boolean) => {
+  const { balance: tokenInBalance, spendable: tokenInSpendable } = useWalletBalance(swapState.tokenIn);
+  const insufficientBalance =
+    !!swapState.tokenIn &&
+    tokenInBalance !== undefined &&
+    toBaseUnits(swapState.amountIn, swapState.tokenIn.decimals) > tokenInBalance;
+  // URL state: the open tab and, on the swap tab, the pair and the amount the user typed
+  const { link, setLink } = useSwapLink();
+  const [mode, setMode] = useState<SwapMode>(link.mode);
+  const [exactOut, setExactOut] = useState(false);
+  const linkedTokenIn = useLinkedToken(link.mode === "swap" ? link.tokenIn : undefined);
+  const linkedTokenOut = useLinkedToken(link.mode === "swap" ? link.tokenOut : undefined);
+  const linkAppliedRef = useRef(false);
+
+  // Quote with the auction model: native -> token is a buy, token -> native a sell, token -> token both
+  const calculateOutput = (amount: string, isInput: boolean, poolIn = tokenInPool, poolOut = tokenOutPool) => {
     setValidationError("");
+    setPriceImpact(undefined);
     if (!amount || !tokenInSellPrice || !tokenOutBuyPrice) return "";
-
-    const amountNum = Number(amount);
-    if (isNaN(amountNum) || amountNum <= 0) return "";
-
-    if (isInput) {
-      // Converting tokenIn to tokenOut: amount * sellPrice / buyPrice
-      const ethAmount = amountNum * tokenInSellPrice;
-
-      if (ethInReserve) {
-        // Ensure we don't exceed the ethIn reserve by more than 10%
-        const maxEthAllowed = Number(ethInReserve) * 0.1;
-        if (ethAmount > maxEthAllowed) {
-          const maxTokenIn = maxEthAllowed / tokenInSellPrice;
-          console.log(maxTokenIn);
-          setValidationError(
-            `Amount exceeds 10% of reserve. Maximum: ${maxTokenIn.toFixed(6)} ${
-              swapState.tokenIn?.symbol || ""
-            }`
-          );
-          return "";
-        }
+    if (!poolIn && !poolOut) return "";
+
+    // Decimals of the tokens the prices were fetched for; swapState may still hold the previous pair
+    const tokenIn = tokenInSellPriceForRef.current ?? swapState.tokenIn;
+    const tokenOut = tokenOutBuyPriceForRef.current ?? swapState.tokenOut;
+    const tokenInDecimals = tokenIn?.decimals ?? nativeCurrency.decimals;
+    const tokenOutDecimals = tokenOut?.decimals ?? nativeCurrency.decimals;
+    const given = parseAmount(amount, isInput ? tokenInDecimals : tokenOutDecimals);
+    if (given === undefined) {
+      setValidationError("Enter a valid amount");
+      return "";
+    }
+    if (given <= BigInt(0)) return "";
+
+    const formatPoolPrice = (price: bigint, pool: PoolState) =>
+      `${formatTokenAmount(price, priceDecimals(pool.token.decimals), 8)} ${nativeCurrencySymbol}`;
+    let amountIn: bigint;
+    let amountOut: bigint;
+    let impactBps: bigint;
+    const nextPrices: PriceImpactProps["nextPrices"] = [];
+
+    if (poolIn && poolOut) {
+      amountIn = isInput ? given : swapInputFor(poolIn, poolOut, given);
+      const swap = simulateSwap(poolIn, poolOut, amountIn);
+      if (swap.sell.exceedsReserve) {
+        setValidationError(
+          `Not enough ${nativeCurrencySymbol} in the ${poolIn.token.symbol} pool. Available: ${fromBaseUnits(
+            poolIn.reserve.ethReserve,
+            nativeCurrency.decimals
+          )} ${nativeCurrencySymbol}`
+        );
+        return "";
       }
-
-      const output = ethAmount / tokenOutBuyPrice;
-
-      if (tokenOutReserve) {
-        // Ensure we don't exceed the tokenOut reserve by more than 10%
-        const maxTokenOutAllowed = Number(tokenOutReserve) * 0.1;
-        if (output * 1e18 > maxTokenOutAllowed) {
-          const maxInput = Math.round(
-            (maxTokenOutAllowed * tokenOutBuyPrice) / tokenInSellPrice
-          );
-          setValidationError(
-            `Output exceeds 10% of reserve. Maximum input: ${formatEther(
-              BigInt(maxInput)
-            )} ${swapState.tokenOut?.symbol || ""}`
-          );
-          return "";
-        }
+      if (swap.buy.exceedsReserve) {
+        setValidationError(
+          `Not enough ${poolOut.token.symbol} in the pool. Available: ${fromBaseUnits(
+            poolOut.reserve.tokenReserve,
+            tokenOutDecimals
+          )} ${poolOut.token.symbol}`
+        );
+        return "";
       }
-
-      setValidationError("");
-      return output.toString();
-    } else {
-      // Converting tokenOut to tokenIn: amount * buyPrice / sellPrice
-
-      if (tokenOutReserve) {
-        // Ensure we don't exceed the tokenOut reserve by more than 10%
-        const maxTokenOutAllowed = Number(tokenOutReserve) * 0.1;
-        if (amountNum * 1e18 > maxTokenOutAllowed) {
-          setValidationError(
-            `Amount exceeds 10% of reserve. Maximum: ${formatEther(
-              BigInt(maxTokenOutAllowed)
-            )} ${swapState.tokenOut?.symbol || ""}`
-          );
-          return "";
-        }
+      amountOut = swap.amountOut;
+      impactBps = swap.priceImpactBps;
+      nextPrices.push(
+        { label: `${poolIn.token.symbol} sell price after trade`, value: formatPoolPrice(swap.sell.updatedSellPrice, poolIn) },
+        { label: `${poolOut.token.symbol} buy price after trade`, value: formatPoolPrice(swap.buy.updatedBuyPrice, poolOut) }
+      );
+    } else if (poolOut) {
+      amountIn = isInput ? given : buyInputFor(poolOut, given);
+      const buy = simulateBuy(poolOut, amountIn);
+      if (buy.exceedsReserve) {
+        setValidationError(
+          `Not enough ${poolOut.token.symbol} in the pool. Available: ${fromBaseUnits(
+            poolOut.reserve.tokenReserve,
+            tokenOutDecimals
+          )} ${poolOut.token.symbol}`
+        );
+        return "";
       }
-
-      const ethAmount = amountNum * tokenOutBuyPrice;
-
-      if (ethInReserve) {
-        // Ensure we don't exceed the ethIn reserve by more than 10%
-        const maxEthAllowed = Number(ethInReserve) * 0.1;
-        if (ethAmount > maxEthAllowed) {
-          const maxTokenOut = maxEthAllowed / tokenOutBuyPrice;
-          setValidationError(
-            `Output exceeds 10% of reserve. Maximum output: ${maxTokenOut.toFixed(
-              6
-            )} ${swapState.tokenOut?.symbol || ""}`
-          );
-          return "";
-        }
+      amountOut = buy.amountOut;
+      impactBps = buy.priceImpactBps;
+      nextPrices.push({ label: "Buy price after trade", value: formatPoolPrice(buy.updatedBuyPrice, poolOut) });
+    } else {
+      const pool = poolIn!;
+      amountIn = isInput ? given : sellInputFor(pool, given);
+      const sell = simulateSell(pool, amountIn);
+      if (sell.exceedsReserve) {
+        setValidationError(
+          `Not enough ${nativeCurrencySymbol} in the pool. Available: ${fromBaseUnits(
+            pool.reserve.ethReserve,
+            nativeCurrency.decimals
+          )} ${nativeCurrencySymbol}`
+        );
+        return "";
       }
-
-      const output = ethAmount / tokenInSellPrice;
-      setValidationError("");
-      return output.toString();
+      amountOut = sell.amountOut;
+      impactBps = sell.priceImpactBps;
+      nextPrices.push({ label: "Sell price after trade", value: formatPoolPrice(sell.updatedSellPrice, pool) });
     }
+
+    setPriceImpact({ impactBps, nextPrices });
+    return isInput ? fromBaseUnits(amountOut, tokenOutDecimals) : fromBaseUnits(amountIn, tokenInDecimals);
   };
 
   const handleAmountInChange = async (value: string) => {
+    setExactOut(false);
     setSwapState((prev) => ({
       ...prev,
       amountIn: value,
@@ -164,6 +201,7 @@ export function SwapInterface() {
   };
 
   const handleAmountOutChange = (value: string) => {
+    setExactOut(true);
     setSwapState((prev) => ({
       ...prev,
       amountOut: value,
@@ -176,24 +214,21 @@ export function SwapInterface() {
       setFetchingRates(true);
       setValidationError(""); // Clear validation error when changing tokens
       let sellPrice = parseEther("1").toString();
-      let reserve = undefined;
-      if (!(token.name === "Ether" && token.symbol === "ETH")) {
-        sellPrice = await contractClient.getSellPrice(token);
-        reserve = await contractClient.getReserves(token);
+      let poolState: PoolState | null = null;
+      if (!isNativeToken(token)) {
+        poolState = await queryClient.fetchQuery(poolStateQuery(contractClient, scope, token));
+        sellPrice = poolState.sell.currentPrice;
       }
 
-      const newSellPrice = Number(sellPrice);
-      const newExchangeRate = tokenOutBuyPrice / newSellPrice;
+      const newSellPrice = BigInt(sellPrice);
+      const newExchangeRate = priceRatio(tokenOutBuyPrice, newSellPrice);
 
       setTokenInSellPrice(newSellPrice);
       tokenInSellPriceForRef.current = token;
-      setEthInReserve(reserve?.ethReserve);
+      setTokenInPool(poolState);
 
       setSwapState((prev) => {
-        const formattedExchangeRate =
-          isFinite(newExchangeRate) && newExchangeRate > 0
-            ? newExchangeRate.toString()
-            : "0";
+        const formattedExchangeRate = formatEther(newExchangeRate);
         const newState = {
           ...prev,
           tokenIn: token,
@@ -216,23 +251,20 @@ export function SwapInterface() {
       setFetchingRates(true);
       setValidationError(""); // Clear validation error when changing tokens
       let buyPrice = parseEther("1").toString();
-      let reserve = undefined;
-      if (!(token.name === "Ether" && token.symbol === "ETH")) {
-        buyPrice = await contractClient.getBuyPrice(token);
-        reserve = await contractClient.getReserves(token);
+      let poolState: PoolState | null = null;
+      if (!isNativeToken(token)) {
+        poolState = await queryClient.fetchQuery(poolStateQuery(contractClient, scope, token));
+        buyPrice = poolState.buy.currentPrice;
       }
 
-      const newBuyPrice = Number(buyPrice);
-      const newExchangeRate = newBuyPrice / tokenInSellPrice;
-      setTokenOutReserve(reserve?.tokenReserve);
+      const newBuyPrice = BigInt(buyPrice);
+      const newExchangeRate = priceRatio(newBuyPrice, tokenInSellPrice);
+      setTokenOutPool(poolState);
       setTokenOutBuyPrice(newBuyPrice);
       tokenOutBuyPriceForRef.current = token;
 
       setSwapState((prev) => {
-        const formattedExchangeRate =
-          isFinite(newExchangeRate) && newExchangeRate > 0
-            ? newExchangeRate.toString()
-            : "0";
+        const formattedExchangeRate = formatEther(newExchangeRate);
         const newState = {
           ...prev,
           tokenOut: token,
@@ -277,6 +309,23 @@ export function SwapInterface() {
     }
   };
 
+  // Re-quote the entered amount against the pools as they are now
+  const requoteEnteredAmount = () => {
+    if (!swapState.amountIn || swapJustHappenedRef.current) return;
+    setSwapState((prev) => ({
+      ...prev,
+      amountOut: calculateOutput(prev.amountIn, true),
+      exchangeRate: formatEther(priceRatio(tokenOutBuyPrice, tokenInSellPrice)),
+    }));
+  };
+
+  // The pool and link effects below only fire on their own inputs; they reach this render's handlers through a ref
+  const handlers = { calculateOutput, requoteEnteredAmount, handletokenInChange, handletokenOutChange };
+  const handlersRef = useRef(handlers);
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
   // After swap, recalc the other amount only when both prices match the current token pair
   useEffect(() => {
     if (!swapJustHappenedRef.current) return;
@@ -285,6 +334,7 @@ export function SwapInterface() {
     const buyPriceForCurrentOut = tokenOutBuyPriceForRef.current?.address === swapState.tokenOut?.address;
     if (!sellPriceForCurrentIn || !buyPriceForCurrentOut) return;
     swapJustHappenedRef.current = false;
+    const { calculateOutput } = handlersRef.current;
     if (swapState.amountIn) {
       setSwapState((prev) => ({ ...prev, amountOut: calculateOutput(prev.amountIn, true) }));
     } else if (swapState.amountOut) {
@@ -292,6 +342,70 @@ export function SwapInterface() {
     }
   }, [swapState.tokenIn, swapState.tokenOut, tokenInSellPrice, tokenOutBuyPrice, swapState.amountIn, swapState.amountOut]);
 
+  // Keep the quoted pools current: live events and our own trades invalidate the cached pool state
+  const { data: liveTokenInPool } = usePoolState(tokenInPool?.token);
+  const { data: liveTokenOutPool } = usePoolState(tokenOutPool?.token);
+
+  useEffect(() => {
+    // Ignore data for a pair the user has since changed
+    if (!liveTokenInPool || tokenInSellPriceForRef.current?.address !== liveTokenInPool.token.address) return;
+    setTokenInPool(liveTokenInPool);
+    setTokenInSellPrice(BigInt(liveTokenInPool.sell.currentPrice));
+  }, [liveTokenInPool]);
+
+  useEffect(() => {
+    if (!liveTokenOutPool || tokenOutBuyPriceForRef.current?.address !== liveTokenOutPool.token.address) return;
+    setTokenOutPool(liveTokenOutPool);
+    setTokenOutBuyPrice(BigInt(liveTokenOutPool.buy.currentPrice));
+  }, [liveTokenOutPool]);
+
+  // Re-quote the entered amount when live updates change the pools
+  useEffect(() => {
+    handlersRef.current.requoteEnteredAmount();
+  }, [tokenInPool, tokenOutPool]);
+
+  // Pre-fill from the URL once its tokens are resolved; the amount is quoted when both prices are in
+  useEffect(() => {
+    if (linkAppliedRef.current || linkedTokenIn.pending || linkedTokenOut.pending) return;
+    linkAppliedRef.current = true;
+    if (link.mode !== "swap") return;
+    [linkedTokenIn, linkedTokenOut].forEach(({ token }, index) => {
+      if (token === null) toast.error(`No Maelstrom pool for ${index === 0 ? link.tokenIn : link.tokenOut}.`);
+    });
+    const tokenIn = linkedTokenIn.token;
+    const tokenOut = linkedTokenOut.token;
+    if (link.amount) {
+      setExactOut(!!link.exactOut);
+      setSwapState((prev) => ({
+        ...prev,
+        amountIn: link.exactOut ? "" : link.amount!,
+        amountOut: link.exactOut ? link.amount! : "",
+      }));
+      if (tokenIn && tokenOut) swapJustHappenedRef.current = true;
+    }
+    (async () => {
+      if (tokenIn) await handlersRef.current.handletokenInChange(tokenIn);
+      if (tokenOut) await handlersRef.current.handletokenOutChange(tokenOut);
+    })();
+  }, [link, linkedTokenIn, linkedTokenOut]);
+
+  useEffect(() => {
+    if (!linkAppliedRef.current || mode !== "swap") return;
+    setLink({
+      mode,
+      tokenIn: swapState.tokenIn?.address,
+      tokenOut: swapState.tokenOut?.address,
+      amount: exactOut ? swapState.amountOut : swapState.amountIn,
+      exactOut,
+    });
+  }, [mode, swapState.tokenIn, swapState.tokenOut, swapState.amountIn, swapState.amountOut, exactOut, setLink]);
+
+  const handleModeChange = (value: string) => {
+    setMode(value as SwapMode);
+    // The buy and sell forms write their own state once they mount
+    setLink({ mode: value as SwapMode });
+  };
+
   const handlePreviewSwap = () => {
     if (
       !swapState.amountIn ||
@@ -303,195 +417,196 @@ export function SwapInterface() {
       return;
     }
     setShowPreview(true);
+    simulateTrade();
+  };
+
+  // Simulates `quote`, or the amounts in the form when there is none
+  const simulateTrade = (quote: PreviewQuote = swapState) => {
+    const { tokenIn, tokenOut } = swapState;
+    if (!tokenIn || !tokenOut) return undefined;
+    const amountIn = toBaseUnits(quote.amountIn, tokenIn.decimals).toString();
+    const minimumOut = getMinimumOut(tokenOut, quote.amountOut);
+    // Same routing as handleConfirmSwap: native currency legs go through buy/sell
+    if (isNativeToken(tokenIn)) {
+      return runSimulation(() => contractClient.simulateBuy({ token: tokenOut, amountIn, minimumAmountToBuy: minimumOut }));
+    }
+    if (isNativeToken(tokenOut)) {
+      return runSimulation(() => contractClient.simulateSell({ token: tokenIn, amountIn, minimumEthAmount: minimumOut }));
+    }
+    return runSimulation(() => contractClient.simulateSwap({ tokenIn, tokenOut, amountIn, minimumTokenOut: minimumOut }));
   };
 
-  const handleConfirmSwap = async () => {
+  // Re-quote the entered amount against both pools as they are now, just before the preview sends the trade, and
+  // simulate the new quote. The amount the user typed stays fixed: the output for exact-in, the input for exact-out.
+  const refreshQuote = async (): Promise<RefreshedQuote | undefined> => {
+    const { tokenIn, tokenOut } = swapState;
+    if (!tokenIn || !tokenOut) return undefined;
+    const [poolIn, poolOut] = await Promise.all(
+      [tokenIn, tokenOut].map((token) => (isNativeToken(token) ? null : fetchFreshPoolState(token)))
+    );
+    const quote = exactOut
+      ? { amountIn: calculateOutput(swapState.amountOut, false, poolIn, poolOut), amountOut: swapState.amountOut }
+      : { amountIn: swapState.amountIn, amountOut: calculateOutput(swapState.amountIn, true, poolIn, poolOut) };
+    if (!quote.amountIn || !quote.amountOut) return undefined;
+    setSwapState((prev) => ({ ...prev, ...quote }));
+    const simulation = await simulateTrade(quote);
+    return simulation && { quote, simulation };
+  };
+
+  const handleClosePreview = () => {
+    setShowPreview(false);
+    resetSimulation();
+  };
+
+  // Minimum output in tokenOut base units after slippage tolerance
+  const getMinimumOut = (tokenOut: Token, amountOut: string) => {
+    const effectiveSlippage = zeroSlippageMode ? 0 : slippageTolerance;
+    return applySlippage(toBaseUnits(amountOut, tokenOut.decimals), effectiveSlippage).toString();
+  };
+
+  // Sends `quote`, the one the preview checked last, or the amounts in the form when there is none
+  const handleConfirmSwap = async (quote: PreviewQuote = swapState) => {
     if (!swapState.tokenIn || !swapState.tokenOut) {
       toast.error(`Select Tokens: Please select both input and output tokens.`);
       return;
     }
     setLoading(true);
-
-    // Calculate minimum tokens out with slippage tolerance
-    const amountOutNum = parseFloat(swapState.amountOut);
-    const effectiveSlippage = zeroSlippageMode ? 0 : slippageTolerance;
-    const slippageMultiplier = (100 - effectiveSlippage) / 100;
-    const minimumTokenOut = (amountOutNum * slippageMultiplier).toString();
-
-    if (
-      swapState.tokenIn.symbol == "ETH" ||
-      swapState.tokenOut.symbol == "ETH"
-    ) {
-      if (swapState.tokenIn.symbol == "ETH") {
-        const buyRequest: BuyRequest = {
-          token: swapState.tokenOut,
-          amountIn: (Math.round(Number(swapState.amountIn) * 1e18 )).toString(),
-          minimumAmountToBuy: (Math.round(Number(minimumTokenOut) * 1e18)).toString(),
-        };
-        const result = await contractClient.buy(buyRequest);
-        if (result.success) {
-          toast.success(
-            <div>
-              <div>Swap Successful! </div>
+    try {
+      const minimumTokenOut = getMinimumOut(swapState.tokenOut, quote.amountOut);
+      const amountIn = toBaseUnits(quote.amountIn, swapState.tokenIn.decimals).toString();
+
+      if (isNativeToken(swapState.tokenIn) || isNativeToken(swapState.tokenOut)) {
+        if (isNativeToken(swapState.tokenIn)) {
+          const buyRequest: BuyRequest = {
+            token: swapState.tokenOut,
+            amountIn,
+            minimumAmountToBuy: minimumTokenOut,
+          };
+          const result = await buy.mutateAsync(buyRequest);
+          if (result.success) {
+            toast.success(
               <div>
-                <a
-                  href={`${baseUrl}/tx/${result.txHash}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="underline text-blue-400"
-                >
-                  View on block explorer
-                </a>
+                <div>Swap Successful! </div>
+                <div>
+                  Received {formatTokenAmount(result.amountOut, swapState.tokenOut.decimals)} {swapState.tokenOut.symbol}
+                </div>
+                <div className="text-xs text-white/60">
+                  New buy price: {formatTokenAmount(result.updatedBuyPrice, priceDecimals(swapState.tokenOut.decimals))} {nativeCurrencySymbol} · Gas used:{" "}
+                  {Number(result.gasUsed).toLocaleString()}
+                </div>
+                <div>
+                  <a
+                    href={explorerTxUrl(chain?.id, result.txHash)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline text-blue-400"
+                  >
+                    View on block explorer
+                  </a>
+                </div>
               </div>
-            </div>
-          );
-        } else {
-          toast.error(
-            `Swap Failed!: ${
-              result.error || "An error occurred during the swap process."
-            }`
-          );
+            );
+          } else {
+            toast.error(
+              `Swap Failed!: ${
+                result.error || "An error occurred during the swap process."
+              }`
+            );
+          }
+          return;
         }
-        return;
-      }
 
-      if (swapState.tokenOut.symbol == "ETH") {
-        const sellRequest: SellRequest = {
-          token: swapState.tokenIn,
-          amountIn: (Math.round(Number(swapState.amountIn) * 1e18 )).toString(),
-          minimumEthAmount: (Math.round(Number(minimumTokenOut) * 1e18)).toString(),
-        };
-        const result = await contractClient.sell(sellRequest);
-        if (result.success) {
-          toast.success(
-            <div>
-              <div>Swap Successful! </div>
+        if (isNativeToken(swapState.tokenOut)) {
+          const sellRequest: SellRequest = {
+            token: swapState.tokenIn,
+            amountIn,
+            minimumEthAmount: minimumTokenOut,
+          };
+          const result = await sell.mutateAsync(sellRequest);
+          if (result.success) {
+            toast.success(
               <div>
-                <a
-                  href={`${baseUrl}/tx/${result.txHash}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="underline text-blue-400"
-                >
-                  View on block explorer
-                </a>
+                <div>Swap Successful! </div>
+                <div>
+                  Received {formatTokenAmount(result.amountOut, nativeCurrency.decimals)} {nativeCurrencySymbol}
+                </div>
+                <div className="text-xs text-white/60">
+                  New sell price: {formatTokenAmount(result.updatedSellPrice, priceDecimals(swapState.tokenIn.decimals))} {nativeCurrencySymbol} · Gas used:{" "}
+                  {Number(result.gasUsed).toLocaleString()}
+                </div>
+                <div>
+                  <a
+                    href={explorerTxUrl(chain?.id, result.txHash)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="underline text-blue-400"
+                  >
+                    View on block explorer
+                  </a>
+                </div>
               </div>
-            </div>
-          );
-        } else {
-          toast.error(
-            `Swap Failed!: ${
-              result.error || "An error occurred during the swap process."
-            }`
-          );
+            );
+          } else {
+            toast.error(
+              `Swap Failed!: ${
+                result.error || "An error occurred during the swap process."
+              }`
+            );
+          }
+          return;
         }
-        return;
       }
-    }
-
-    const swapRequest: SwapRequest = {
-      tokenIn: swapState.tokenIn,
-      tokenOut: swapState.tokenOut,
-      amountIn: (Math.round(Number(swapState.amountIn) * 1e18 )).toString(),
-      minimumTokenOut: (Math.round(Number(minimumTokenOut) * 1e18)).toString(),
-    };
-    const result = await contractClient.swap(swapRequest);
-    if (result.success) {
-      toast.success(
-        <div>
-          Swap Successful!{" "}
-          <a
-            href={`${baseUrl}/tx/${result.txHash}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="underline text-blue-400"
-          >
-            View on block explorer
-          </a>
-        </div>
-      );
-    } else {
-      toast.error(
-        `Swap Failed!: ${
-          result.error || "An error occurred during the swap process."
-        }`
-      );
-    }
-    setLoading(false);
-    setShowPreview(false);
-  };
-
-  const getPoolLength = async () => {
-    try {
-      const poolCount = await contractClient.getPoolCount();
-      console.log(`Total pools: ${poolCount}`);
-      return poolCount;
-    } catch (error) {
-      console.error("Error fetching total pools:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      toast.error(`Failed to fetch total pools count: ${errorMessage}`);
-      return 0;
-    }
-  };
-
-  const loadAllPools = async (totalPoolsCount: number) => {
-    // Skip if we've already loaded the correct number of tokens
-    if (tokensInitialized && loadedTokens === totalPoolsCount) return;
 
-    try {
-      // Reset tokens to initial state (only ETH_ROW_POOL) before loading
-      setTokens([ETH_ROW_POOL]);
-      setTokensInitialized(false);
-
-      let currentLoaded = 0;
-      let allPools: RowPool[] = [ETH_ROW_POOL];
-
-      while (currentLoaded < totalPoolsCount) {
-        const startIndex = currentLoaded;
-        const endIndex = Math.min(
-          startIndex + ITEMS_PER_PAGE - 1,
-          totalPoolsCount - 1
+      const swapRequest: SwapRequest = {
+        tokenIn: swapState.tokenIn,
+        tokenOut: swapState.tokenOut,
+        amountIn,
+        minimumTokenOut,
+      };
+      const result = await swap.mutateAsync(swapRequest);
+      if (result.success) {
+        toast.success(
+          <div>
+            <div>Swap Successful! </div>
+            <div>
+              Swapped {formatTokenAmount(result.amountIn, swapState.tokenIn.decimals)} {swapState.tokenIn.symbol} for{" "}
+              {formatTokenAmount(result.amountOut, swapState.tokenOut.decimals)} {swapState.tokenOut.symbol}
+            </div>
+            <div className="text-xs text-white/60">
+              Gas used: {Number(result.gasUsed).toLocaleString()}
+            </div>
+            <div>
+              <a
+                href={explorerTxUrl(chain?.id, result.txHash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="underline text-blue-400"
+              >
+                View on block explorer
+              </a>
+            </div>
+          </div>
+        );
+      } else {
+        toast.error(
+          `Swap Failed!: ${
+            result.error || "An error occurred during the swap process."
+          }`
         );
-        const newPools = await contractClient.getPools(startIndex, endIndex);
-        if (newPools.length === 0) break; // No more pools to load
-
-        allPools = [...allPools, ...newPools];
-        setTokens(allPools);
-        currentLoaded += newPools.length;
-        await new Promise((resolve) => setTimeout(resolve, 100));
       }
-
-      setTokensInitialized(true);
+      setShowPreview(false);
     } catch (error) {
-      console.error("Error loading pools:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      toast.error(`Failed to load pools: ${errorMessage}`);
+      console.error("Swap failed:", error);
+      showErrorToast(error, "Swap", {
+        retry: () => handleConfirmSwap(quote),
+        switchNetwork: openChainModal,
+        createPool: () => router.push("/create"),
+      });
+    } finally {
+      setLoading(false);
     }
   };
 
-  useEffect(() => {
-    const init = async () => {
-      // Skip initialization if tokens are already loaded
-      if (tokensInitialized) return;
-
-      setLoading(true);
-      try {
-        const poolCount = await getPoolLength();
-        await loadAllPools(poolCount);
-        setLoadedTokens(poolCount);
-      } catch (err) {
-        console.error("Initialization failed:", err);
-        const errorMessage = err instanceof Error ? err.message : String(err);
-        toast.error(`Failed to initialize token list: ${errorMessage}`);
-      } finally {
-        setLoading(false);
-      }
-    };
-    init();
-  }, [tokensInitialized]);
-
   return (
     <div className="w-full max-w-md mx-auto p-4">
       <div className="relative overflow-hidden rounded-3xl shadow-2xl">
@@ -503,7 +618,7 @@ export function SwapInterface() {
         <div className="relative p-6 backdrop-blur-sm">
           {/* Top Navigation */}
           <div className="mb-6">
-            <Tabs defaultValue="swap" className="w-full">
+            <Tabs value={mode} onValueChange={handleModeChange} className="w-full">
               <div className="flex items-center justify-between mb-4">
                 <TabsList className="grid grid-cols-3 bg-black/20 p-1 rounded-2xl backdrop-blur-md border border-white/[0.05]">
                   <TabsTrigger
@@ -591,7 +706,7 @@ export function SwapInterface() {
                         Sell
                       </div>
                       <TokenSelector
-                        Tokens={tokens}
+                        includeNative
                         selectedToken={swapState.tokenIn}
                         onTokenChange={handletokenInChange}
                       />
@@ -616,6 +731,14 @@ export function SwapInterface() {
                           placeholder:text-white/20 transition-all duration-300 font-plus-jakarta`}
                       />
                     </div>
+                    <div className="mt-2">
+                      <BalanceShortcuts
+                        token={swapState.tokenIn}
+                        balance={tokenInBalance}
+                        spendable={tokenInSpendable}
+                        onSelect={swapState.tokenOut ? handleAmountInChange : undefined}
+                      />
+                    </div>
                   </div>
 
                   {/* Validation Error Message */}
@@ -660,7 +783,7 @@ export function SwapInterface() {
                     <div className="flex items-center justify-between mb-1">
                       <div className="text-lg font-medium text-white">Buy</div>
                       <TokenSelector
-                        Tokens={tokens}
+                        includeNative
                         selectedToken={swapState.tokenOut}
                         onTokenChange={handletokenOutChange}
                       />
@@ -701,6 +824,7 @@ export function SwapInterface() {
                           {swapState.tokenOut!.symbol.toUpperCase()}
                         </span>
                       </div>
+                      {priceImpact && <PriceImpact {...priceImpact} />}
                       {/* Slippage Tolerance - Only show in Advanced Mode */}
                       {!zeroSlippageMode && (
                         <div className="space-y-3 pt-2 border-t border-white/[0.05]">
@@ -773,37 +897,40 @@ export function SwapInterface() {
                   )}
 
                 {/* Swap Action Button */}
-                <Button
-                  onClick={handlePreviewSwap}
-                  disabled={
-                    !swapState.amountIn ||
-                    !swapState.amountOut ||
-                    isSwapping ||
-                    loading ||
-                    !!validationError
-                  }
-                  className="w-full h-14 mt-6 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
-                    text-white font-semibold rounded-xl shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
-                    disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
-                    border border-white/[0.05] backdrop-blur-sm font-plus-jakarta text-base"
-                >
-                  {isSwapping ? (
-                    <div className="animate-spin rounded-full h-5 w-5 border-2 border-white/20 border-t-white" />
-                  ) : validationError ? (
-                    "Invalid Amount"
-                  ) : (
-                    "Preview Swap"
-                  )}
-                </Button>
+                <WalletGate className="mt-6">
+                  <Button
+                    onClick={handlePreviewSwap}
+                    disabled={
+                      !swapState.amountIn ||
+                      !swapState.amountOut ||
+                      isSwapping ||
+                      loading ||
+                      !!validationError ||
+                      insufficientBalance
+                    }
+                    className="w-full h-14 mt-6 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
+                      text-white font-semibold rounded-xl shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
+                      disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
+                      border border-white/[0.05] backdrop-blur-sm font-plus-jakarta text-base"
+                  >
+                    {isSwapping ? (
+                      <div className="animate-spin rounded-full h-5 w-5 border-2 border-white/20 border-t-white" />
+                    ) : validationError ? (
+                      "Invalid Amount"
+                    ) : insufficientBalance ? (
+                      `Insufficient ${swapState.tokenIn?.symbol} balance`
+                    ) : (
+                      "Preview Swap"
+                    )}
+                  </Button>
+                </WalletGate>
               </TabsContent>
 
               <TabsContent value="buy" className="mt-2">
                 <BuyForm
-                  tokens={tokens}
                   handleTokenOutChange={handletokenOutChange}
-                  buyPrice={tokenOutBuyPrice.toString()}
+                  poolState={tokenOutPool}
                   isFetchingRates={fetchingRates}
-                  tokenOutReserve={tokenOutReserve}
                   zeroSlippageMode={zeroSlippageMode}
                   slippageTolerance={slippageTolerance}
                   setSlippageTolerance={setSlippageTolerance}
@@ -812,11 +939,9 @@ export function SwapInterface() {
 
               <TabsContent value="sell" className="mt-2">
                 <SellForm
-                  tokens={tokens}
                   handleTokenInChange={handletokenInChange}
-                  sellPrice={tokenInSellPrice.toString()}
                   isFetchingRates={fetchingRates}
-                  ethInReserve={ethInReserve}
+                  poolState={tokenInPool}
                   zeroSlippageMode={zeroSlippageMode}
                   slippageTolerance={slippageTolerance}
                   setSlippageTolerance={setSlippageTolerance}
@@ -827,8 +952,9 @@ export function SwapInterface() {
 
           <SwapPreviewModal
             isOpen={showPreview}
-            onClose={() => setShowPreview(false)}
+            onClose={handleClosePreview}
             onConfirm={handleConfirmSwap}
+            onRefreshQuote={refreshQuote}
             tokenIn={swapState.tokenIn!}
             tokenOut={swapState.tokenOut!}
             amountIn={swapState.amountIn}
@@ -837,6 +963,9 @@ export function SwapInterface() {
             slippageTolerance={
               !zeroSlippageMode ? slippageTolerance : undefined
             }
+            simulation={simulation}
+            isSimulating={isSimulating}
+            priceImpact={priceImpact}
           />
         </div>
       </div>
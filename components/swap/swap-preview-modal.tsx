@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useRef, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -8,19 +9,50 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { ArrowRight, Zap } from "lucide-react";
+import { AlertTriangle, ArrowRight, RefreshCw, Zap } from "lucide-react";
 import { Token } from "@/types/token";
+import { SimulationResult } from "@/types/trades";
+import { SimulationStatus } from "@/components/simulation-status";
+import { ApprovalModeSelector } from "@/components/approval-mode-selector";
+import { PriceImpact, PriceImpactProps } from "@/components/swap/price-impact";
+import { cn, formatTokenAmount } from "@/lib/utils";
+import { quoteWorsened } from "@/lib/fixed-point";
+import { toBaseUnits } from "@/lib/units";
+import { showErrorToast } from "@/lib/error-toast";
+
+// Prices decay between trades, so an open preview re-quotes this often
+const QUOTE_REFRESH_MS = 15_000;
+
+// Amounts of a quote as the form displays them
+export interface PreviewQuote {
+  amountIn: string;
+  amountOut: string;
+}
+
+// A fresh quote together with the finished simulation of it
+export interface RefreshedQuote {
+  quote: PreviewQuote;
+  simulation: SimulationResult;
+}
 
 interface SwapPreviewModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => void;
+  // Receives the quote checked right before sending, when there is one; the trade must use its amounts
+  onConfirm: (quote?: PreviewQuote) => void;
   tokenIn: Token | undefined;
   tokenOut: Token | undefined;
   amountIn: string;
   amountOut: string;
   loading: boolean;
   slippageTolerance?: number;
+  simulation?: SimulationResult;
+  isSimulating?: boolean;
+  // Modelled effect on the auction prices, when the pool state is known
+  priceImpact?: PriceImpactProps;
+  // Re-quotes the trade against freshly fetched pools and resolves once the new quote is simulated; undefined when
+  // the pools can no longer fill it
+  onRefreshQuote?: () => Promise<RefreshedQuote | undefined>;
 }
 
 export function SwapPreviewModal({
@@ -33,10 +65,101 @@ export function SwapPreviewModal({
   amountOut,
   loading,
   slippageTolerance,
+  simulation,
+  isSimulating = false,
+  priceImpact,
+  onRefreshQuote,
 }: SwapPreviewModalProps) {
+  // The quote the user agreed to: the one shown on opening, or the last one they accepted after a price move
+  const [acceptedQuote, setAcceptedQuote] = useState<PreviewQuote | null>(null);
+  const [quotedAt, setQuotedAt] = useState(0);
+  const [now, setNow] = useState(0);
+  const [quoteUnavailable, setQuoteUnavailable] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [checkingQuote, setCheckingQuote] = useState(false);
+  // The effects below fire on opening and on a timer; they read the parent's latest props through refs
+  const refreshQuoteRef = useRef(onRefreshQuote);
+  const shownQuoteRef = useRef<PreviewQuote>({ amountIn, amountOut });
+  useEffect(() => {
+    refreshQuoteRef.current = onRefreshQuote;
+    shownQuoteRef.current = { amountIn, amountOut };
+  });
+
+  useEffect(() => {
+    if (!isOpen) {
+      setAcceptedQuote(null);
+      return;
+    }
+    setAcceptedQuote(shownQuoteRef.current);
+    setQuotedAt(Date.now());
+    setNow(Date.now());
+    setQuoteUnavailable(false);
+  }, [isOpen]);
+
+  const refreshQuote = async () => {
+    if (!refreshQuoteRef.current) return undefined;
+    setRefreshing(true);
+    try {
+      const refreshed = await refreshQuoteRef.current();
+      setQuoteUnavailable(!refreshed);
+      setQuotedAt(Date.now());
+      return refreshed;
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen || loading) return;
+    const ticker = setInterval(() => setNow(Date.now()), 1_000);
+    const refresher = setInterval(() => {
+      refreshQuote().catch((error) => console.error("Quote refresh failed:", error));
+    }, QUOTE_REFRESH_MS);
+    return () => {
+      clearInterval(ticker);
+      clearInterval(refresher);
+    };
+  }, [isOpen, loading]);
+
   if (!tokenIn || !tokenOut) return null;
   const tokenInSymbol = tokenIn.symbol.toUpperCase();
   const tokenOutSymbol = tokenOut.symbol.toUpperCase();
+  const tolerance = slippageTolerance ?? 0;
+  const quoteAge = Math.max(0, Math.floor((now - quotedAt) / 1000));
+
+  const toBaseQuote = (quote: PreviewQuote) => ({
+    amountIn: toBaseUnits(quote.amountIn, tokenIn.decimals),
+    amountOut: toBaseUnits(quote.amountOut, tokenOut.decimals),
+  });
+  const movedPastTolerance = (quote: PreviewQuote) =>
+    !!acceptedQuote && quoteWorsened(toBaseQuote(acceptedQuote), toBaseQuote(quote), tolerance);
+  const priceMoved = movedPastTolerance({ amountIn, amountOut });
+
+  const handleRefresh = () => {
+    refreshQuote().catch((error) => showErrorToast(error, "Refresh quote", { retry: handleRefresh }));
+  };
+
+  // Re-quote against fresh pool state right before sending; a worse rate past the tolerance needs accepting first,
+  // and a quote whose simulation reverts isn't sent (the simulation status shows why)
+  const handleConfirm = async () => {
+    if (!onRefreshQuote) {
+      onConfirm();
+      return;
+    }
+    setCheckingQuote(true);
+    try {
+      const refreshed = await refreshQuote();
+      if (refreshed?.simulation.success && !movedPastTolerance(refreshed.quote)) onConfirm(refreshed.quote);
+    } catch (error) {
+      showErrorToast(error, "Refresh quote", { retry: handleConfirm });
+    } finally {
+      setCheckingQuote(false);
+    }
+  };
+
+  const handleAcceptQuote = () => {
+    setAcceptedQuote({ amountIn, amountOut });
+  };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -45,6 +168,20 @@ export function SwapPreviewModal({
           <DialogTitle className="text-xl font-semibold font-plus-jakarta text-white/90">
             Swap Preview
           </DialogTitle>
+          {onRefreshQuote && (
+            <div className="flex items-center gap-2 text-xs text-white/50 font-plus-jakarta">
+              <span>Quote updated {quoteAge < 5 ? "just now" : `${quoteAge}s ago`}</span>
+              <button
+                type="button"
+                onClick={handleRefresh}
+                disabled={refreshing || loading}
+                aria-label="Refresh quote"
+                className="text-accent-cyan/80 hover:text-accent-cyan disabled:opacity-40"
+              >
+                <RefreshCw className={cn("h-3.5 w-3.5", refreshing && "animate-spin")} />
+              </button>
+            </div>
+          )}
         </DialogHeader>
 
         <div className="space-y-5">
@@ -76,6 +213,23 @@ export function SwapPreviewModal({
             </CardContent>
           </Card>
 
+          {priceMoved && acceptedQuote && (
+            <div className="flex items-start gap-2 p-3 rounded-xl border border-yellow-500/20 bg-yellow-500/10 text-sm text-yellow-200">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                Price updated beyond your {tolerance}% tolerance. You were quoted {acceptedQuote.amountOut} {tokenOutSymbol}{" "}
+                for {acceptedQuote.amountIn} {tokenInSymbol}. Accept the new quote to continue.
+              </span>
+            </div>
+          )}
+
+          {quoteUnavailable && (
+            <div className="flex items-start gap-2 p-3 rounded-xl border border-red-500/20 bg-red-500/10 text-sm text-red-300">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>The pool can no longer fill this trade at current prices. Close the preview and change the amount.</span>
+            </div>
+          )}
+
           {/* Swap Details */}
           {slippageTolerance && (
             <div className="space-y-3 p-4 bg-white/[0.02] rounded-xl border border-white/[0.05] backdrop-blur-sm">
@@ -110,6 +264,26 @@ export function SwapPreviewModal({
             </div>
           )}
 
+          {priceImpact && (
+            <div className="p-4 bg-white/[0.02] rounded-xl border border-white/[0.05] backdrop-blur-sm">
+              <PriceImpact {...priceImpact} />
+            </div>
+          )}
+
+          {simulation?.needsApproval && <ApprovalModeSelector />}
+
+          <SimulationStatus
+            simulation={simulation}
+            isSimulating={isSimulating}
+            details={
+              simulation?.amountOut && (
+                <div>
+                  Simulated output: {formatTokenAmount(simulation.amountOut, tokenOut.decimals)} {tokenOutSymbol}
+                </div>
+              )
+            }
+          />
+
           {/* Action Buttons */}
           <div className="flex gap-3 pt-2">
             <Button
@@ -121,8 +295,10 @@ export function SwapPreviewModal({
               Cancel
             </Button>
             <Button
-              onClick={onConfirm}
-              disabled={loading}
+              onClick={priceMoved ? handleAcceptQuote : handleConfirm}
+              disabled={
+                loading || checkingQuote || isSimulating || quoteUnavailable || (!priceMoved && simulation?.success === false)
+              }
               className="flex-1 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
                 text-white font-semibold shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
                 disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
@@ -133,6 +309,13 @@ export function SwapPreviewModal({
                   <div className="animate-spin rounded-full h-4 w-4 border-2 border-white/20 border-t-white mr-2" />
                   <span>Swapping...</span>
                 </>
+              ) : checkingQuote ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white/20 border-t-white mr-2" />
+                  <span>Updating quote...</span>
+                </>
+              ) : priceMoved ? (
+                "Accept New Quote"
               ) : (
                 "Confirm Swap"
               )}
@@ -1,6 +1,8 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { List, RowComponentProps } from "react-window";
+import { isAddress } from "viem";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -9,32 +11,122 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
-import { Search, ChevronDown } from "lucide-react";
-import { Token } from "@/types/token";
-import { RowPool } from "@/types/pool";
+import { Search, ChevronDown, Loader2 } from "lucide-react";
+import { isNativeToken, sameToken, Token } from "@/types/token";
+import { formatTokenAmount } from "@/lib/utils";
+import { usePools, usePoolToken, useTokenBalances } from "@/hooks/use-pool-queries";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
+import { useNetworkState } from "@/providers/network-provider";
+
+// Pools fetched per getPools call while the list scrolls
+const PAGE_SIZE = 20;
+const ROW_HEIGHT = 64;
+// Start loading the next page this many rows before the end of the list
+const LOAD_AHEAD_ROWS = 5;
+// A text search keeps paging through pools until it has this many matches or runs out of pools
+const MIN_SEARCH_RESULTS = 6;
 
 interface TokenSelectorProps {
   selectedToken: Token | undefined;
-  Tokens: RowPool[];
   onTokenChange: (token: Token) => Promise<void>;
+  // List the chain's native currency first, for pairs that can trade it
+  includeNative?: boolean;
+}
+
+interface TokenRowProps {
+  tokens: Token[];
+  balances?: Record<string, string>;
+  selectedToken: Token | undefined;
+  onSelect: (token: Token) => void;
 }
 
+function TokenRow({ index, style, tokens, balances, selectedToken, onSelect }: RowComponentProps<TokenRowProps>) {
+  const token = tokens[index];
+  const balance = balances?.[token.address.toLowerCase()];
+  return (
+    <div style={style} className="py-0.5">
+      <Button
+        variant="ghost"
+        onClick={() => onSelect(token)}
+        className={`w-full h-full p-3 justify-start hover:bg-accent/10 ${sameToken(token, selectedToken) ? "bg-accent/10" : ""}`}
+      >
+        <div className="flex items-center justify-between w-full gap-3">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-8 h-8 shrink-0 rounded-full bg-accent/20 flex items-center justify-center">
+              <span className="text-sm font-bold text-accent">
+                {token.symbol.toUpperCase().charAt(0)}
+              </span>
+            </div>
+            <div className="text-left min-w-0">
+              <p className="font-medium truncate">{token.symbol.toUpperCase()}</p>
+              <p className="text-xs text-muted-foreground truncate">{token.name}</p>
+            </div>
+          </div>
+          {balance !== undefined && (
+            <span className="text-sm text-muted-foreground tabular-nums">
+              {formatTokenAmount(balance, token.decimals)}
+            </span>
+          )}
+        </div>
+      </Button>
+    </div>
+  );
+}
+
+// Pools are fetched a page at a time while the dialog is open, so opening it never waits for the whole list.
+// A pasted address that is not loaded yet is looked up on-chain.
 export function TokenSelector({
   selectedToken,
-  Tokens,
   onTokenChange,
+  includeNative = false,
 }: TokenSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const nativeCurrency = useNativeCurrency();
+  const { account } = useNetworkState();
+
+  const { data, error, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = usePools(PAGE_SIZE, isOpen);
+  const loadedTokens = useMemo(() => {
+    const pools = data?.pages.flat().map((pool) => pool.token) ?? [];
+    return includeNative ? [nativeCurrency, ...pools] : pools;
+  }, [data, includeNative, nativeCurrency]);
 
-  const selectedTokenData = Tokens.find(
-    (token) => token.token === selectedToken
-  )?.token;
-  const filteredTokens = Tokens.filter(
-    (token) =>
-      token.token.symbol.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      token.token.name.toLowerCase().includes(searchQuery.toLowerCase())
+  const query = searchQuery.trim();
+  const queryAddress = isAddress(query) ? query : undefined;
+  const loadedMatch = queryAddress ? loadedTokens.find((token) => sameToken(token, { address: queryAddress })) : undefined;
+  const lookup = usePoolToken(isOpen && queryAddress && !loadedMatch ? queryAddress : undefined);
+
+  const filteredTokens = useMemo(() => {
+    if (queryAddress) {
+      if (loadedMatch) return [loadedMatch];
+      return lookup.data ? [lookup.data] : [];
+    }
+    const needle = query.toLowerCase();
+    if (!needle) return loadedTokens;
+    return loadedTokens.filter(
+      (token) => token.symbol.toLowerCase().includes(needle) || token.name.toLowerCase().includes(needle)
+    );
+  }, [loadedTokens, query, queryAddress, loadedMatch, lookup.data]);
+
+  // Balances for everything loaded, so typing a search does not refetch them
+  const balanceTokens = useMemo(
+    () => (lookup.data ? [...loadedTokens, lookup.data] : loadedTokens),
+    [loadedTokens, lookup.data]
   );
+  const { data: balances } = useTokenBalances(isOpen ? balanceTokens : [], account);
+
+  const canLoadMore = hasNextPage && !isFetchingNextPage;
+
+  // Searching only sees loaded pools; keep paging until there are enough matches
+  useEffect(() => {
+    if (isOpen && query && !queryAddress && canLoadMore && filteredTokens.length < MIN_SEARCH_RESULTS) {
+      fetchNextPage();
+    }
+  }, [isOpen, query, queryAddress, canLoadMore, filteredTokens.length, fetchNextPage]);
+
+  const handleRowsRendered = ({ stopIndex }: { startIndex: number; stopIndex: number }) => {
+    if (!queryAddress && canLoadMore && stopIndex >= filteredTokens.length - LOAD_AHEAD_ROWS) fetchNextPage();
+  };
 
   const handleTokenSelect = async (token: Token) => {
     await onTokenChange(token);
@@ -42,6 +134,10 @@ export function TokenSelector({
     setSearchQuery("");
   };
 
+  // The native row may have been picked on another chain; show this chain's symbol
+  const displayedToken = isNativeToken(selectedToken) ? nativeCurrency : selectedToken;
+  const searching = isFetchingNextPage || lookup.isFetching || isLoading;
+
   return (
     <>
       <Button
@@ -52,10 +148,10 @@ export function TokenSelector({
         <div className="flex items-center gap-2">
           <div className="w-6 h-6 rounded-full bg-accent/20 flex items-center justify-center">
             <span className="text-sm font-bold text-accent">
-              {selectedTokenData?.symbol.toUpperCase().charAt(0)}
+              {displayedToken?.symbol.toUpperCase().charAt(0)}
             </span>
           </div>
-          <span>{selectedTokenData?.symbol.toUpperCase() || "Select"}</span>
+          <span>{displayedToken?.symbol.toUpperCase() || "Select"}</span>
           <ChevronDown className="h-4 w-4 text-muted-foreground" />
         </div>
       </Button>
@@ -71,7 +167,7 @@ export function TokenSelector({
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search tokens..."
+                placeholder="Search by name, symbol or address"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10"
@@ -79,32 +175,34 @@ export function TokenSelector({
             </div>
 
             {/* Token List */}
-            <div className="space-y-1 max-h-[400px] overflow-y-auto">
-              {filteredTokens.map((token) => (
-                <Button
-                  key={token.token.symbol}
-                  variant="ghost"
-                  onClick={() => handleTokenSelect(token.token)}
-                  className="w-full h-auto p-3 justify-start hover:bg-accent/10"
-                >
-                  <div className="flex items-center justify-between w-full">
-                    <div className="flex items-center gap-3">
-                      <div className="w-8 h-8 rounded-full bg-accent/20 flex items-center justify-center">
-                        <span className="text-sm font-bold text-accent">
-                          {token.token.symbol.toUpperCase().charAt(0)}
-                        </span>
-                      </div>
-                      <div className="text-left">
-                        <p className="font-medium">{token.token.symbol.toUpperCase()}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {token.token.name}
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-                </Button>
-              ))}
-            </div>
+            {filteredTokens.length > 0 ? (
+              <div className="h-[400px]">
+                <List
+                  rowCount={filteredTokens.length}
+                  rowHeight={ROW_HEIGHT}
+                  rowComponent={TokenRow}
+                  rowProps={{ tokens: filteredTokens, balances, selectedToken: displayedToken, onSelect: handleTokenSelect }}
+                  onRowsRendered={handleRowsRendered}
+                />
+              </div>
+            ) : (
+              !searching && (
+                <p className="py-10 text-center text-sm text-muted-foreground">
+                  {error
+                    ? `Failed to load pools: ${error.message}`
+                    : queryAddress
+                      ? "No Maelstrom pool for this address."
+                      : "No tokens found"}
+                </p>
+              )
+            )}
+
+            {searching && (
+              <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {queryAddress ? "Looking up token..." : "Loading pools..."}
+              </div>
+            )}
           </div>
         </DialogContent>
       </Dialog>
@@ -5,76 +5,33 @@ import { TokenRowSkeleton } from "./TokenRowSkeleton";
 import { TokenSearchBar } from "./TokenSearchBar";
 import { Search } from "lucide-react";
 import { useCallback, useEffect, useMemo, useState, useRef } from "react";
-import { useAccount, usePublicClient, useWriteContract } from "wagmi";
-import { ContractClient } from "@/lib/contract-client";
-import { RowPool } from "@/types/pool";
 import { debounce } from "lodash";
 import { Input } from "../ui/input";
 import { toast } from "sonner";
 import Link from "next/link";
+import { usePoolCount, usePools } from "@/hooks/use-pool-queries";
 
 const ITEMS_PER_PAGE = 20;
 
 export function TokenList() {
-  const { writeContractAsync } = useWriteContract();
-  const publicClient = usePublicClient();
-
-  const { chainId } = useAccount();
-  const contractClient = useMemo(
-    () => new ContractClient(writeContractAsync, publicClient, chainId),
-    [chainId]
-  );
-
-  const [tokens, setTokens] = useState<RowPool[]>([]);
-  const [totalPools, setTotalPools] = useState(0);
-  const [initialLoad, setInitialLoad] = useState(true);
-  const [loadedTokens, setLoadedTokens] = useState(0);
+  // Live events invalidate the count and the loaded pages, so new pools and price moves show up in place
+  const { data: totalPools = 0, error: countError, isPending: countPending } = usePoolCount();
+  const poolPages = usePools(ITEMS_PER_PAGE);
   const [search, setSearch] = useState("");
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const [allPoolsLoaded, setAllPoolsLoaded] = useState(false);
   const observerRef = useRef<HTMLDivElement>(null);
 
-  const getPoolLength = useCallback(async () => {
-    try {
-      const poolCount = await contractClient.getPoolCount();
-      setTotalPools(poolCount);
-      console.log("Total pools available:", poolCount);
-    } catch (error) {
-      console.error("Error fetching total pools:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      toast.error(`Failed to fetch total pools count: ${errorMessage}`);
-    }
-  }, [contractClient]);
-
-  const loadMorePools = useCallback(async () => {
-    if (loadedTokens >= totalPools || isLoadingMore || allPoolsLoaded) return; // No more pools to load
-
-    setIsLoadingMore(true);
-    try {
-      const newPools = await contractClient.getPools(
-        loadedTokens,
-        ITEMS_PER_PAGE >= totalPools ? totalPools - 1 : ITEMS_PER_PAGE
-      );
-      setTokens((prev) => [...prev, ...newPools]);
-      setLoadedTokens((prev) => prev + newPools.length);
-
-      if (loadedTokens + newPools.length >= totalPools) {
-        setAllPoolsLoaded(true);
-      }
-    } catch (error) {
-      console.error("Error loading more pools:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      toast.error(
-        `Failed to load pools (${loadedTokens}-${
-          loadedTokens + ITEMS_PER_PAGE
-        }): ${errorMessage}`
-      );
-    } finally {
-      setIsLoadingMore(false);
-    }
-  }, [contractClient, loadedTokens, totalPools, isLoadingMore, allPoolsLoaded]);
+  const tokens = useMemo(() => poolPages.data?.pages.flat() ?? [], [poolPages.data]);
+  const isLoadingMore = poolPages.isFetchingNextPage;
+  const allPoolsLoaded = !poolPages.hasNextPage;
+  const initialLoad = countPending || (totalPools > 0 && poolPages.isPending);
+  const loadMorePools = poolPages.fetchNextPage;
+
+  useEffect(() => {
+    const error = countError ?? poolPages.error;
+    if (!error) return;
+    console.error("Error loading pools:", error);
+    toast.error(`Failed to load pools: ${error.message}`);
+  }, [countError, poolPages.error]);
 
   const debouncedSearch = useCallback(
     debounce((value: string) => {
@@ -93,23 +50,6 @@ export function TokenList() {
     );
   }, [search, tokens]);
 
-  // Reset display count when filters change
-  useEffect(() => {
-    const init = async () => {
-      try {
-        await getPoolLength();
-        await loadMorePools();
-      } catch (err) {
-        console.error("Initialization failed:", err);
-        const errorMessage = err instanceof Error ? err.message : String(err);
-        toast.error(`Initialization failed: ${errorMessage}`);
-      } finally {
-        setInitialLoad(false);
-      }
-    };
-    init();
-  }, [getPoolLength, loadMorePools]);
-
   // Intersection Observer for infinite scrolling
   useEffect(() => {
     const observer = new IntersectionObserver(
@@ -141,7 +81,7 @@ export function TokenList() {
     };
   }, [isLoadingMore, allPoolsLoaded, search, loadMorePools]);
 
-  if (initialLoad && loadedTokens === 0) {
+  if (initialLoad && tokens.length === 0) {
     return (
       <div className="space-y-3 animate-fade-in">
         {Array.from({ length: 5 }).map((_, i) => (
@@ -4,8 +4,13 @@ import type { RowPool } from "@/types/pool";
 // import { formatCurrency } from "@/types/pool";
 import { ChevronRight } from "lucide-react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { MouseEvent } from "react";
 import { formatEther } from "viem";
-import { useAccount } from "wagmi";
+import { formatPrice } from "@/lib/units";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
+import { swapHref } from "@/lib/swap-link";
+import { NATIVE_TOKEN_ADDRESS } from "@/types/token";
 
 interface TokenRowProps {
   poolToken: RowPool;
@@ -13,8 +18,25 @@ interface TokenRowProps {
 
 export function TokenRow({ poolToken }: TokenRowProps) {
   const { token, buyPrice, sellPrice, totalLiquidity } = poolToken;
-  const { chain } = useAccount();
-  const nativeCurrencySymbol = chain?.nativeCurrency?.symbol || "ETH";
+  const nativeCurrencySymbol = useNativeCurrency().symbol;
+  const router = useRouter();
+
+  // The whole row links to the pool page, so the button navigates itself instead of nesting a link
+  const handleTrade = (event: MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    router.push(swapHref({ mode: "swap", tokenIn: NATIVE_TOKEN_ADDRESS, tokenOut: token.address }));
+  };
+
+  const tradeButton = (
+    <button
+      type="button"
+      onClick={handleTrade}
+      className="px-3 py-1.5 rounded-lg text-xs font-medium border border-white/[0.08] text-accent-cyan/90 hover:text-accent-cyan hover:bg-white/[0.05] transition-colors"
+    >
+      Trade
+    </button>
+  );
 
   return (
     <Link
@@ -53,7 +75,7 @@ export function TokenRow({ poolToken }: TokenRowProps) {
           <div className="flex flex-col items-end min-w-[100px]">
             <div className="text-xs text-muted-foreground/60 mb-1">Buy Price</div>
             <div className="text-sm font-medium text-emerald-400">
-              {formatEther(BigInt(buyPrice))} {nativeCurrencySymbol}
+              {formatPrice(buyPrice, token.decimals)} {nativeCurrencySymbol}
             </div>
           </div>
 
@@ -61,7 +83,7 @@ export function TokenRow({ poolToken }: TokenRowProps) {
           <div className="flex flex-col items-end min-w-[100px]">
             <div className="text-xs text-muted-foreground/60 mb-1">Sell Price</div>
             <div className="text-sm font-medium text-red-400">
-              {formatEther(BigInt(sellPrice))} {nativeCurrencySymbol}
+              {formatPrice(sellPrice, token.decimals)} {nativeCurrencySymbol}
             </div>
           </div>
 
@@ -73,6 +95,8 @@ export function TokenRow({ poolToken }: TokenRowProps) {
             </div>
           </div>
 
+          {tradeButton}
+
           {/* Arrow */}
           <ChevronRight className="w-5 h-5 text-muted-foreground/40 group-hover:text-accent transition-colors duration-200" />
         </div>
@@ -102,6 +126,8 @@ export function TokenRow({ poolToken }: TokenRowProps) {
               </div>
             </div>
 
+            {tradeButton}
+
             {/* Arrow */}
             <ChevronRight className="w-4 h-4 text-muted-foreground/40 group-hover:text-accent transition-colors duration-200" />
           </div>
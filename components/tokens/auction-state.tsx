@@ -0,0 +1,121 @@
+"use client";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { AuctionSide, PoolState } from "@/types/pool";
+import { formatDuration, formatTokenAmount } from "@/lib/utils";
+import { priceDecimals } from "@/lib/units";
+import { BPS, min, shareBps, ZERO } from "@/lib/fixed-point";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
+
+interface AuctionStateProps {
+  poolState: PoolState;
+}
+
+// How far the current price has travelled from the auction's initial price towards its final price, in percent
+function auctionProgress(side: AuctionSide): number {
+  const initial = BigInt(side.initialPrice);
+  const distance = (a: bigint, b: bigint) => (a > b ? a - b : b - a);
+  const range = distance(BigInt(side.finalPrice), initial);
+  if (range === ZERO) return 100;
+  return Number(min(shareBps(distance(BigInt(side.currentPrice), initial), range), BPS)) / 100;
+}
+
+export function AuctionState({ poolState }: AuctionStateProps) {
+  const nativeCurrencySymbol = useNativeCurrency().symbol;
+  const { token } = poolState;
+  const displayPrice = (price: string) =>
+    `${formatTokenAmount(price, priceDecimals(token.decimals), 8)} ${nativeCurrencySymbol}`;
+  const sinceLastTrade = (ts: number) =>
+    ts > 0 ? `${formatDuration(Math.floor((poolState.lastUpdated - ts) / 1000))} ago` : "No trades yet";
+
+  const sides = [
+    {
+      label: "Buy auction",
+      description: `Price you pay per ${token.symbol}`,
+      side: poolState.buy,
+      accent: "from-green-400 to-green-500",
+    },
+    {
+      label: "Sell auction",
+      description: `Price you receive per ${token.symbol}`,
+      side: poolState.sell,
+      accent: "from-cyan-400 to-blue-500",
+    },
+  ];
+
+  return (
+    <Card className="relative overflow-hidden border-0">
+      <div className="absolute inset-0 bg-background-800/40 backdrop-blur-xl" />
+      <div className="absolute inset-0 bg-gradient-to-br from-accent/[0.08] to-primary-500/[0.05]" />
+      <div className="absolute inset-0 border border-white/[0.05] rounded-lg bg-gradient-to-b from-white/[0.05] to-transparent" />
+
+      <CardContent className="relative p-6 space-y-4">
+        <div className="flex items-center justify-between px-2">
+          <h2 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-white/90 font-plus-jakarta">
+            Auction State
+          </h2>
+          <span className="text-sm text-muted-foreground/80">
+            Auction reset: {poolState.auctionResetPercentage}%
+          </span>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {sides.map(({ label, description, side, accent }) => {
+            const progress = auctionProgress(side);
+            const rows = [
+              { label: "Last trade price", value: displayPrice(side.lastPrice) },
+              { label: "Initial price", value: displayPrice(side.initialPrice) },
+              { label: "Final price", value: displayPrice(side.finalPrice) },
+              { label: "Last trade", value: sinceLastTrade(side.lastTradeTs) },
+              { label: "Decay window", value: formatDuration(side.decayedTime) },
+              {
+                label: "Decayed volume",
+                value: `${formatTokenAmount(side.decayedVolume, token.decimals)} ${token.symbol}`,
+              },
+            ];
+            return (
+              <div
+                key={label}
+                className="bg-white/[0.02] rounded-2xl px-6 py-4 border border-white/[0.05] shadow-lg backdrop-blur-md"
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <div className={`w-2 h-2 rounded-full bg-gradient-to-r ${accent}`}></div>
+                  <span className="text-sm font-medium text-white">{label}</span>
+                </div>
+                <div className="text-xs text-muted-foreground/80 mb-3">{description}</div>
+
+                <div className="bg-black/10 rounded-xl p-4 mb-3">
+                  <div className="text-sm text-muted-foreground/80 mb-1">Current Price</div>
+                  <div className="text-lg font-semibold text-white">{displayPrice(side.currentPrice)}</div>
+                </div>
+
+                <div className="mb-3">
+                  <div className="h-2 w-full bg-background-800/50 rounded-full overflow-hidden border border-white/[0.05]">
+                    <div
+                      className={`h-full bg-gradient-to-r ${accent} transition-all duration-500 ease-out`}
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+                  <div className="flex justify-between mt-1 text-xs text-muted-foreground/80">
+                    <span>Initial</span>
+                    <span>{progress.toFixed(2)}% decayed</span>
+                    <span>Final</span>
+                  </div>
+                </div>
+
+                <div className="space-y-1 text-sm">
+                  {rows.map((row) => (
+                    <div key={row.label} className="flex justify-between">
+                      <span className="text-muted-foreground/80">{row.label}</span>
+                      <span className="text-white">{row.value}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,13 +4,25 @@ import { useState, useCallback, useMemo } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
+import { WalletGate } from "@/components/wallet-gate";
 import { LiquidityPreviewModal } from "./liquidity-preview-modal";
 import { toast } from "sonner";
 import { LiquidityPoolToken, Token } from "@/types/token";
-import { useAccount, usePublicClient, useWriteContract } from "wagmi";
-import { ContractClient } from "@/lib/contract-client";
+import { useAccount } from "wagmi";
+import { useContractClient } from "@/providers/contract-client-provider";
+import { useDeposit, useWithdraw } from "@/hooks/use-pool-mutations";
+import { showErrorToast } from "@/lib/error-toast";
+import { useChainModal } from "@rainbow-me/rainbowkit";
 import { Reserve } from "@/types/pool";
-import { formatEther, parseEther } from "viem";
+import { formatTokenAmount } from "@/lib/utils";
+import { fromBaseUnits, toBaseUnits } from "@/lib/units";
+import { proportionOf, shareBps, WAD } from "@/lib/fixed-point";
+import { explorerTxUrl } from "@/lib/chains";
+import { useSimulation } from "@/hooks/use-simulation";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
+import { useWalletBalance } from "@/hooks/use-wallet-balance";
+import { useNetworkState } from "@/providers/network-provider";
+import { BalanceShortcuts } from "@/components/swap/balance-shortcuts";
 
 interface LiquidityActionsProps {
   token: Token;
@@ -25,79 +37,138 @@ export function LiquidityActions({
   lpToken,
   poolRatio,
 }: LiquidityActionsProps) {
-  const { chainId } = useAccount();
-  const { writeContractAsync } = useWriteContract();
-  const publicClient = usePublicClient();
-  const contractClient = useMemo(
-    () => new ContractClient(writeContractAsync, publicClient, chainId),
-    [chainId]
-  );
+  const contractClient = useContractClient();
+  const deposit = useDeposit();
+  const withdraw = useWithdraw();
+  const { simulation, isSimulating, runSimulation, resetSimulation } = useSimulation();
   const { chain } = useAccount();
-  const baseUrl = chain?.blockExplorers?.default.url;
+  const { openChainModal } = useChainModal();
+  const nativeCurrency = useNativeCurrency();
+  const nativeCurrencySymbol = nativeCurrency.symbol;
   const [tokenAmount, setTokenAmount] = useState("");
   const [ethAmount, setEthAmount] = useState("");
   const [lpAmount, setLpAmount] = useState("");
   const [showPreview, setShowPreview] = useState(false);
   const [loading, setLoading] = useState(false);
   const [currentTab, setCurrentTab] = useState<"add" | "remove">("add");
+  const { balance: tokenBalance } = useWalletBalance(token);
+  const { balance: ethBalance, spendable: ethSpendable } = useWalletBalance(nativeCurrency);
+  const { account } = useNetworkState();
+  // Part of the pool data, which carries the account's LP balance
+  const lpBalance = BigInt(lpToken.balance);
+  // The deposit needs both sides; say which one is short
+  const depositShortfall =
+    tokenBalance !== undefined && toBaseUnits(tokenAmount, token.decimals) > tokenBalance
+      ? token.symbol
+      : ethBalance !== undefined && toBaseUnits(ethAmount, nativeCurrency.decimals) > ethBalance
+        ? nativeCurrencySymbol
+        : undefined;
+  const insufficientLp = toBaseUnits(lpAmount, lpToken.decimals) > lpBalance;
+
+  const tokenReserve = BigInt(reserve.tokenReserve);
+  const ethReserve = BigInt(reserve.ethReserve);
+  const lpSupply = BigInt(lpToken.totalSupply);
+
+  // Exchange rate for display, from the reserves so the token's decimals apply;
+  // poolRatio (token base units per wei) is only used for an empty pool.
+  const { tokensPerEth, ethPerToken } = useMemo(() => {
+    const oneToken = BigInt(10) ** BigInt(token.decimals);
+    if (ethReserve === BigInt(0) || tokenReserve === BigInt(0)) {
+      const perEth = BigInt(Number.isFinite(poolRatio) ? Math.round(poolRatio) : 0) * WAD;
+      return {
+        tokensPerEth: fromBaseUnits(perEth, token.decimals),
+        ethPerToken: fromBaseUnits(proportionOf(WAD, oneToken, perEth), nativeCurrency.decimals),
+      };
+    }
+    return {
+      tokensPerEth: fromBaseUnits(proportionOf(tokenReserve, WAD, ethReserve), token.decimals),
+      ethPerToken: fromBaseUnits(proportionOf(ethReserve, oneToken, tokenReserve), nativeCurrency.decimals),
+    };
+  }, [tokenReserve, ethReserve, poolRatio, token.decimals, nativeCurrency.decimals]);
 
+  // Deposits round ETH and LP down and the token amount up, so the approval always covers what the pool pulls
   const handleTokenAmountChange = useCallback(
     (value: string) => {
       setTokenAmount(value);
-      console.log(poolRatio)
-      console.log(value)
-      console.log(Number(value) / Number(poolRatio))
-      const ethAmount = Number(value) / Number(poolRatio);
-      const proportion = Number(value) / Number(reserve.tokenReserve);
-      const lpTokenAmount = proportion * Number(lpToken.totalSupply);
-      setEthAmount(String(ethAmount));
-      setLpAmount(String(lpTokenAmount));
+      const tokenBase = toBaseUnits(value, token.decimals);
+      setEthAmount(fromBaseUnits(proportionOf(ethReserve, tokenBase, tokenReserve), nativeCurrency.decimals));
+      setLpAmount(fromBaseUnits(proportionOf(lpSupply, tokenBase, tokenReserve), lpToken.decimals));
     },
-    [reserve, poolRatio, lpToken.totalSupply]
+    [tokenReserve, ethReserve, lpSupply, token.decimals, lpToken.decimals, nativeCurrency.decimals]
   );
 
   const handleEthAmountChange = useCallback(
     (value: string) => {
       setEthAmount(value);
-      const tokenAmount = Number(value) * Number(poolRatio);
-      const proportion = Number(value) / Number(reserve.ethReserve);
-      const lpTokenAmount = proportion * Number(lpToken.totalSupply);
-      setTokenAmount(String(tokenAmount));
-      setLpAmount(String(lpTokenAmount));
+      const wei = toBaseUnits(value, nativeCurrency.decimals);
+      setTokenAmount(fromBaseUnits(proportionOf(tokenReserve, wei, ethReserve, "up"), token.decimals));
+      setLpAmount(fromBaseUnits(proportionOf(lpSupply, wei, ethReserve), lpToken.decimals));
     },
-    [reserve, poolRatio, lpToken.totalSupply]
+    [tokenReserve, ethReserve, lpSupply, token.decimals, lpToken.decimals, nativeCurrency.decimals]
   );
 
   const handleLpAmountChange = useCallback(
     (value: string) => {
       setLpAmount(value);
-      const proportion = Number(value) / Number(lpToken.totalSupply);
-      const ethAmount = proportion * Number(reserve.ethReserve);
-      const tokenAmount = proportion * Number(reserve.tokenReserve);
-      setEthAmount(String(ethAmount));
-      setTokenAmount(String(tokenAmount));
+      const lpBase = toBaseUnits(value, lpToken.decimals);
+      setEthAmount(fromBaseUnits(proportionOf(ethReserve, lpBase, lpSupply), nativeCurrency.decimals));
+      setTokenAmount(fromBaseUnits(proportionOf(tokenReserve, lpBase, lpSupply), token.decimals));
     },
-    [reserve, lpToken.totalSupply]
+    [tokenReserve, ethReserve, lpSupply, token.decimals, lpToken.decimals, nativeCurrency.decimals]
   );
 
+  // Share of the LP supply that lpAmount represents, in percent
+  const poolSharePercent = Number(shareBps(toBaseUnits(lpAmount, lpToken.decimals), lpSupply)) / 100;
+
+  const buildDepositRequest = () => ({
+    token: token,
+    tokenAmount: toBaseUnits(tokenAmount, token.decimals).toString(),
+    ethAmount: toBaseUnits(ethAmount, nativeCurrency.decimals).toString(),
+  });
+
+  const buildWithdrawRequest = () => ({
+    token: token,
+    lpToken: lpToken,
+    lpTokenAmount: toBaseUnits(lpAmount, lpToken.decimals).toString(),
+  });
+
+  const handlePreview = (tab: "add" | "remove") => {
+    setCurrentTab(tab);
+    setShowPreview(true);
+    if (tab === "add") {
+      runSimulation(() => contractClient.simulateDeposit(buildDepositRequest()));
+    } else {
+      runSimulation(() => contractClient.simulateWithdraw(buildWithdrawRequest()));
+    }
+  };
+
+  const handleClosePreview = () => {
+    setShowPreview(false);
+    resetSimulation();
+  };
+
   const handleLiquidityAdditon = async () => {
     setLoading(true);
     try {
-      const depositRequest = {
-        token: token,
-        tokenAmount: parseEther(tokenAmount).toString(),
-        ethAmount: parseEther(Number(ethAmount).toFixed(13)).toString(),
-      };
-      const depositResult = await contractClient.deposit(depositRequest);
+      const depositRequest = buildDepositRequest();
+      const depositResult = await deposit.mutateAsync(depositRequest);
       if (!depositResult.success) {
         throw new Error(depositResult.error || "Deposit failed");
       }
       toast.success(
         <div>
           <div>Deposit Successful! </div>
+          <div>
+            Added {formatTokenAmount(depositResult.ethAmount)} {nativeCurrencySymbol} and{" "}
+            {formatTokenAmount(depositResult.tokenAmount, token.decimals)} {token.symbol}
+          </div>
+          <div className="text-xs text-white/60">
+            Minted {formatTokenAmount(depositResult.lpTokensMinted, lpToken.decimals)} {lpToken.symbol} · Gas used:{" "}
+            {Number(depositResult.gasUsed).toLocaleString()}
+          </div>
           <div>
             <a
-              href={`${baseUrl}/tx/${depositResult.txHash}`}
+              href={explorerTxUrl(chain?.id, depositResult.txHash)}
               target="_blank"
               rel="noopener noreferrer"
               className="underline text-blue-400"
@@ -112,7 +183,8 @@ export function LiquidityActions({
       setLpAmount("");
       setShowPreview(false);
     } catch (error) {
-      toast.error(`Error: ${error || "Failed to process liquidity operation"}`);
+      console.error("Deposit failed:", error);
+      showErrorToast(error, "Deposit", { retry: handleLiquidityAdditon, switchNetwork: openChainModal });
     } finally {
       setLoading(false);
     }
@@ -121,21 +193,25 @@ export function LiquidityActions({
   const handleLiquidityRemoval = async () => {
     setLoading(true);
     try {
-      const withdrawRequest = {
-        token: token,
-        lpToken: lpToken,
-        lpTokenAmount: parseEther(lpAmount).toString(),
-      };
-      const withdrawResult = await contractClient.withdraw(withdrawRequest);
+      const withdrawRequest = buildWithdrawRequest();
+      const withdrawResult = await withdraw.mutateAsync(withdrawRequest);
       if (!withdrawResult.success) {
-        throw new Error(withdrawResult.error || "Deposit failed");
+        throw new Error(withdrawResult.error || "Withdraw failed");
       }
       toast.success(
         <div>
-          <div>Deposit Successful! </div>
+          <div>Withdrawal Successful! </div>
+          <div>
+            Received {formatTokenAmount(withdrawResult.ethAmount)} {nativeCurrencySymbol} and{" "}
+            {formatTokenAmount(withdrawResult.tokenAmount, token.decimals)} {token.symbol}
+          </div>
+          <div className="text-xs text-white/60">
+            Burned {formatTokenAmount(withdrawResult.lpTokensBurnt, lpToken.decimals)} {lpToken.symbol} · Gas used:{" "}
+            {Number(withdrawResult.gasUsed).toLocaleString()}
+          </div>
           <div>
             <a
-              href={`${baseUrl}/tx/${withdrawResult.txHash}`}
+              href={explorerTxUrl(chain?.id, withdrawResult.txHash)}
               target="_blank"
               rel="noopener noreferrer"
               className="underline text-blue-400"
@@ -151,8 +227,8 @@ export function LiquidityActions({
       setLpAmount("");
       setShowPreview(false);
     } catch (error) {
-      toast.error(`Error: ${error || "Failed to process liquidity operation"}`);
-      console.error(error);
+      console.error("Withdraw failed:", error);
+      showErrorToast(error, "Withdraw", { retry: handleLiquidityRemoval, switchNetwork: openChainModal });
     } finally {
       setLoading(false);
     }
@@ -215,11 +291,6 @@ export function LiquidityActions({
                         {token.symbol.toUpperCase()}
                       </span>
                     </div>
-                    {/* <div className="text-right">
-                      <div className="text-xs text-foreground/60">
-                        balance: {tokenBalance}
-                      </div>
-                    </div> */}
                   </div>
                   <input
                     type="text"
@@ -230,6 +301,9 @@ export function LiquidityActions({
                   placeholder:text-white/20 transition-all duration-300 font-plus-jakarta"
                     placeholder="0.0"
                   />
+                  <div className="mt-2">
+                    <BalanceShortcuts token={token} balance={tokenBalance} onSelect={handleTokenAmountChange} />
+                  </div>
                 </div>
 
                 {/* ETH Input Panel */}
@@ -241,13 +315,8 @@ export function LiquidityActions({
                           Ξ
                         </span>
                       </div>
-                      <span className="text-sm font-medium">ETH</span>
+                      <span className="text-sm font-medium">{nativeCurrencySymbol}</span>
                     </div>
-                    {/* <div className="text-right">
-                      <div className="text-xs text-foreground/60">
-                        balance: {ethBalance}
-                      </div>
-                    </div> */}
                   </div>
                   <input
                     type="text"
@@ -258,6 +327,14 @@ export function LiquidityActions({
                   placeholder:text-white/20 transition-all duration-300 font-plus-jakarta"
                     placeholder="0.0"
                   />
+                  <div className="mt-2">
+                    <BalanceShortcuts
+                      token={nativeCurrency}
+                      balance={ethBalance}
+                      spendable={ethSpendable}
+                      onSelect={handleEthAmountChange}
+                    />
+                  </div>
                 </div>
               </div>
 
@@ -267,8 +344,8 @@ export function LiquidityActions({
                 parseFloat(lpAmount) > 0) && (
                 <div className="text-center space-y-1 pt-2">
                   <div className="text-sm text-foreground/60">
-                    1 {token.symbol} = {1 / poolRatio} ETH
-                    <span className="mx-2">•</span>1 ETH = {poolRatio}{" "}
+                    1 {token.symbol} = {ethPerToken} {nativeCurrencySymbol}
+                    <span className="mx-2">•</span>1 {nativeCurrencySymbol} = {tokensPerEth}{" "}
                     {token.symbol}
                   </div>
                 </div>
@@ -293,7 +370,7 @@ export function LiquidityActions({
                   </div>
                   <div className="text-right">
                     <div className="text-xs text-foreground/60">
-                      Total Supply: {formatEther(BigInt(lpToken.totalSupply))}
+                      Total Supply: {fromBaseUnits(lpToken.totalSupply, lpToken.decimals)}
                     </div>
                   </div>
                 </div>
@@ -310,9 +387,7 @@ export function LiquidityActions({
 
                 {lpAmount && parseFloat(lpAmount) > 0 && (
                   <div className="mt-3 text-xs text-foreground/60 text-center">
-                    {(Number(lpAmount) /
-                      Number(formatEther(BigInt(lpToken.totalSupply)))) *
-                      100}
+                    {poolSharePercent}
                     % of pool
                   </div>
                 )}
@@ -320,26 +395,26 @@ export function LiquidityActions({
             </div>
 
             {/* Add Liquidity Button */}
-            <Button
-              className="w-full h-14 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
-                text-white font-semibold rounded-xl shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
-                disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
-                border border-white/[0.05] backdrop-blur-sm font-plus-jakarta text-base"
-              variant="default"
-              onClick={() => {
-                setCurrentTab("add");
-                setShowPreview(true);
-              }}
-              disabled={
-                !tokenAmount ||
-                !ethAmount ||
-                parseFloat(tokenAmount) === 0 ||
-                parseFloat(ethAmount) === 0 ||
-                loading
-              }
-            >
-              Preview Deposit
-            </Button>
+            <WalletGate>
+              <Button
+                className="w-full h-14 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
+                  text-white font-semibold rounded-xl shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
+                  disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
+                  border border-white/[0.05] backdrop-blur-sm font-plus-jakarta text-base"
+                variant="default"
+                onClick={() => handlePreview("add")}
+                disabled={
+                  !tokenAmount ||
+                  !ethAmount ||
+                  parseFloat(tokenAmount) === 0 ||
+                  parseFloat(ethAmount) === 0 ||
+                  loading ||
+                  !!depositShortfall
+                }
+              >
+                {depositShortfall ? `Insufficient ${depositShortfall} balance` : "Preview Deposit"}
+              </Button>
+            </WalletGate>
           </TabsContent>
 
           {/* REMOVE LIQUIDITY TAB */}
@@ -360,11 +435,6 @@ export function LiquidityActions({
                     </div>
                     <span className="text-sm font-medium">LP Token</span>
                   </div>
-                  <div className="text-right">
-                    <div className="text-xs text-foreground/60">
-                      LP Balance: {formatEther(BigInt(lpToken.balance))}
-                    </div>
-                  </div>
                 </div>
                 <input
                   type="text"
@@ -377,13 +447,12 @@ export function LiquidityActions({
                     placeholder:text-white/20 transition-all duration-300 font-plus-jakarta"
                   placeholder="0.0"
                 />
+                <div className="mt-2">
+                  <BalanceShortcuts token={lpToken} balance={account ? lpBalance : undefined} onSelect={handleLpAmountChange} />
+                </div>
 
                 <div className="mt-3 text-xs text-foreground/60 text-center">
-                  {(
-                    (Number(lpAmount) /
-                      Number(formatEther(BigInt(lpToken.totalSupply)))) *
-                    100
-                  ).toFixed(3)}
+                  {poolSharePercent.toFixed(2)}
                   % of pool
                 </div>
               </div>
@@ -431,7 +500,7 @@ export function LiquidityActions({
                           Ξ
                         </span>
                       </div>
-                      <span className="text-sm font-medium">ETH</span>
+                      <span className="text-sm font-medium">{nativeCurrencySymbol}</span>
                     </div>
                   </div>
                   <input
@@ -450,8 +519,8 @@ export function LiquidityActions({
               {parseFloat(lpAmount) > 0 && (
                 <div className="text-center space-y-1 pt-2">
                   <div className="text-sm text-foreground/60">
-                    1 {token.symbol} = {1 / poolRatio} ETH
-                    <span className="mx-2">•</span>1 ETH = {poolRatio}{" "}
+                    1 {token.symbol} = {ethPerToken} {nativeCurrencySymbol}
+                    <span className="mx-2">•</span>1 {nativeCurrencySymbol} = {tokensPerEth}{" "}
                     {token.symbol}
                   </div>
                 </div>
@@ -459,26 +528,25 @@ export function LiquidityActions({
             </div>
 
             {/* Remove Liquidity Button */}
-            <Button
-              className="w-full h-14 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
-                text-white font-semibold rounded-xl shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
-                disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
-                border border-white/[0.05] backdrop-blur-sm font-plus-jakarta text-base"
-              variant="default"
-              onClick={() => {
-                setCurrentTab("remove");
-                setShowPreview(true);
-              }}
-              disabled={!lpAmount || parseFloat(lpAmount) === 0 || loading}
-            >
-              Preview Withdraw
-            </Button>
+            <WalletGate>
+              <Button
+                className="w-full h-14 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
+                  text-white font-semibold rounded-xl shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
+                  disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
+                  border border-white/[0.05] backdrop-blur-sm font-plus-jakarta text-base"
+                variant="default"
+                onClick={() => handlePreview("remove")}
+                disabled={!lpAmount || parseFloat(lpAmount) === 0 || loading || insufficientLp}
+              >
+                {insufficientLp ? "Insufficient LP balance" : "Preview Withdraw"}
+              </Button>
+            </WalletGate>
           </TabsContent>
         </Tabs>
 
         <LiquidityPreviewModal
           isOpen={showPreview}
-          onClose={() => setShowPreview(false)}
+          onClose={handleClosePreview}
           onConfirm={handleConfirmLiquidity}
           token={token}
           isWithdraw={currentTab === "remove"}
@@ -486,6 +554,8 @@ export function LiquidityActions({
           ethAmount={ethAmount}
           lpAmount={lpAmount}
           loading={loading}
+          simulation={simulation}
+          isSimulating={isSimulating}
         />
       </CardContent>
     </Card>
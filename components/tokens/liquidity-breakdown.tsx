@@ -3,26 +3,28 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Pool } from "@/types/pool";
 import { formatEther } from "viem";
-import { useAccount } from "wagmi";
+import { formatPrice, fromBaseUnits } from "@/lib/units";
+import { shareBps, tokenToWei } from "@/lib/fixed-point";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
 
 interface LiquidityBreakdownProps {
   poolData: Pool;
 }
 
 export function LiquidityBreakdown({ poolData }: LiquidityBreakdownProps) {
-  const { chain } = useAccount();
-  const nativeCurrencySymbol = chain?.nativeCurrency?.symbol || "ETH";
+  const nativeCurrencySymbol = useNativeCurrency().symbol;
   const APR = (poolData.apr).toFixed(2) + "%";
   const symbol = poolData.token.symbol;
-  const avgPrice = (Number(poolData.avgPrice) / 1e18).toFixed(8).replace(/\.?0+$/, '');
-  const tokenReserve = Number(formatEther(BigInt(poolData.reserve.tokenReserve))).toFixed(8).replace(/\.?0+$/, '');
+  const avgPrice = Number(formatPrice(poolData.avgPrice, poolData.token.decimals)).toFixed(8).replace(/\.?0+$/, '');
+  const tokenReserve = Number(fromBaseUnits(poolData.reserve.tokenReserve, poolData.token.decimals)).toFixed(8).replace(/\.?0+$/, '');
   const ethReserve = Number(formatEther(BigInt(poolData.reserve.ethReserve))).toFixed(8).replace(/\.?0+$/, '');
   const ethPrice = 4008.92; //Mocked for now
   const tokenReserveValue = Number((Number(avgPrice) * Number(tokenReserve) * ethPrice).toFixed(8)).toString().replace(/\.?0+$/, '');
   const ethReserveValue = Number((Number(ethReserve) * ethPrice).toFixed(8)).toString().replace(/\.?0+$/, '');
-  const tokenPercentage = Number((Number(tokenReserveValue) / (Number(tokenReserveValue) + Number(ethReserveValue)) * 100).toFixed(2));
-  const ethPercentage = 100 - tokenPercentage;
-  const currentSpread = (Number(poolData.buyPrice) - Number(poolData.sellPrice)) / Number(poolData.avgPrice) * 100;
+  const tokenReserveWei = tokenToWei(BigInt(poolData.reserve.tokenReserve), BigInt(poolData.avgPrice));
+  const tokenPercentage = Number(shareBps(tokenReserveWei, tokenReserveWei + BigInt(poolData.reserve.ethReserve))) / 100;
+  const ethPercentage = Number((100 - tokenPercentage).toFixed(2));
+  const currentSpread = Number(shareBps(BigInt(poolData.buyPrice) - BigInt(poolData.sellPrice), BigInt(poolData.avgPrice))) / 100;
   return (
     <Card className="relative overflow-hidden border-0 h-full flex flex-col">
       {/* Enhanced glass background */}
@@ -10,7 +10,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { ArrowRight } from "lucide-react";
 import { Token } from "@/types/token";
-import { useAccount } from "wagmi";
+import { SimulationResult } from "@/types/trades";
+import { SimulationStatus } from "@/components/simulation-status";
+import { ApprovalModeSelector } from "@/components/approval-mode-selector";
+import { formatTokenAmount } from "@/lib/utils";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
 
 interface LiquidityPreviewModalProps {
   isOpen: boolean;
@@ -22,6 +26,8 @@ interface LiquidityPreviewModalProps {
   ethAmount: string;
   lpAmount: string;
   loading?: boolean;
+  simulation?: SimulationResult;
+  isSimulating?: boolean;
 }
 
 export function LiquidityPreviewModal({
@@ -34,9 +40,10 @@ export function LiquidityPreviewModal({
   ethAmount,
   lpAmount,
   loading = false,
+  simulation,
+  isSimulating = false,
 }: LiquidityPreviewModalProps) {
-  const { chain } = useAccount();
-  const nativeCurrencySymbol = chain?.nativeCurrency?.symbol || "ETH";
+  const nativeCurrencySymbol = useNativeCurrency().symbol;
   
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -116,6 +123,25 @@ export function LiquidityPreviewModal({
             </div>
           </div> */}
 
+          {simulation?.needsApproval && <ApprovalModeSelector />}
+
+          <SimulationStatus
+            simulation={simulation}
+            isSimulating={isSimulating}
+            details={
+              simulation?.lpTokens && (
+                isWithdraw ? (
+                  <div>
+                    Simulated: {formatTokenAmount(simulation.ethAmount ?? "0")} {nativeCurrencySymbol} +{" "}
+                    {formatTokenAmount(simulation.tokenAmount ?? "0", token.decimals)} {token.symbol.toUpperCase()}
+                  </div>
+                ) : (
+                  <div>Simulated: {formatTokenAmount(simulation.lpTokens)} LP minted</div>
+                )
+              )
+            }
+          />
+
           {/* Action Buttons */}
           <div className="flex gap-3 pt-2">
             <Button
@@ -128,7 +154,7 @@ export function LiquidityPreviewModal({
             </Button>
             <Button
               onClick={onConfirm}
-              disabled={loading}
+              disabled={loading || isSimulating || simulation?.success === false}
               className="flex-1 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 
                 text-white font-semibold shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 
                 disabled:from-gray-600/50 disabled:to-gray-700/50 disabled:cursor-not-allowed disabled:text-white/50
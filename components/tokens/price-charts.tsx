@@ -18,12 +18,14 @@ import {
 } from 'chart.js';
 import { Line } from 'react-chartjs-2';
 import { Token } from "@/types/token";
-import { Pool } from "@/types/pool";
+import { Pool, PoolState } from "@/types/pool";
 import { BuyTrade, SellTrade } from "@/types/trades";
-import { ContractClient } from "@/lib/contract-client";
-import { useAccount, usePublicClient, useWriteContract } from "wagmi";
-import { formatEther } from "viem";
+import { useContractClient } from "@/providers/contract-client-provider";
+import { formatPrice } from "@/lib/units";
+import { DecayProjection, projectDecay } from "@/lib/auction-model";
 import { RefreshCw, Clock, TrendingUp } from "lucide-react";
+import { useLivePoolEvents } from "@/hooks/use-live-pool-events";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
 
 // Register Chart.js components
 ChartJS.register(
@@ -40,6 +42,8 @@ ChartJS.register(
 interface PriceChartsProps {
   token: Token;
   pool: Pool;
+  // Decoded auction state; enables the projected decay segments
+  poolState?: PoolState | null;
 }
 
 interface ChartDataPoint {
@@ -58,22 +62,16 @@ interface TradeData {
   formattedTime: string;
 }
 
-const BLOCKS_PER_FETCH = 999; // Load 1000 blocks at a time
+const BLOCKS_PER_FETCH = 9_999; // Indexer splits this into RPC-sized chunks and caches scanned ranges
 
-export function PriceCharts({ token, pool }: PriceChartsProps) {
-  const { writeContractAsync } = useWriteContract();
-  const publicClient = usePublicClient();
+export function PriceCharts({ token, pool, poolState }: PriceChartsProps) {
   const [tradeData, setTradeData] = useState<TradeData[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [nextBlockToFetch, setNextBlockToFetch] = useState<number | null>(null);
   const [hasMoreData, setHasMoreData] = useState(true);
-  const { chainId, chain } = useAccount();
-  const nativeCurrencySymbol = chain?.nativeCurrency?.symbol || "ETH";
-  const contractClient = useMemo(
-    () => new ContractClient(writeContractAsync, publicClient, chainId),
-    [chainId, writeContractAsync, publicClient]
-  );
+  const nativeCurrencySymbol = useNativeCurrency().symbol;
+  const contractClient = useContractClient();
 
   const processTradeData = useCallback(
     (buyTrades: BuyTrade[], sellTrades: SellTrade[]): TradeData[] => {
@@ -90,9 +88,9 @@ export function PriceCharts({ token, pool }: PriceChartsProps) {
           minute: "2-digit",
         });
 
-        const buyPriceBefore = parseFloat(formatEther(BigInt(trade.buyPrice)));
-        const buyPriceAfter = parseFloat(formatEther(BigInt(trade.updatedBuyPrice)));
-        const sellPrice = parseFloat(formatEther(BigInt(trade.sellPrice)));
+        const buyPriceBefore = parseFloat(formatPrice(trade.buyPrice, token.decimals));
+        const buyPriceAfter = parseFloat(formatPrice(trade.updatedBuyPrice, token.decimals));
+        const sellPrice = parseFloat(formatPrice(trade.sellPrice, token.decimals));
 
         if (tradeMap.has(trade.timestamp)) {
           const existing = tradeMap.get(trade.timestamp)!;
@@ -123,9 +121,9 @@ export function PriceCharts({ token, pool }: PriceChartsProps) {
           minute: "2-digit",
         });
 
-        const sellPriceBefore = parseFloat(formatEther(BigInt(trade.sellPrice)));
-        const sellPriceAfter = parseFloat(formatEther(BigInt(trade.updatedSellPrice)));
-        const buyPrice = parseFloat(formatEther(BigInt(trade.buyPrice)));
+        const sellPriceBefore = parseFloat(formatPrice(trade.sellPrice, token.decimals));
+        const sellPriceAfter = parseFloat(formatPrice(trade.updatedSellPrice, token.decimals));
+        const buyPrice = parseFloat(formatPrice(trade.buyPrice, token.decimals));
 
         if (tradeMap.has(trade.timestamp)) {
           const existing = tradeMap.get(trade.timestamp)!;
@@ -149,7 +147,7 @@ export function PriceCharts({ token, pool }: PriceChartsProps) {
       // Convert to array and sort by timestamp
       return Array.from(tradeMap.values()).sort((a, b) => a.timestamp - b.timestamp);
     },
-    []
+    [token.decimals]
   );
 
   const fetchNextBatch = useCallback(async () => {
@@ -162,11 +160,7 @@ export function PriceCharts({ token, pool }: PriceChartsProps) {
       // Get the current block if we don't have it yet
       let toBlock: number;
       if (nextBlockToFetch === null) {
-        const latestBlock = await publicClient?.getBlockNumber();
-        if (!latestBlock) {
-          throw new Error("Unable to get current block number");
-        }
-        toBlock = Number(latestBlock);
+        toBlock = await contractClient.getBlockNumber();
       } else {
         toBlock = nextBlockToFetch;
       }
@@ -209,7 +203,6 @@ export function PriceCharts({ token, pool }: PriceChartsProps) {
       setLoading(false);
     }
   }, [
-    publicClient,
     contractClient,
     token,
     processTradeData,
@@ -223,8 +216,28 @@ export function PriceCharts({ token, pool }: PriceChartsProps) {
     fetchNextBatch();
   }, []); // Only run on mount
 
-  const currentBuyPrice = parseFloat(formatEther(BigInt(pool.buyPrice)));
-  const currentSellPrice = parseFloat(formatEther(BigInt(pool.sellPrice)));
+  // Append trades as they land; re-read them through the indexer so they're decoded like the history
+  useLivePoolEvents({ token: token.address, types: ["BuyTrade", "SellTrade"] }, async (events) => {
+    const fromBlock = events[0].blockNumber;
+    const toBlock = events[events.length - 1].blockNumber;
+    try {
+      const [buyTrades, sellTrades] = await Promise.all([
+        contractClient.getBuyTradeEventLogs(fromBlock, toBlock, token),
+        contractClient.getSellTradeEventLogs(fromBlock, toBlock, token),
+      ]);
+      const newTradeData = processTradeData(buyTrades, sellTrades);
+      setTradeData((prevData) =>
+        Array.from(
+          new Map([...prevData, ...newTradeData].map((item) => [item.timestamp, item])).values()
+        ).sort((a, b) => a.timestamp - b.timestamp)
+      );
+    } catch (err) {
+      console.error("Error appending live trades:", err);
+    }
+  });
+
+  const currentBuyPrice = parseFloat(formatPrice(pool.buyPrice, token.decimals));
+  const currentSellPrice = parseFloat(formatPrice(pool.sellPrice, token.decimals));
 
   // Create chart data with step pattern and linear interpolation
   const { buyChartData, sellChartData } = useMemo(() => {
@@ -318,6 +331,28 @@ export function PriceCharts({ token, pool }: PriceChartsProps) {
     return { buyChartData: buyPoints, sellChartData: sellPoints };
   }, [tradeData, currentBuyPrice, currentSellPrice]);
 
+  // Dashed continuation of each line: the decay path the price follows if nobody trades
+  const { buyProjection, sellProjection } = useMemo(() => {
+    const toPoints = (projection: DecayProjection | null): ChartDataPoint[] =>
+      projection
+        ? [projection.startTs, projection.endTs].map((timestamp, index) => ({
+            x: timestamp,
+            y: parseFloat(formatPrice(index === 0 ? projection.startPrice : projection.endPrice, token.decimals)),
+            formattedTime: `${new Date(timestamp).toLocaleString("en-US", {
+              month: "short",
+              day: "numeric",
+              hour: "2-digit",
+              minute: "2-digit",
+            })} (projected)`,
+          }))
+        : [];
+    const now = Date.now();
+    return {
+      buyProjection: toPoints(poolState ? projectDecay(poolState.buy, now) : null),
+      sellProjection: toPoints(poolState ? projectDecay(poolState.sell, now) : null),
+    };
+  }, [poolState, token.decimals]);
+
   // Chart.js configuration
   const chartData = {
     datasets: [
@@ -351,6 +386,36 @@ export function PriceCharts({ token, pool }: PriceChartsProps) {
           yAxisKey: 'y',
         },
       },
+      {
+        label: 'Projected Buy Price',
+        data: buyProjection,
+        borderColor: 'rgba(16, 185, 129, 0.7)',
+        borderWidth: 2,
+        borderDash: [6, 4],
+        pointRadius: 0,
+        pointHoverRadius: 4,
+        fill: false,
+        tension: 0,
+        parsing: {
+          xAxisKey: 'x',
+          yAxisKey: 'y',
+        },
+      },
+      {
+        label: 'Projected Sell Price',
+        data: sellProjection,
+        borderColor: 'rgba(239, 68, 68, 0.7)',
+        borderWidth: 2,
+        borderDash: [6, 4],
+        pointRadius: 0,
+        pointHoverRadius: 4,
+        fill: false,
+        tension: 0,
+        parsing: {
+          xAxisKey: 'x',
+          yAxisKey: 'y',
+        },
+      },
     ],
   };
 
@@ -538,6 +603,12 @@ export function PriceCharts({ token, pool }: PriceChartsProps) {
                 <div className="w-3 h-3 rounded-full bg-red-500" />
                 <span className="text-xs text-muted-foreground">Sell</span>
               </div>
+              {buyProjection.length + sellProjection.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <div className="w-4 border-t-2 border-dashed border-white/50" />
+                  <span className="text-xs text-muted-foreground">Projected</span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -1,16 +1,19 @@
 "use client";
 
+import Link from "next/link";
+import { ArrowLeftRight } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import { Token } from "@/types/token";
-import { useAccount } from "wagmi";
+import { Button } from "@/components/ui/button";
+import { NATIVE_TOKEN_ADDRESS, Token } from "@/types/token";
+import { swapHref } from "@/lib/swap-link";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
 
 interface TokenHeaderProps {
   token: Token;
 }
 
 export function TokenHeader({ token }: TokenHeaderProps) {
-  const { chain } = useAccount();
-  const nativeCurrencySymbol = chain?.nativeCurrency?.symbol || "ETH";
+  const nativeCurrencySymbol = useNativeCurrency().symbol;
   
   return (
     <div className="relative p-6 rounded-lg overflow-hidden">
@@ -46,6 +49,13 @@ export function TokenHeader({ token }: TokenHeaderProps) {
             </Badge>
           </div>
         </div>
+
+        <Button asChild variant="outline" className="ml-auto border-white/[0.1] bg-white/[0.02] hover:bg-white/[0.05]">
+          <Link href={swapHref({ mode: "swap", tokenIn: NATIVE_TOKEN_ADDRESS, tokenOut: token.address })}>
+            <ArrowLeftRight className="h-4 w-4" />
+            Trade
+          </Link>
+        </Button>
       </div>
     </div>
   );
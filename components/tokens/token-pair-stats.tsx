@@ -3,15 +3,15 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Pool } from "@/types/pool";
 import { formatEther } from "viem";
-import { useAccount } from "wagmi";
+import { formatPrice } from "@/lib/units";
+import { useNativeCurrency } from "@/hooks/use-native-currency";
 
 interface TokenPairStatsProps {
   poolData: Pool;
 }
 
 export function TokenPairStats({ poolData }: TokenPairStatsProps) {
-  const { chain } = useAccount();
-  const nativeCurrencySymbol = chain?.nativeCurrency?.symbol || "ETH";
+  const nativeCurrencySymbol = useNativeCurrency().symbol;
   
   const stats = [
     {
@@ -24,11 +24,11 @@ export function TokenPairStats({ poolData }: TokenPairStatsProps) {
     },
     {
       label: "Buy Price",
-      value: `${Number(formatEther(BigInt(poolData.buyPrice))).toFixed(8)} ${nativeCurrencySymbol}`,
+      value: `${Number(formatPrice(poolData.buyPrice, poolData.token.decimals)).toFixed(8)} ${nativeCurrencySymbol}`,
     },
     {
       label: "Sell Price",
-      value: `${Number(formatEther(BigInt(poolData.sellPrice))).toFixed(8)} ${nativeCurrencySymbol}`,
+      value: `${Number(formatPrice(poolData.sellPrice, poolData.token.decimals)).toFixed(8)} ${nativeCurrencySymbol}`,
       change: "Current",
       positive: true,
     },
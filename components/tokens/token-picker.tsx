@@ -13,6 +13,7 @@ import {
   Coins,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getChainEntry } from "@/lib/chains";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -303,7 +304,7 @@ export function TokenPicker({
                     <>
                       <span className="text-sm font-medium">
                         Testnet:{" "}
-                        {chainId == 63 ? "ETC Testnet" : "Citrea's Testnet"} (
+                        {getChainEntry(chainId)?.chain.name ?? "Unknown network"} (
                         {chainId})
                       </span>
                       <span className="text-xs text-center max-w-[280px]">
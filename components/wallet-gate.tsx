@@ -0,0 +1,29 @@
+"use client";
+
+import { ReactNode } from "react";
+import { useConnectModal } from "@rainbow-me/rainbowkit";
+import { Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useNetworkState } from "@/providers/network-provider";
+
+// Shows the action (e.g. a preview button) once there is an account to act from, a Connect Wallet button before that
+export function WalletGate({ children, className }: { children: ReactNode; className?: string }) {
+  const { account } = useNetworkState();
+  const { openConnectModal } = useConnectModal();
+
+  if (account) return <>{children}</>;
+
+  return (
+    <Button
+      onClick={openConnectModal}
+      className={cn(
+        "w-full h-14 bg-gradient-to-r from-accent-cyan to-primary-500 hover:from-accent-cyan/90 hover:to-primary-500/90 text-white font-semibold rounded-xl shadow-lg hover:shadow-accent-cyan/25 transition-all duration-300 border border-white/[0.05] backdrop-blur-sm font-plus-jakarta text-base",
+        className
+      )}
+    >
+      <Wallet className="h-5 w-5" />
+      Connect Wallet
+    </Button>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { Address } from 'viem';
+import { usePublicClient } from 'wagmi';
+import { getDeployment } from '@/lib/chains';
+import { getPoolEventHub, LiveEventListener, LiveEventType } from '@/lib/event-hub';
+import { isDemoMode } from '@/lib/demo-mode';
+import { getSimulatedMaelstrom } from '@/lib/simulated-contract-client';
+import { useNetworkState } from '@/providers/network-provider';
+
+/**
+ * Calls `onEvents` with each batch of new Maelstrom events on the chain being read, optionally limited to one pool
+ * token and/or some event types. Pass `token: null` to pause, e.g. while no token is selected. In demo mode the
+ * events come from the simulator.
+ */
+export function useLivePoolEvents(
+  filter: { token?: Address | null; types?: LiveEventType[] },
+  onEvents: LiveEventListener
+) {
+  const { chainId } = useNetworkState();
+  const publicClient = usePublicClient({ chainId });
+  const listener = useRef(onEvents);
+  useEffect(() => {
+    listener.current = onEvents;
+  });
+  const types = filter.types?.join(',');
+
+  useEffect(() => {
+    if (filter.token === null) return;
+    const eventTypes = types ? (types.split(',') as LiveEventType[]) : undefined;
+    if (isDemoMode()) {
+      return getSimulatedMaelstrom().subscribe({ token: filter.token, types: eventTypes }, (events) => listener.current(events));
+    }
+    const contractAddress = getDeployment(chainId)?.address;
+    if (!publicClient || !contractAddress) return;
+    const hub = getPoolEventHub(publicClient, chainId, contractAddress);
+    return hub.subscribe(
+      { token: filter.token, types: eventTypes },
+      (events) => listener.current(events)
+    );
+  }, [publicClient, chainId, filter.token, types]);
+}
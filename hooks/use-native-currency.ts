@@ -0,0 +1,10 @@
+import { useMemo } from 'react';
+import { getChainEntry } from '@/lib/chains';
+import { getNativeCurrencyToken, Token } from '@/types/token';
+import { useNetworkState } from '@/providers/network-provider';
+
+// Native currency of the chain reads go to, which is also the browsed chain when no wallet is connected
+export function useNativeCurrency(): Token {
+  const { chainId } = useNetworkState();
+  return useMemo(() => getNativeCurrencyToken(getChainEntry(chainId)?.chain), [chainId]);
+}
@@ -0,0 +1,50 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { IContractClient } from '@/types/contract';
+import { InitPool } from '@/types/pool';
+import { BuyRequest, DepositRequest, SellRequest, SwapRequest, WithdrawRequest } from '@/types/trades';
+import { invalidatePoolData } from '@/lib/query-keys';
+import { useContractClient, useContractScope } from '@/providers/contract-client-provider';
+
+/** A write through the shared client that marks the pools it touched stale once it is mined. */
+function usePoolMutation<TRequest, TResult>(
+  write: (client: IContractClient, request: TRequest) => Promise<TResult>,
+  touchedTokens: (request: TRequest) => string[]
+) {
+  const client = useContractClient();
+  const scope = useContractScope();
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (request: TRequest) => write(client, request),
+    onSuccess: (_, request) => invalidatePoolData(queryClient, scope, touchedTokens(request)),
+  });
+}
+
+export function useBuy() {
+  return usePoolMutation((client, request: BuyRequest) => client.buy(request), (request) => [request.token.address]);
+}
+
+export function useSell() {
+  return usePoolMutation((client, request: SellRequest) => client.sell(request), (request) => [request.token.address]);
+}
+
+export function useSwap() {
+  return usePoolMutation(
+    (client, request: SwapRequest) => client.swap(request),
+    (request) => [request.tokenIn.address, request.tokenOut.address]
+  );
+}
+
+export function useDeposit() {
+  return usePoolMutation((client, request: DepositRequest) => client.deposit(request), (request) => [request.token.address]);
+}
+
+export function useWithdraw() {
+  return usePoolMutation((client, request: WithdrawRequest) => client.withdraw(request), (request) => [request.token.address]);
+}
+
+export function useInitializePool() {
+  return usePoolMutation(
+    (client, request: InitPool) => client.initializePool(request),
+    (request) => [request.token]
+  );
+}
@@ -0,0 +1,226 @@
+import { useCallback } from 'react';
+import { keepPreviousData, queryOptions, useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Address } from 'viem';
+import { IContractClient } from '@/types/contract';
+import { Token } from '@/types/token';
+import { RowPool } from '@/types/pool';
+import { BuyTrade, Deposit, SellTrade, SwapTrade, Withdraw } from '@/types/trades';
+import { maelstromKeys } from '@/lib/query-keys';
+import { useContractClient, useContractScope } from '@/providers/contract-client-provider';
+
+// Prices decay between trades, so pool data goes stale quickly even without events
+const POOL_STALE_TIME = 15_000;
+const LIST_STALE_TIME = 30_000;
+// Rows fetched per getPools / getUserPools call
+const PAGE_SIZE = 10;
+
+/** Auction state of one pool; shared with imperative reads through `queryClient.fetchQuery`. */
+export function poolStateQuery(client: IContractClient, scope: string, token?: Token | null) {
+  return queryOptions({
+    queryKey: [...maelstromKeys.pool(scope, token?.address ?? ''), 'state'],
+    queryFn: () => client.getPoolState(token!),
+    enabled: !!token,
+    staleTime: POOL_STALE_TIME,
+  });
+}
+
+/** Pages of `getPools` / `getUserPools` (inclusive end index) until `count` rows are loaded. */
+async function fetchAllPages(count: number, fetchPage: (start: number, end: number) => Promise<RowPool[]>): Promise<RowPool[]> {
+  const pools: RowPool[] = [];
+  while (pools.length < count) {
+    const page = await fetchPage(pools.length, Math.min(pools.length + PAGE_SIZE, count) - 1);
+    if (page.length === 0) break;
+    pools.push(...page);
+  }
+  return pools;
+}
+
+export function useTokenMeta(address?: Address) {
+  const client = useContractClient();
+  const scope = useContractScope();
+  return useQuery({
+    queryKey: maelstromKeys.token(scope, address ?? ''),
+    queryFn: () => client.getToken(address!),
+    enabled: !!address,
+    // ERC20 metadata never changes
+    staleTime: Infinity,
+  });
+}
+
+/** Token with a Maelstrom pool at `address`, or null when there is none; for pasted addresses. */
+export function usePoolToken(address?: Address) {
+  const client = useContractClient();
+  const scope = useContractScope();
+  return useQuery({
+    queryKey: [...maelstromKeys.token(scope, address ?? ''), 'pool'],
+    queryFn: async () => ((await client.isPoolInstantiated(address!)) ? client.getToken(address!) : null),
+    enabled: !!address,
+    staleTime: LIST_STALE_TIME,
+  });
+}
+
+/** Wallet balances in base units, keyed by lowercase token address. Writes invalidate them with the pool data. */
+export function useTokenBalances(tokens: Token[], user?: Address) {
+  const client = useContractClient();
+  const scope = useContractScope();
+  return useQuery({
+    queryKey: [...maelstromKeys.balances(scope, user), tokens.map((token) => token.address.toLowerCase())],
+    queryFn: async () => {
+      const balances = await client.getBalances(tokens, user!);
+      return Object.fromEntries(tokens.map((token, index) => [token.address.toLowerCase(), balances[index]]));
+    },
+    enabled: !!user && tokens.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: POOL_STALE_TIME,
+  });
+}
+
+/** Full pool view for the pool page; the LP balance is the user's, or zero without one. */
+export function usePool(token?: Token | null, user?: Address) {
+  const client = useContractClient();
+  const scope = useContractScope();
+  return useQuery({
+    queryKey: [...maelstromKeys.pool(scope, token?.address ?? ''), 'detail', user?.toLowerCase()],
+    queryFn: () => client.getPool(token!, user),
+    enabled: !!token,
+    staleTime: POOL_STALE_TIME,
+  });
+}
+
+export function usePoolState(token?: Token | null) {
+  const client = useContractClient();
+  const scope = useContractScope();
+  return useQuery(poolStateQuery(client, scope, token));
+}
+
+/** Fetches a pool's state past the cache, e.g. to re-quote right before a trade; `usePoolState` observers get it too. */
+export function useFreshPoolState() {
+  const client = useContractClient();
+  const scope = useContractScope();
+  const queryClient = useQueryClient();
+  return useCallback(
+    (token: Token) => queryClient.fetchQuery({ ...poolStateQuery(client, scope, token), staleTime: 0 }),
+    [client, scope, queryClient]
+  );
+}
+
+export function useReserves(token?: Token | null) {
+  const client = useContractClient();
+  const scope = useContractScope();
+  return useQuery({
+    queryKey: [...maelstromKeys.pool(scope, token?.address ?? ''), 'reserves'],
+    queryFn: () => client.getReserves(token!),
+    enabled: !!token,
+    staleTime: POOL_STALE_TIME,
+  });
+}
+
+/** Current buy and sell price (wei per 1e18 token base units). */
+export function usePrices(token?: Token | null) {
+  const client = useContractClient();
+  const scope = useContractScope();
+  return useQuery({
+    queryKey: [...maelstromKeys.pool(scope, token?.address ?? ''), 'prices'],
+    queryFn: async () => {
+      const [buyPrice, sellPrice] = await Promise.all([client.getBuyPrice(token!), client.getSellPrice(token!)]);
+      return { buyPrice, sellPrice };
+    },
+    enabled: !!token,
+    staleTime: POOL_STALE_TIME,
+  });
+}
+
+/** Fees collected across every pool (wei). */
+export function useTotalFees() {
+  const client = useContractClient();
+  const scope = useContractScope();
+  return useQuery({
+    queryKey: maelstromKeys.totalFees(scope),
+    queryFn: () => client.getTotalFees(),
+    staleTime: LIST_STALE_TIME,
+  });
+}
+
+export function usePoolCount() {
+  const client = useContractClient();
+  const scope = useContractScope();
+  return useQuery({
+    queryKey: maelstromKeys.poolCount(scope),
+    queryFn: () => client.getPoolCount(),
+    staleTime: LIST_STALE_TIME,
+  });
+}
+
+/** Pool rows a page at a time, for infinite scrolling. Waits for the pool count to know where the list ends. */
+export function usePools(pageSize: number = PAGE_SIZE, enabled = true) {
+  const client = useContractClient();
+  const scope = useContractScope();
+  const { data: count } = usePoolCount();
+  return useInfiniteQuery({
+    queryKey: [...maelstromKeys.pools(scope), 'pages', pageSize, count],
+    queryFn: ({ pageParam }) => client.getPools(pageParam, Math.min(pageParam + pageSize, count!) - 1),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, pages) => {
+      const loaded = pages.reduce((total, page) => total + page.length, 0);
+      return lastPage.length > 0 && loaded < count! ? loaded : undefined;
+    },
+    enabled: enabled && count !== undefined && count > 0,
+    // A new pool changes the count and so the key; keep showing the old rows while the list reloads
+    placeholderData: keepPreviousData,
+    staleTime: LIST_STALE_TIME,
+  });
+}
+
+/** Pools the user holds LP tokens in, with their LP balances. */
+export function useUserPools(user?: Address) {
+  const client = useContractClient();
+  const scope = useContractScope();
+  return useQuery({
+    queryKey: maelstromKeys.userPools(scope, user),
+    queryFn: async () => {
+      const count = await client.getUserPoolCount(user!);
+      return { count, pools: await fetchAllPages(count, (start, end) => client.getUserPools(user!, start, end)) };
+    },
+    enabled: !!user,
+    staleTime: LIST_STALE_TIME,
+  });
+}
+
+interface PoolEventMap {
+  buy: BuyTrade;
+  sell: SellTrade;
+  swap: SwapTrade;
+  deposit: Deposit;
+  withdraw: Withdraw;
+}
+
+export type PoolEventKind = keyof PoolEventMap;
+
+const EVENT_FETCHERS: {
+  [K in PoolEventKind]: (client: IContractClient, fromBlock: number, toBlock: number, token?: Token, user?: Address) => Promise<PoolEventMap[K][]>;
+} = {
+  buy: (client, ...args) => client.getBuyTradeEventLogs(...args),
+  sell: (client, ...args) => client.getSellTradeEventLogs(...args),
+  swap: (client, ...args) => client.getSwapTradeEventLogs(...args),
+  deposit: (client, ...args) => client.getDepositEventLogs(...args),
+  withdraw: (client, ...args) => client.getWithdrawEventLogs(...args),
+};
+
+/** Events of one kind over the last `lookbackBlocks` blocks, optionally for one pool and/or user. */
+export function usePoolEvents<K extends PoolEventKind>(
+  kind: K,
+  options: { token?: Token; user?: Address; lookbackBlocks: number; enabled?: boolean }
+) {
+  const client = useContractClient();
+  const scope = useContractScope();
+  const { token, user, lookbackBlocks, enabled = true } = options;
+  return useQuery({
+    queryKey: [...maelstromKeys.events(scope), kind, token?.address.toLowerCase(), user?.toLowerCase(), lookbackBlocks],
+    queryFn: async (): Promise<PoolEventMap[K][]> => {
+      const toBlock = await client.getBlockNumber();
+      return EVENT_FETCHERS[kind](client, Math.max(0, toBlock - lookbackBlocks), toBlock, token, user);
+    },
+    enabled,
+    staleTime: LIST_STALE_TIME,
+  });
+}
@@ -0,0 +1,41 @@
+import { useCallback, useRef, useState } from 'react';
+import { SimulationResult } from '@/types/trades';
+import { toMaelstromError } from '@/lib/errors';
+
+/**
+ * Holds the latest pre-flight simulation for a preview modal.
+ * Only the most recent run is kept, so a slow simulation for an old amount never overwrites a newer one.
+ * Each run still resolves to its own result, for callers that act on it once it's done.
+ */
+export function useSimulation() {
+  const [simulation, setSimulation] = useState<SimulationResult | undefined>(undefined);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const runId = useRef(0);
+
+  const runSimulation = useCallback(async (simulate: () => Promise<SimulationResult>): Promise<SimulationResult> => {
+    const id = ++runId.current;
+    setIsSimulating(true);
+    setSimulation(undefined);
+    let result: SimulationResult;
+    try {
+      result = await simulate();
+    } catch (error) {
+      // Simulation infrastructure failed (no RPC, wrong network); don't block on it, just report
+      console.warn('Simulation failed to run:', error);
+      result = { success: true, simulated: false, needsApproval: false, error: toMaelstromError(error).message };
+    }
+    if (id === runId.current) {
+      setSimulation(result);
+      setIsSimulating(false);
+    }
+    return result;
+  }, []);
+
+  const resetSimulation = useCallback(() => {
+    runId.current++;
+    setSimulation(undefined);
+    setIsSimulating(false);
+  }, []);
+
+  return { simulation, isSimulating, runSimulation, resetSimulation };
+}
@@ -0,0 +1,33 @@
+import { useCallback, useMemo } from 'react';
+import { Address } from 'viem';
+import { useSearchParams } from 'next/navigation';
+import { isNativeToken, Token } from '@/types/token';
+import { parseSwapLink, SwapLink, swapLinkQuery } from '@/lib/swap-link';
+import { usePoolToken } from '@/hooks/use-pool-queries';
+import { useNativeCurrency } from '@/hooks/use-native-currency';
+
+/** The swap page's URL state, and a setter that rewrites the URL in place without adding history entries. */
+export function useSwapLink() {
+  const searchParams = useSearchParams();
+  const link = useMemo(() => parseSwapLink(searchParams), [searchParams]);
+  const setLink = useCallback((next: SwapLink) => {
+    const query = swapLinkQuery(next);
+    if (query === window.location.search.replace(/^\?/, '')) return;
+    window.history.replaceState(window.history.state, '', query ? `${window.location.pathname}?${query}` : window.location.pathname);
+  }, []);
+  return { link, setLink };
+}
+
+/**
+ * Token a link points at: the native currency for the zero address, otherwise the token of the pool at that address.
+ * `token` is null when there is no such pool; `pending` stays true until that is known.
+ */
+export function useLinkedToken(address?: Address): { token?: Token | null; pending: boolean } {
+  const nativeCurrency = useNativeCurrency();
+  const native = !!address && isNativeToken({ address });
+  const lookup = usePoolToken(address && !native ? address : undefined);
+  if (!address) return { pending: false };
+  if (native) return { token: nativeCurrency, pending: false };
+  if (lookup.isError) return { token: null, pending: false };
+  return { token: lookup.data, pending: lookup.data === undefined };
+}
@@ -1,24 +1,10 @@
 import { useState, useEffect } from 'react';
 import { TokenObject } from '@/components/tokens/token-picker';
+import { getChainEntry } from '@/lib/chains';
 
 // Cache object to store tokens by chainId
 const tokenCache: Record<number, TokenObject[]> = {};
 
-// Add testnet chain IDs
-const TESTNET_CHAIN_IDS = new Set([63, 5115]); // ETC Testnet, Base Goerli
-
-// Helper function to check if a chain is testnet
-const isTestnet = (chainId: number) => TESTNET_CHAIN_IDS.has(chainId);
-
-export const ChainIdToName: Record<number, string> = {
-  1: "ethereum",
-  61: "ethereum-classic",
-  2001: "cardano's-milkomeda",
-  137: "polygon-pos",
-  56: "binance-smart-chain",
-  8453: "base",
-};
-
 export function useTokenList(chainId: number) {
   const [tokens, setTokens] = useState<TokenObject[]>([]);
   const [loading, setLoading] = useState(false);
@@ -35,23 +21,23 @@ export function useTokenList(chainId: number) {
       setLoading(true);
       setError(null);
 
-      // Check if chain is testnet
-      if (isTestnet(chainId)) {
+      const entry = getChainEntry(chainId);
+      // Testnets have no token list
+      if (entry?.testnet) {
         setError(`Please manually input the token's contract address instead.`);
         setLoading(false);
         return;
       }
 
       // Check if chain is supported
-      if (!ChainIdToName[chainId]) {
+      if (!entry?.tokenListUrl) {
         setError(`Chain ID ${chainId} is not supported yet`);
         setLoading(false);
         return;
       }
 
       try {
-        const dataUrl = `https://raw.githubusercontent.com/StabilityNexus/TokenList/main/${ChainIdToName[chainId]}-tokens.json`;
-        const response = await fetch(dataUrl, {
+        const response = await fetch(entry.tokenListUrl, {
           headers: {
             Accept: "application/json",
           },
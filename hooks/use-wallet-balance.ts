@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { useGasPrice } from 'wagmi';
+import { isNativeToken, Token } from '@/types/token';
+import { max, ZERO } from '@/lib/fixed-point';
+import { useTokenBalances } from '@/hooks/use-pool-queries';
+import { useNetworkState } from '@/providers/network-provider';
+
+// Gas kept back when spending the whole native balance: room for an approval plus the trade itself
+const GAS_RESERVE_UNITS = BigInt(500_000);
+
+/**
+ * The account's balance of one token in base units, and how much of it a Max button may spend.
+ * Both are undefined without an account or token. Writes refresh them through the balances query.
+ */
+export function useWalletBalance(token?: Token | null) {
+  const { account, chainId } = useNetworkState();
+  const native = isNativeToken(token ?? undefined);
+  const tokens = useMemo(() => (token ? [token] : []), [token]);
+  const { data: balances } = useTokenBalances(tokens, account);
+  const { data: gasPrice } = useGasPrice({ chainId, query: { enabled: !!account && native } });
+
+  const raw = token ? balances?.[token.address.toLowerCase()] : undefined;
+  const balance = raw !== undefined ? BigInt(raw) : undefined;
+  const spendable =
+    balance !== undefined && native ? max(ZERO, balance - (gasPrice ?? ZERO) * GAS_RESERVE_UNITS) : balance;
+  return { balance, spendable };
+}
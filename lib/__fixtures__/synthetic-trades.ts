@@ -0,0 +1,46 @@
+import { BuyTrade, SellTrade } from "@/types/trades";
+import { Token } from "@/types/token";
+
+/**
+ * Synthetic BuyTrade / SellTrade events of one pool, in the shape the event indexer stores them: prices are wei per
+ * 1e18 token base units, amounts are wei, timestamps are ms. They are written by hand with round prices and a 10%
+ * auction reset, not captured from a deployed pool, so they pin down the model's arithmetic rather than prove it
+ * matches the chain.
+ */
+
+export const SYNTHETIC_RESET_PERCENTAGE = 10;
+
+export const SYNTHETIC_TOKEN: Token = {
+    address: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    name: "Fixture Token",
+    symbol: "FIX",
+    decimals: 18,
+};
+
+const buy = (timestamp: number, buyPrice: string, updatedBuyPrice: string, sellPrice: string, ethAmount: string): BuyTrade => ({
+    token: SYNTHETIC_TOKEN,
+    buyPrice,
+    updatedBuyPrice,
+    sellPrice,
+    ethAmount,
+    timestamp,
+});
+
+const sell = (timestamp: number, sellPrice: string, updatedSellPrice: string, buyPrice: string, ethAmount: string): SellTrade => ({
+    token: SYNTHETIC_TOKEN,
+    sellPrice,
+    updatedSellPrice,
+    buyPrice,
+    ethAmount,
+    timestamp,
+});
+
+// Oldest first
+export const SYNTHETIC_TRADES: (BuyTrade | SellTrade)[] = [
+    buy(1_717_000_000_000, "1000000000000000", "1100000000000000", "900000000000000", "250000000000000000"),
+    buy(1_717_000_600_000, "1050000000000000", "1155000000000000", "900000000000000", "100000000000000000"),
+    sell(1_717_001_200_000, "920000000000000", "828000000000000", "1120000000000000", "46000000000000000"),
+    sell(1_717_001_500_000, "850000000000000", "765000000000000", "1100000000000000", "8500000000000000"),
+    buy(1_717_003_000_000, "1080000000000000", "1188000000000000", "800000000000000", "540000000000000000"),
+    sell(1_717_003_300_000, "810000000000000", "729000000000000", "1170000000000000", "1620000000000000000"),
+];
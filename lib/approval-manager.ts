@@ -0,0 +1,229 @@
+import { Address, erc20Abi, Hex, hashDomain, maxUint256, parseAbi, parseSignature } from "viem";
+import { Config, UsePublicClientReturnType } from "wagmi";
+import { SignTypedDataMutateAsync, WriteContractMutateAsync } from "wagmi/query";
+import { AllowanceError, InsufficientFundsError, RpcRateLimitError, toMaelstromError, UserRejectedError } from "./errors";
+import { batchRead } from "./multicall";
+
+/** How much to approve when an allowance top-up is needed: just this trade, or once for good. */
+export type ApprovalMode = "exact" | "unlimited";
+
+const APPROVAL_MODE_KEY = "maelstrom:approval-mode";
+const PERMIT_PREFERENCE_KEY = "maelstrom:approval-permit";
+
+/** Permits are signed to expire shortly after the wallet prompt. */
+const PERMIT_DEADLINE_SECONDS = 20 * 60;
+
+const PERMIT_ABI = parseAbi([
+    "function nonces(address owner) view returns (uint256)",
+    "function DOMAIN_SEPARATOR() view returns (bytes32)",
+    "function version() view returns (string)",
+    "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+    "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+]);
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+} as const;
+
+const EIP712_DOMAIN_TYPES = {
+    EIP712Domain: [
+        { name: "name", type: "string" },
+        { name: "version", type: "string" },
+        { name: "chainId", type: "uint256" },
+        { name: "verifyingContract", type: "address" },
+    ],
+};
+
+interface PermitDomain {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: Address;
+}
+
+/** Saved exact/unlimited choice; defaults to exact. */
+export function getApprovalMode(): ApprovalMode {
+    if (typeof window === "undefined") return "exact";
+    return window.localStorage.getItem(APPROVAL_MODE_KEY) === "unlimited" ? "unlimited" : "exact";
+}
+
+export function setApprovalMode(mode: ApprovalMode): void {
+    if (typeof window === "undefined") return;
+    window.localStorage.setItem(APPROVAL_MODE_KEY, mode);
+}
+
+/** Whether the user opted into signing EIP-2612 permits where tokens support them; off by default. */
+export function getPermitPreference(): boolean {
+    if (typeof window === "undefined") return false;
+    return window.localStorage.getItem(PERMIT_PREFERENCE_KEY) === "true";
+}
+
+export function setPermitPreference(usePermit: boolean): void {
+    if (typeof window === "undefined") return;
+    window.localStorage.setItem(PERMIT_PREFERENCE_KEY, String(usePermit));
+}
+
+// Permit support per chain:token, null when the token has none. Token code doesn't change, so cache for the session.
+const permitDomains = new Map<string, Promise<PermitDomain | null>>();
+
+/**
+ * Makes sure `spender` may pull a token from the connected account before a write.
+ * Reads the current allowance and only asks the wallet when it is short, with a regular `approve`. The
+ * transaction is mined before returning.
+ *
+ * Maelstrom's entrypoints don't take a permit, so a permit means a signature plus a `permit()` transaction: one
+ * more prompt than `approve` and no gas saved. It is only used when the user opts in (see `getPermitPreference`),
+ * for the wallet prompt that shows the exact spender, amount and expiry.
+ */
+export class ApprovalManager {
+    private writeContract: WriteContractMutateAsync<Config, unknown>;
+    private signTypedData?: SignTypedDataMutateAsync<unknown>;
+    private publicClient: UsePublicClientReturnType;
+    private chainId: number;
+    private spender: Address;
+    private account?: Address;
+
+    constructor(
+        writeContract: WriteContractMutateAsync<Config, unknown>,
+        publicClient: UsePublicClientReturnType,
+        chainId: number,
+        spender: Address,
+        account?: Address,
+        signTypedData?: SignTypedDataMutateAsync<unknown>
+    ) {
+        this.writeContract = writeContract;
+        this.publicClient = publicClient;
+        this.chainId = chainId;
+        this.spender = spender;
+        this.account = account;
+        this.signTypedData = signTypedData;
+    }
+
+    /** Allowance the connected account has granted the spender. Zero when no account is known. */
+    async getAllowance(token: Address): Promise<bigint> {
+        if (!this.account || !this.publicClient) return BigInt(0);
+        return this.publicClient.readContract({
+            address: token,
+            abi: erc20Abi,
+            functionName: "allowance",
+            args: [this.account, this.spender],
+        });
+    }
+
+    /** Top up the allowance to at least `amount` if needed; resolves once the approval is mined. */
+    async ensureAllowance(
+        token: Address,
+        amount: bigint,
+        mode: ApprovalMode = getApprovalMode(),
+        usePermit: boolean = getPermitPreference()
+    ): Promise<void> {
+        try {
+            // Without a known account we can't read the allowance; approve as before rather than guess
+            if (this.account && (await this.getAllowance(token)) >= amount) return;
+            const value = mode === "unlimited" ? maxUint256 : amount;
+
+            const domain = usePermit && this.account && this.signTypedData ? await this.getPermitDomain(token) : null;
+            if (domain) {
+                try {
+                    await this.permit(token, value, domain);
+                    return;
+                } catch (error) {
+                    const err = toMaelstromError(error, "Token approval");
+                    if (err instanceof UserRejectedError) throw err;
+                    console.warn("[ApprovalManager] Permit failed, falling back to approve.", err.message);
+                }
+            }
+            await this.approve(token, value);
+        } catch (error) {
+            const err = toMaelstromError(error, "Token approval");
+            if (err instanceof UserRejectedError || err instanceof InsufficientFundsError || err instanceof RpcRateLimitError) throw err;
+            throw new AllowanceError(`Token approval failed: ${err.message}`, { cause: error, operation: "Token approval" });
+        }
+    }
+
+    private async approve(token: Address, value: bigint): Promise<void> {
+        const txHash = await this.writeContract({
+            address: token,
+            abi: erc20Abi,
+            functionName: "approve",
+            args: [this.spender, value],
+        });
+        await this.waitForSuccess(txHash);
+    }
+
+    private async permit(token: Address, value: bigint, domain: PermitDomain): Promise<void> {
+        const owner = this.account!;
+        const nonce = await this.publicClient!.readContract({ address: token, abi: PERMIT_ABI, functionName: "nonces", args: [owner] });
+        const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_DEADLINE_SECONDS);
+        const signature = await this.signTypedData!({
+            domain,
+            types: PERMIT_TYPES,
+            primaryType: "Permit",
+            message: { owner, spender: this.spender, value, nonce, deadline },
+        });
+        const { v, r, s, yParity } = parseSignature(signature);
+        const txHash = await this.writeContract({
+            address: token,
+            abi: PERMIT_ABI,
+            functionName: "permit",
+            args: [owner, this.spender, value, deadline, Number(v ?? BigInt(yParity + 27)), r, s],
+        });
+        await this.waitForSuccess(txHash);
+    }
+
+    // The follow-up call reads the allowance during gas estimation, so it must be mined first
+    private async waitForSuccess(txHash: Hex): Promise<void> {
+        const receipt = await this.publicClient!.waitForTransactionReceipt({ hash: txHash });
+        if (receipt.status === "reverted") throw new AllowanceError("Approval transaction reverted.");
+    }
+
+    private getPermitDomain(token: Address): Promise<PermitDomain | null> {
+        const key = `${this.chainId}:${token.toLowerCase()}`;
+        let domain = permitDomains.get(key);
+        if (!domain) {
+            domain = this.detectPermit(token).catch((error) => {
+                // Don't cache network failures as "no permit"
+                permitDomains.delete(key);
+                console.warn("[ApprovalManager] Permit detection failed.", toMaelstromError(error).message);
+                return null;
+            });
+            permitDomains.set(key, domain);
+        }
+        return domain;
+    }
+
+    /**
+     * EIP-2612 support: `nonces` and `DOMAIN_SEPARATOR` must exist, and the separator must match the domain we'd
+     * sign against (EIP-5267 `eip712Domain`, else `name` + `version`, else version "1"). A mismatch would make
+     * every permit revert, so those tokens use approve.
+     */
+    private async detectPermit(token: Address): Promise<PermitDomain | null> {
+        if (!this.publicClient) return null;
+        const [nonces, separator, eip712Domain, name, version] = await batchRead(this.publicClient, [
+            { address: token, abi: PERMIT_ABI, functionName: "nonces", args: [this.account!] },
+            { address: token, abi: PERMIT_ABI, functionName: "DOMAIN_SEPARATOR" },
+            { address: token, abi: PERMIT_ABI, functionName: "eip712Domain" },
+            { address: token, abi: erc20Abi, functionName: "name" },
+            { address: token, abi: PERMIT_ABI, functionName: "version" },
+        ]);
+        if (nonces.status === "failure" || separator.status === "failure") return null;
+
+        let domain: PermitDomain | undefined;
+        if (eip712Domain.status === "success") {
+            const [, domainName, domainVersion] = eip712Domain.result as readonly [Hex, string, string];
+            domain = { name: domainName, version: domainVersion, chainId: this.chainId, verifyingContract: token };
+        } else if (name.status === "success") {
+            const domainVersion = version.status === "success" ? String(version.result) : "1";
+            domain = { name: String(name.result), version: domainVersion, chainId: this.chainId, verifyingContract: token };
+        }
+        if (!domain) return null;
+        const expected = hashDomain({ domain, types: EIP712_DOMAIN_TYPES });
+        return expected.toLowerCase() === String(separator.result).toLowerCase() ? domain : null;
+    }
+}
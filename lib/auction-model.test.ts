@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { PoolState } from "@/types/pool";
+import { BuyTrade, SellTrade } from "@/types/trades";
+import { SYNTHETIC_RESET_PERCENTAGE, SYNTHETIC_TOKEN, SYNTHETIC_TRADES } from "./__fixtures__/synthetic-trades";
+import { backtest, priceAt, projectDecay, resetPrice, sellInputFor, simulateBuy, simulateSell } from "./auction-model";
+
+const isBuy = (trade: BuyTrade | SellTrade): trade is BuyTrade => "updatedBuyPrice" in trade;
+
+/** Pool as it stood right before `trade` filled: both sides at the prices the event reports. */
+function stateBefore(trade: BuyTrade | SellTrade): PoolState {
+    const side = (price: string) => ({
+        currentPrice: price,
+        lastPrice: price,
+        initialPrice: price,
+        finalPrice: price,
+        lastTradeTs: trade.timestamp,
+        decayedTime: 0,
+        decayedVolume: "0",
+    });
+    return {
+        token: SYNTHETIC_TOKEN,
+        reserve: { tokenReserve: (BigInt(10) ** BigInt(27)).toString(), ethReserve: (BigInt(10) ** BigInt(24)).toString() },
+        buy: side(trade.buyPrice),
+        sell: side(trade.sellPrice),
+        lastExchangeTs: trade.timestamp,
+        auctionResetPercentage: SYNTHETIC_RESET_PERCENTAGE,
+        lastUpdated: trade.timestamp,
+    };
+}
+
+describe("replaying synthetic trades", () => {
+    it.each(SYNTHETIC_TRADES.filter(isBuy))("reproduces the buy at $timestamp", (trade) => {
+        const quote = simulateBuy(stateBefore(trade), BigInt(trade.ethAmount));
+        expect(quote.tradePrice).toBe(BigInt(trade.buyPrice));
+        expect(quote.updatedBuyPrice).toBe(BigInt(trade.updatedBuyPrice));
+        expect(quote.updatedSellPrice).toBe(BigInt(trade.sellPrice));
+        expect(quote.exceedsReserve).toBe(false);
+    });
+
+    it.each(SYNTHETIC_TRADES.filter((trade): trade is SellTrade => !isBuy(trade)))(
+        "reproduces the sell at $timestamp",
+        (trade) => {
+            const state = stateBefore(trade);
+            const quote = simulateSell(state, sellInputFor(state, BigInt(trade.ethAmount)));
+            expect(quote.tradePrice).toBe(BigInt(trade.sellPrice));
+            expect(quote.amountOut).toBe(BigInt(trade.ethAmount));
+            expect(quote.updatedSellPrice).toBe(BigInt(trade.updatedSellPrice));
+            expect(quote.updatedBuyPrice).toBe(BigInt(trade.buyPrice));
+        }
+    );
+
+    it("backtests every trade within tolerance", () => {
+        expect(backtest(SYNTHETIC_TRADES, SYNTHETIC_RESET_PERCENTAGE)).toEqual({
+            trades: SYNTHETIC_TRADES.length,
+            matched: SYNTHETIC_TRADES.length,
+            maxErrorBps: BigInt(0),
+        });
+    });
+
+    it("flags a reset percentage the trades don't follow", () => {
+        const result = backtest(SYNTHETIC_TRADES, 5);
+        expect(result.matched).toBe(0);
+        expect(result.maxErrorBps).toBeGreaterThan(BigInt(400));
+    });
+
+    it("never sees a buy fill above the previous buy's reset price", () => {
+        const buys = SYNTHETIC_TRADES.filter(isBuy);
+        for (let i = 1; i < buys.length; i++) {
+            expect(BigInt(buys[i].buyPrice)).toBeLessThanOrEqual(BigInt(buys[i - 1].updatedBuyPrice));
+        }
+    });
+});
+
+describe("resetPrice", () => {
+    it("moves buys up and sells down by the reset percentage", () => {
+        expect(resetPrice(BigInt(1_000), 10, "up")).toBe(BigInt(1_100));
+        expect(resetPrice(BigInt(1_000), 10, "down")).toBe(BigInt(900));
+    });
+
+    it("floors a sell reset of 100% or more at zero", () => {
+        expect(resetPrice(BigInt(1_000), 100, "down")).toBe(BigInt(0));
+        expect(resetPrice(BigInt(1_000), 150, "down")).toBe(BigInt(0));
+    });
+});
+
+describe("decay", () => {
+    const side = {
+        currentPrice: "1000",
+        lastPrice: "1000",
+        initialPrice: "1000",
+        finalPrice: "500",
+        lastTradeTs: 1_000_000,
+        decayedTime: 100,
+        decayedVolume: "0",
+    };
+
+    it("moves linearly from initialPrice to finalPrice over the decay window", () => {
+        expect(priceAt(side, side.lastTradeTs)).toBe(BigInt(1000));
+        expect(priceAt(side, side.lastTradeTs + 50_000)).toBe(BigInt(750));
+        expect(priceAt(side, side.lastTradeTs + 100_000)).toBe(BigInt(500));
+        expect(priceAt(side, side.lastTradeTs + 1_000_000)).toBe(BigInt(500));
+    });
+
+    it("projects the decay to the end of the window and stops once it closes", () => {
+        expect(projectDecay(side, side.lastTradeTs + 20_000)).toEqual({
+            startTs: side.lastTradeTs + 20_000,
+            startPrice: BigInt(1000),
+            endTs: side.lastTradeTs + 100_000,
+            endPrice: BigInt(500),
+        });
+        expect(projectDecay(side, side.lastTradeTs + 100_000)).toBeNull();
+    });
+});
@@ -0,0 +1,186 @@
+import { AuctionSide, PoolState } from "@/types/pool";
+import { BuyTrade, SellTrade } from "@/types/trades";
+import { mulDiv, priceRatio, shareBps, tokenToWei, weiToToken, ZERO } from "./fixed-point";
+
+/**
+ * Client-side model of Maelstrom's price rules, built from a decoded PoolState:
+ *
+ * - Each side runs its own reverse dutch auction. Between trades its price moves linearly from `initialPrice`
+ *   to `finalPrice` over `decayedTime` seconds after that side's last trade, then stays at `finalPrice`.
+ * - A trade fills entirely at the current price of its side (`priceBuy` / `priceSell`), so the amount out
+ *   doesn't depend on trade size; the price the contract charges is exact.
+ * - After filling, the traded side resets away from the trader by `auctionResetPercentage`: a buy raises the buy
+ *   price, a sell lowers the sell price. The other side is left alone.
+ * - A swap is a sell of `tokenIn` into ETH followed by a buy of `tokenOut` with the proceeds.
+ *
+ * Trades can't take more than the pool holds, so outputs are checked against the reserves. `projectDecay` gives
+ * the path a price takes while nobody trades. `backtest` replays indexed `BuyTrade` / `SellTrade` events against
+ * the reset rule to check the model against the chain.
+ */
+
+const PERCENT = BigInt(100);
+
+export interface TradeSimulation {
+    amountIn: bigint;
+    amountOut: bigint;
+    // Price the trade fills at (wei per 1e18 token base units)
+    tradePrice: bigint;
+    updatedBuyPrice: bigint;
+    updatedSellPrice: bigint;
+    // Move of the traded side's price caused by this trade, in basis points
+    priceImpactBps: bigint;
+    // Output is more than the pool holds; the contract would revert
+    exceedsReserve: boolean;
+}
+
+export interface SwapSimulation {
+    amountIn: bigint;
+    ethAmount: bigint;
+    amountOut: bigint;
+    sell: TradeSimulation;
+    buy: TradeSimulation;
+    // Combined impact of both legs on the effective exchange rate, in basis points
+    priceImpactBps: bigint;
+    exceedsReserve: boolean;
+}
+
+export interface DecayProjection {
+    startTs: number;
+    startPrice: bigint;
+    // When the decay window closes and the price settles at `endPrice`
+    endTs: number;
+    endPrice: bigint;
+}
+
+export interface BacktestResult {
+    trades: number;
+    // Trades whose updated price the model reproduced to within `toleranceBps`
+    matched: number;
+    // Largest deviation between modelled and emitted updated price, in basis points
+    maxErrorBps: bigint;
+}
+
+/** Price of one auction side at `atMs` if nobody trades before then. */
+export function priceAt(side: AuctionSide, atMs: number): bigint {
+    const initial = BigInt(side.initialPrice);
+    const final = BigInt(side.finalPrice);
+    const elapsed = BigInt(Math.max(Math.floor((atMs - side.lastTradeTs) / 1000), 0));
+    const duration = BigInt(side.decayedTime);
+    if (duration === ZERO || elapsed >= duration) return final;
+    return final >= initial
+        ? initial + mulDiv(final - initial, elapsed, duration, "down")
+        : initial - mulDiv(initial - final, elapsed, duration, "down");
+}
+
+/**
+ * Where a side's price goes if nobody trades: from its current on-chain price at `nowMs` to `finalPrice` when the
+ * decay window closes. Anchored on the current price rather than `priceAt`, so it starts where the chart ends.
+ * Null once the price has settled.
+ */
+export function projectDecay(side: AuctionSide, nowMs: number): DecayProjection | null {
+    const startPrice = BigInt(side.currentPrice);
+    const endPrice = BigInt(side.finalPrice);
+    const endTs = side.lastTradeTs + side.decayedTime * 1000;
+    if (side.lastTradeTs === 0 || endTs <= nowMs || startPrice === endPrice) return null;
+    return { startTs: nowMs, startPrice, endTs, endPrice };
+}
+
+/** Price a side resets to after a trade at `price`: up for buys, down for sells. */
+export function resetPrice(price: bigint, resetPercentage: number, direction: "up" | "down"): bigint {
+    const reset = BigInt(resetPercentage);
+    return direction === "up"
+        ? mulDiv(price, PERCENT + reset, PERCENT, "up")
+        : mulDiv(price, reset >= PERCENT ? ZERO : PERCENT - reset, PERCENT, "down");
+}
+
+function impactBps(before: bigint, after: bigint): bigint {
+    return shareBps(after > before ? after - before : before - after, before);
+}
+
+/** Spend `ethIn` wei on the pool's token. */
+export function simulateBuy(state: PoolState, ethIn: bigint): TradeSimulation {
+    const tradePrice = BigInt(state.buy.currentPrice);
+    const amountOut = weiToToken(ethIn, tradePrice, "down");
+    const updatedBuyPrice = resetPrice(tradePrice, state.auctionResetPercentage, "up");
+    return {
+        amountIn: ethIn,
+        amountOut,
+        tradePrice,
+        updatedBuyPrice,
+        updatedSellPrice: BigInt(state.sell.currentPrice),
+        priceImpactBps: impactBps(tradePrice, updatedBuyPrice),
+        exceedsReserve: amountOut > BigInt(state.reserve.tokenReserve),
+    };
+}
+
+/** Sell `amountIn` token base units for ETH. */
+export function simulateSell(state: PoolState, amountIn: bigint): TradeSimulation {
+    const tradePrice = BigInt(state.sell.currentPrice);
+    const amountOut = tokenToWei(amountIn, tradePrice, "down");
+    const updatedSellPrice = resetPrice(tradePrice, state.auctionResetPercentage, "down");
+    return {
+        amountIn,
+        amountOut,
+        tradePrice,
+        updatedBuyPrice: BigInt(state.buy.currentPrice),
+        updatedSellPrice,
+        priceImpactBps: impactBps(tradePrice, updatedSellPrice),
+        exceedsReserve: amountOut > BigInt(state.reserve.ethReserve),
+    };
+}
+
+/** Swap `amountIn` of the first pool's token for the second pool's token, routed through ETH. */
+export function simulateSwap(stateIn: PoolState, stateOut: PoolState, amountIn: bigint): SwapSimulation {
+    const sell = simulateSell(stateIn, amountIn);
+    const buy = simulateBuy(stateOut, sell.amountOut);
+    // Rate the next swap of this pair would get against this one's: sell/buy moves compound
+    const rateBefore = priceRatio(sell.tradePrice, buy.tradePrice);
+    const rateAfter = priceRatio(sell.updatedSellPrice, buy.updatedBuyPrice);
+    return {
+        amountIn,
+        ethAmount: sell.amountOut,
+        amountOut: buy.amountOut,
+        sell,
+        buy,
+        priceImpactBps: impactBps(rateBefore, rateAfter),
+        exceedsReserve: sell.exceedsReserve || buy.exceedsReserve,
+    };
+}
+
+/** Input needed to receive `amountOut` tokens from a buy, rounded up. */
+export function buyInputFor(state: PoolState, amountOut: bigint): bigint {
+    return tokenToWei(amountOut, BigInt(state.buy.currentPrice), "up");
+}
+
+/** Token input needed to receive `amountOut` wei from a sell, rounded up. */
+export function sellInputFor(state: PoolState, amountOut: bigint): bigint {
+    return weiToToken(amountOut, BigInt(state.sell.currentPrice), "up");
+}
+
+/** Token input needed to receive `amountOut` of the second pool's token from a swap, rounded up. */
+export function swapInputFor(stateIn: PoolState, stateOut: PoolState, amountOut: bigint): bigint {
+    return sellInputFor(stateIn, buyInputFor(stateOut, amountOut));
+}
+
+/**
+ * Replay indexed trades through the reset rule: for each trade, compare the updated price the model predicts
+ * from the fill price with the one the contract emitted.
+ */
+export function backtest(
+    trades: (BuyTrade | SellTrade)[],
+    resetPercentage: number,
+    toleranceBps: bigint = BigInt(1)
+): BacktestResult {
+    let matched = 0;
+    let maxErrorBps = ZERO;
+    for (const trade of trades) {
+        const isBuy = "updatedBuyPrice" in trade;
+        const tradePrice = BigInt(isBuy ? trade.buyPrice : trade.sellPrice);
+        const emitted = BigInt(isBuy ? trade.updatedBuyPrice : trade.updatedSellPrice);
+        const predicted = resetPrice(tradePrice, resetPercentage, isBuy ? "up" : "down");
+        const errorBps = impactBps(emitted, predicted);
+        if (errorBps <= toleranceBps) matched++;
+        if (errorBps > maxErrorBps) maxErrorBps = errorBps;
+    }
+    return { trades: trades.length, matched, maxErrorBps };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+import { BlockTimeResolver } from "./block-time";
+
+/** Chain without a registry entry, so the resolver starts from the default 12s block time. */
+const UNKNOWN_CHAIN = 424242;
+
+/**
+ * Block timestamps (s) with an irregular cadence: bursts of 1–3s blocks, stalls of minutes and a long quiet stretch,
+ * from a fixed seed so failures reproduce.
+ */
+function irregularTimestamps(count: number): number[] {
+    let seed = 7;
+    const next = () => (seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31) / 2 ** 31;
+    const times = [1_600_000_000];
+    for (let i = 1; i < count; i++) {
+        const roll = next();
+        const gap = i > count / 2 && i < (count * 3) / 4 ? 300 : roll < 0.7 ? 1 + Math.floor(next() * 3) : roll < 0.95 ? 15 : 600;
+        times.push(times[i - 1] + gap);
+    }
+    return times;
+}
+
+function resolverFor(times: number[]) {
+    const publicClient = {
+        getBlockNumber: vi.fn(async () => BigInt(times.length - 1)),
+        getBlock: vi.fn(async ({ blockNumber }: { blockNumber: bigint }) => ({ timestamp: BigInt(times[Number(blockNumber)]) })),
+    };
+    const resolver = new BlockTimeResolver(publicClient as unknown as ConstructorParameters<typeof BlockTimeResolver>[0], UNKNOWN_CHAIN);
+    return { resolver, publicClient };
+}
+
+/** Reference answer: first block at or after `timestamp` (ms), head when there is none. */
+const firstBlockAtOrAfter = (times: number[], timestamp: number) => {
+    const index = times.findIndex((time) => time * 1000 >= timestamp);
+    return index === -1 ? times.length - 1 : index;
+};
+
+describe("getBlockForTimestamp", () => {
+    const times = irregularTimestamps(5_000);
+
+    it("finds the first block at or after the timestamp when block times are irregular", async () => {
+        const targets = [times[0] - 60, times[0], times[1] - 0.5, times[123], times[2_600] + 1, times[4_999] - 1, times[4_999] + 60];
+        for (let i = 0; i < 40; i++) targets.push(times[0] + ((times[4_999] - times[0]) * i) / 40 + 0.25);
+        for (const seconds of targets) {
+            const { resolver } = resolverFor(times);
+            expect(await resolver.getBlockForTimestamp(seconds * 1000), `at ${seconds}`).toBe(firstBlockAtOrAfter(times, seconds * 1000));
+        }
+    });
+
+    it("keeps the number of block lookups logarithmic when the estimate lands far off", async () => {
+        const { resolver, publicClient } = resolverFor(times);
+        const target = (times[3_000] + 1) * 1000;
+        expect(await resolver.getBlockForTimestamp(target)).toBe(firstBlockAtOrAfter(times, target));
+        expect(publicClient.getBlock.mock.calls.length).toBeLessThan(40);
+    });
+});
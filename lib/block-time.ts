@@ -0,0 +1,139 @@
+import { UsePublicClientReturnType } from "wagmi";
+import { getChainEntry } from "./chains";
+
+type PublicClient = NonNullable<UsePublicClientReturnType>;
+
+const DEFAULT_BLOCK_TIME_SECONDS = 12;
+
+/** Typical ms per block for a chain, e.g. to poll about once per block. */
+export function getAverageBlockTime(chainId: number): number {
+    return (getChainEntry(chainId)?.blockTimeSeconds ?? DEFAULT_BLOCK_TIME_SECONDS) * 1000;
+}
+
+/** Secant steps before bracketing the boundary around the estimate; each step costs one getBlock. */
+const MAX_REFINEMENT_STEPS = 6;
+
+/**
+ * Block timestamp lookups for one chain. Timestamps (ms) are cached forever, concurrent lookups of
+ * the same block share one request, and timestamp → block uses the chain's block time instead of a
+ * binary search from genesis.
+ */
+export class BlockTimeResolver {
+    private publicClient: PublicClient;
+    private chainId: number;
+    private timestamps = new Map<number, number>();
+    private inFlight = new Map<number, Promise<number>>();
+
+    constructor(publicClient: PublicClient, chainId: number) {
+        this.publicClient = publicClient;
+        this.chainId = chainId;
+    }
+
+    setPublicClient(publicClient: PublicClient): void {
+        this.publicClient = publicClient;
+    }
+
+    /** Timestamp in ms for a block. */
+    async getTimestamp(blockNumber: number): Promise<number> {
+        const cached = this.timestamps.get(blockNumber);
+        if (cached !== undefined) return cached;
+        const pending = this.inFlight.get(blockNumber);
+        if (pending) return pending;
+
+        const request = this.publicClient
+            .getBlock({ blockNumber: BigInt(blockNumber) })
+            .then((block) => {
+                const timestamp = Number(block.timestamp) * 1000;
+                this.timestamps.set(blockNumber, timestamp);
+                return timestamp;
+            })
+            .finally(() => this.inFlight.delete(blockNumber));
+        this.inFlight.set(blockNumber, request);
+        return request;
+    }
+
+    /**
+     * Timestamps for blocks inside [fromBlock, toBlock]. Only the two endpoints are fetched; blocks in
+     * between are linearly interpolated unless already cached. Good to a few seconds on chains with a
+     * steady block cadence, which is all the charts and activity views need.
+     */
+    async getTimestampsInRange(blockNumbers: number[], fromBlock: number, toBlock: number): Promise<Map<number, number>> {
+        const result = new Map<number, number>();
+        const unique = Array.from(new Set(blockNumbers));
+        if (unique.length === 0) return result;
+        if (unique.length <= 2 || fromBlock === toBlock) {
+            const timestamps = await Promise.all(unique.map((n) => this.getTimestamp(n)));
+            unique.forEach((n, i) => result.set(n, timestamps[i]));
+            return result;
+        }
+
+        const [fromTime, toTime] = await Promise.all([this.getTimestamp(fromBlock), this.getTimestamp(toBlock)]);
+        const msPerBlock = (toTime - fromTime) / (toBlock - fromBlock);
+        unique.forEach((n) => {
+            result.set(n, this.timestamps.get(n) ?? Math.round(fromTime + (n - fromBlock) * msPerBlock));
+        });
+        return result;
+    }
+
+    /** First block whose timestamp is >= `timestamp` (ms). Clamped to [0, head]. */
+    async getBlockForTimestamp(timestamp: number): Promise<number> {
+        const head = Number(await this.publicClient.getBlockNumber());
+        const headTime = await this.getTimestamp(head);
+        if (timestamp >= headTime) return head;
+
+        let msPerBlock = getAverageBlockTime(this.chainId);
+        let known = { block: head, time: headTime };
+        let guess = head;
+
+        for (let step = 0; step < MAX_REFINEMENT_STEPS; step++) {
+            guess = Math.min(head, Math.max(0, Math.round(known.block - (known.time - timestamp) / msPerBlock)));
+            if (guess === known.block) break;
+            const guessTime = await this.getTimestamp(guess);
+            if (Math.abs(guessTime - timestamp) <= msPerBlock * 2) break;
+            // Re-estimate the local block time from the two nearest samples
+            msPerBlock = Math.max(1, Math.abs(known.time - guessTime) / Math.abs(known.block - guess));
+            known = { block: guess, time: guessTime };
+        }
+
+        // Bracket the boundary between a block before `timestamp` and one at or after it, doubling the step while
+        // the estimate turns out further off, then bisect to the first block at or after it
+        let low: number;
+        let high: number;
+        if ((await this.getTimestamp(guess)) >= timestamp) {
+            high = guess;
+            for (let step = 1; ; step *= 2) {
+                if (high === 0) return 0;
+                low = Math.max(0, high - step);
+                if ((await this.getTimestamp(low)) < timestamp) break;
+                high = low;
+            }
+        } else {
+            low = guess;
+            for (let step = 1; ; step *= 2) {
+                high = Math.min(head, low + step);
+                if ((await this.getTimestamp(high)) >= timestamp) break;
+                low = high;
+            }
+        }
+        while (high - low > 1) {
+            const mid = Math.floor((low + high) / 2);
+            if ((await this.getTimestamp(mid)) >= timestamp) high = mid;
+            else low = mid;
+        }
+        return high;
+    }
+}
+
+const resolvers = new Map<number, BlockTimeResolver>();
+
+/** Shared resolver per chain, so the timestamp cache survives component remounts. */
+export function getBlockTimeResolver(publicClient: PublicClient, chainId: number): BlockTimeResolver {
+    let resolver = resolvers.get(chainId);
+    if (!resolver) {
+        resolver = new BlockTimeResolver(publicClient, chainId);
+        resolvers.set(chainId, resolver);
+    } else {
+        resolver.setPublicClient(publicClient);
+    }
+    return resolver;
+}
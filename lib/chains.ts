@@ -0,0 +1,102 @@
+import { Address, Chain, Hash } from "viem";
+import { base, bsc, classic, mainnet, polygon } from "viem/chains";
+
+/** A Maelstrom contract on one chain. */
+export interface MaelstromDeployment {
+    address: Address;
+    /**
+     * Deployment block; event scans start here. `"unknown"` where it hasn't been recorded yet: the event indexer
+     * then looks it up on chain as the first block holding the contract's code.
+     */
+    startBlock: number | "unknown";
+}
+
+/** Everything the app knows about one chain. */
+export interface ChainEntry {
+    /** RPC URLs, block explorer and native currency. */
+    chain: Chain;
+    deployment: MaelstromDeployment;
+    /** Token list used by the token picker; testnets have none, users paste addresses instead. */
+    tokenListUrl?: string;
+    testnet: boolean;
+    /** Typical seconds per block; only a starting guess, refined against real blocks. */
+    blockTimeSeconds: number;
+}
+
+const mordor = {
+    id: 63,
+    name: "Mordor",
+    nativeCurrency: { name: "Mordor Eth", symbol: "METC", decimals: 18 },
+    rpcUrls: {
+        default: { http: ["https://rpc.mordor.etccooperative.org"] },
+    },
+    blockExplorers: {
+        default: { name: "Mordor Explorer", url: "https://etc-mordor.blockscout.com" },
+    },
+    contracts: {
+        multicall3: { address: "0xcA11bde05977b3631167028862bE2a173976CA11" },
+    },
+    testnet: true,
+} as const satisfies Chain;
+
+const citreaTestnet = {
+    id: 5115,
+    name: "Citrea Testnet",
+    nativeCurrency: { name: "Citrea Eth", symbol: "CBTC", decimals: 18 },
+    rpcUrls: {
+        default: { http: ["https://rpc.testnet.citrea.xyz"] },
+    },
+    blockExplorers: {
+        default: { name: "Citrea Explorer", url: "https://explorer.testnet.citrea.xyz" },
+    },
+    testnet: true,
+} as const satisfies Chain;
+
+const tokenList = (name: string) => `https://raw.githubusercontent.com/StabilityNexus/TokenList/main/${name}-tokens.json`;
+
+// Deployment blocks aren't recorded for any chain yet; replace "unknown" with the block once it is known
+const MAINNET_DEPLOYMENT: MaelstromDeployment = { address: "0x897CeF988A12AB77A12fd8f2Ca74F0B978d302CF", startBlock: "unknown" };
+
+/** Supported chains; wallets are offered them in this order. */
+export const CHAIN_REGISTRY: readonly [ChainEntry, ...ChainEntry[]] = [
+    {
+        chain: mordor,
+        deployment: { address: "0x39A04312F7640FA2B84833c96fC439D88207c9CD", startBlock: "unknown" },
+        testnet: true,
+        blockTimeSeconds: 13,
+    },
+    {
+        chain: citreaTestnet,
+        deployment: { address: "0x7B1E47C3C6b1eea13D06566f078DcBaEF5B63Ee5", startBlock: "unknown" },
+        testnet: true,
+        blockTimeSeconds: 2,
+    },
+    { chain: mainnet, deployment: MAINNET_DEPLOYMENT, tokenListUrl: tokenList("ethereum"), testnet: false, blockTimeSeconds: 12 },
+    { chain: polygon, deployment: MAINNET_DEPLOYMENT, tokenListUrl: tokenList("polygon-pos"), testnet: false, blockTimeSeconds: 2 },
+    { chain: base, deployment: MAINNET_DEPLOYMENT, tokenListUrl: tokenList("base"), testnet: false, blockTimeSeconds: 2 },
+    { chain: classic, deployment: MAINNET_DEPLOYMENT, tokenListUrl: tokenList("ethereum-classic"), testnet: false, blockTimeSeconds: 13 },
+    { chain: bsc, deployment: MAINNET_DEPLOYMENT, tokenListUrl: tokenList("binance-smart-chain"), testnet: false, blockTimeSeconds: 3 },
+];
+
+/** Chain used for reads while no wallet is connected. */
+export const DEFAULT_CHAIN_ID: number = mordor.id;
+
+/** The registry's chains in wagmi's non-empty tuple form. */
+export const SUPPORTED_CHAINS = CHAIN_REGISTRY.map((entry) => entry.chain) as [Chain, ...Chain[]];
+
+const entriesById = new Map(CHAIN_REGISTRY.map((entry) => [entry.chain.id, entry]));
+
+export function getChainEntry(chainId?: number): ChainEntry | undefined {
+    return chainId === undefined ? undefined : entriesById.get(chainId);
+}
+
+/** Maelstrom deployment on a chain, or undefined where the protocol is not deployed. */
+export function getDeployment(chainId?: number): MaelstromDeployment | undefined {
+    return getChainEntry(chainId)?.deployment;
+}
+
+/** Block explorer page for a transaction; undefined when the chain has no known explorer. */
+export function explorerTxUrl(chainId: number | undefined, txHash: Hash | string): string | undefined {
+    const url = getChainEntry(chainId)?.chain.blockExplorers?.default.url;
+    return url ? `${url.replace(/\/+$/, "")}/tx/${txHash}` : undefined;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from "vitest";
+import { Address, encodeErrorResult, parseAbi, zeroAddress } from "viem";
+import { UsePublicClientReturnType } from "wagmi";
+import { Token } from "@/types/token";
+import { ContractClient } from "./contract-client";
+import { describeError } from "./error-toast";
+import { ContractRevertError, PoolNotInstantiatedError } from "./errors";
+
+const MORDOR = 63;
+const ACCOUNT = "0x00000000000000000000000000000000000000a1" as Address;
+const TOKEN: Token = { address: "0x00000000000000000000000000000000000000b2", symbol: "TKN", name: "Token", decimals: 18 };
+const REVERT = encodeErrorResult({ abi: parseAbi(["error Error(string)"]), errorName: "Error", args: ["Pool does not exist"] });
+
+/** Client whose node reverts every simulated call and reports `poolToken` for the token as given. */
+function clientWithPool(poolToken: Address) {
+    const publicClient = {
+        simulateCalls: vi.fn(async () => ({ results: [{ status: "failure", data: REVERT, logs: [] }] })),
+        readContract: vi.fn(async () => poolToken),
+    };
+    const client = new ContractClient(
+        vi.fn(),
+        publicClient as unknown as UsePublicClientReturnType,
+        MORDOR,
+        ACCOUNT,
+        undefined,
+        MORDOR
+    );
+    return { client, publicClient };
+}
+
+const buyRequest = { token: TOKEN, amountIn: "1000", minimumAmountToBuy: "0" };
+
+describe("ContractClient reverts on tokens without a pool", () => {
+    it("reports PoolNotInstantiatedError from the dry run when the pool doesn't exist", async () => {
+        const { client, publicClient } = clientWithPool(zeroAddress);
+        const error = await client.buy(buyRequest).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(PoolNotInstantiatedError);
+        expect(error).toMatchObject({ token: TOKEN.address, operation: "Buy" });
+        expect(describeError(error).recovery).toEqual({ key: "createPool", label: "Create pool" });
+        expect(publicClient.readContract).toHaveBeenCalledWith(expect.objectContaining({ functionName: "poolToken", args: [TOKEN.address] }));
+    });
+
+    it("shows the same error in the preview simulation", async () => {
+        const { client } = clientWithPool(zeroAddress);
+        expect(await client.simulateBuy(buyRequest)).toMatchObject({
+            success: false,
+            error: "Pool has not been created for this token yet.",
+        });
+    });
+
+    it("keeps the revert reason when the pool exists", async () => {
+        const { client } = clientWithPool("0x00000000000000000000000000000000000000c3");
+        const error = await client.buy(buyRequest).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(ContractRevertError);
+        expect(error).toMatchObject({ reason: "Pool does not exist", errorName: undefined });
+    });
+});
@@ -1,66 +1,66 @@
-import { ABI, CONTRACT_ADDRESSES, IContractClient } from "@/types/contract";
-import { InitPool, InitPoolResult, Pool, PoolFeesEvent, Reserve, RowPool } from "@/types/pool";
-import { LiquidityPoolToken, Token } from "@/types/token";
-import { BuyRequest, BuyResult, BuyTrade, Deposit, DepositRequest, DepositResult, SellRequest, SellResult, SellTrade, SwapRequest, SwapResult, SwapTrade, Withdraw, WithdrawRequest, WithdrawResult } from "@/types/trades";
-import { Address, erc20Abi, formatEther, parseAbiItem, parseEther } from "viem";
+import { ABI, IContractClient } from "@/types/contract";
+import { AuctionSide, InitPool, InitPoolResult, Pool, PoolFeesEvent, PoolState, Reserve, RowPool } from "@/types/pool";
+import { isNativeToken, LiquidityPoolToken, Token } from "@/types/token";
+import { BuyRequest, BuyResult, BuyTrade, Deposit, DepositRequest, DepositResult, SellRequest, SellResult, SellTrade, SimulationResult, SwapRequest, SwapResult, SwapTrade, Withdraw, WithdrawRequest, WithdrawResult } from "@/types/trades";
+import { Address, ContractEventName, decodeFunctionData, encodeFunctionData, erc20Abi, GetEventArgs, Hash, Hex, isAddress, Log, parseEventLogs, TransactionReceipt } from "viem";
 import { Config, UsePublicClientReturnType } from "wagmi";
-import { WriteContractMutateAsync } from "wagmi/query";
+import { SignTypedDataMutateAsync, WriteContractMutateAsync } from "wagmi/query";
+import { ApprovalManager } from "./approval-manager";
+import { getBlockTimeResolver } from "./block-time";
+import { AllowanceError, ContractRevertError, fromRevertData, InsufficientFundsError, isExpectedReadFailure, MaelstromError, PoolNotInstantiatedError, toMaelstromError, UnsupportedChainError, WalletNotConnectedError } from "./errors";
+import { getTokenRegistry } from "./token-registry";
+import { getDeployment } from "./chains";
+import { getEventIndexer, IndexedEvent, MaelstromEventType } from "./event-indexer";
+import { batchRead, ReadCall, ReadResult } from "./multicall";
+import { average, sum, tokenToWei, totalLiquidity } from "./fixed-point";
 
-/** Thrown when chainId is not in CONTRACT_ADDRESSES — UI should show "Wrong network" */
+/** Error code of UnsupportedChainError — UI should show "Wrong network" */
 export const UNSUPPORTED_CHAIN = "UNSUPPORTED_CHAIN";
 
-/** Fatal: publicClient not available (e.g. no provider). */
-const PUBLIC_CLIENT_UNAVAILABLE = "PUBLIC_CLIENT_UNAVAILABLE";
-
-function getErrorMessage(err: unknown): string {
-    if (err instanceof Error) return err.message;
-    return String(err);
-}
-
-/**
- * Expected/recoverable read failures: no data, contract not deployed, no logs, pool not instantiated.
- * These get safe fallbacks. Fatal errors (wrong chain, missing config, ABI, no publicClient) still throw.
- */
-function isExpectedReadFailure(error: unknown): boolean {
-    const msg = getErrorMessage(error).toLowerCase();
-    return (
-        msg.includes("returned no data") ||
-        msg.includes("no data (0x)") ||
-        (msg.includes("contract") && (msg.includes("not deployed") || msg.includes("could not be found"))) ||
-        msg.includes("no logs") ||
-        msg.includes("no events") ||
-        (msg.includes("pool") && msg.includes("not instantiated")) ||
-        msg.includes("execution reverted") && (msg.includes("0x") || msg.includes("no data"))
-    );
-}
-
 export class ContractClient implements IContractClient {
     contractAddress: Address;
     writeContract: WriteContractMutateAsync<Config, unknown>;
     publicClient: UsePublicClientReturnType;
+    /** Connected wallet; used as msg.sender for simulations. */
+    account?: Address;
     private chainId: number;
+    /** Chain the wallet is on; writes are refused while it differs from `chainId`. */
+    private walletChainId?: number;
+    private approvals: ApprovalManager;
 
-    constructor(writeContract: WriteContractMutateAsync<Config, unknown>, publicClient: UsePublicClientReturnType, chainId?: number) {
-        this.chainId = chainId ?? 63;
-        const addr = CONTRACT_ADDRESSES[this.chainId];
-        if (addr === undefined) {
-            console.error("[ContractClient] Unsupported chain.", { chainId: this.chainId });
-            throw new Error(UNSUPPORTED_CHAIN);
+    constructor(writeContract: WriteContractMutateAsync<Config, unknown>, publicClient: UsePublicClientReturnType, chainId?: number, account?: Address, signTypedData?: SignTypedDataMutateAsync<unknown>, walletChainId?: number) {
+        const addr = getDeployment(chainId)?.address;
+        if (chainId === undefined || addr === undefined) {
+            console.error("[ContractClient] Unsupported chain.", { chainId });
+            throw new UnsupportedChainError(chainId);
         }
+        this.chainId = chainId;
+        this.walletChainId = walletChainId ?? chainId;
+        this.account = account;
         this.contractAddress = addr;
         this.writeContract = writeContract;
         this.publicClient = publicClient;
+        this.approvals = new ApprovalManager(writeContract, publicClient, this.chainId, addr, account, signTypedData);
     }
 
     /** Call before any read. Throws on wrong network or missing publicClient (fatal). */
     private ensureCanRead(): void {
-        if (CONTRACT_ADDRESSES[this.chainId] === undefined) {
+        if (getDeployment(this.chainId) === undefined) {
             console.error("[ContractClient] Unsupported chain.", { chainId: this.chainId });
-            throw new Error(UNSUPPORTED_CHAIN);
+            throw new UnsupportedChainError(this.chainId);
         }
         if (!this.publicClient) {
             console.error("[ContractClient] publicClient is undefined.");
-            throw new Error(PUBLIC_CLIENT_UNAVAILABLE);
+            throw new MaelstromError("PUBLIC_CLIENT_UNAVAILABLE", "Public client is not available.");
+        }
+    }
+
+    /** Call before any write. The wallet must be on the chain this client reads from, or the tx would go elsewhere. */
+    private ensureCanWrite(): void {
+        if (!this.account) throw new WalletNotConnectedError();
+        if (this.walletChainId !== this.chainId) {
+            console.error("[ContractClient] Write refused, wallet is on another chain.", { chainId: this.chainId, walletChainId: this.walletChainId });
+            throw new UnsupportedChainError(this.walletChainId);
         }
     }
 
@@ -72,26 +72,343 @@ export class ContractClient implements IContractClient {
         try {
             return await fn();
         } catch (error) {
-            if (isExpectedReadFailure(error)) {
-                console.warn(`[ContractClient] Expected read failure (${methodName}), returning fallback. chainId=${this.chainId}`, getErrorMessage(error));
+            const err = toMaelstromError(error);
+            if (isExpectedReadFailure(err)) {
+                console.warn(`[ContractClient] Expected read failure (${methodName}), returning fallback. chainId=${this.chainId}`, err.message);
                 return fallback;
             }
             console.error(`[ContractClient] Fatal read error (${methodName}). chainId=${this.chainId}`, error);
-            throw error;
+            throw err;
+        }
+    }
+
+    /** Batch many reads into as few RPC requests as possible (Multicall3 where available). */
+    private async readBatch(calls: ReadCall[]): Promise<ReadResult[]> {
+        this.ensureCanRead();
+        return batchRead(this.publicClient!, calls);
+    }
+
+    /** Unwrap one batched result with the same expected-vs-fatal semantics as safeRead. */
+    private unwrapRead<T>(methodName: string, result: ReadResult, fallback: T): T {
+        if (result.status === "success") return (result.result ?? fallback) as T;
+        const err = toMaelstromError(result.error);
+        if (isExpectedReadFailure(err)) {
+            console.warn(`[ContractClient] Expected read failure (${methodName}), returning fallback. chainId=${this.chainId}`, err.message);
+            return fallback;
+        }
+        console.error(`[ContractClient] Fatal read error (${methodName}). chainId=${this.chainId}`, result.error);
+        throw err;
+    }
+
+    /** Per-pool market reads: priceBuy, priceSell, reserves. */
+    private poolMarketCalls(token: Address): ReadCall[] {
+        return [
+            { address: this.contractAddress, abi: ABI, functionName: "priceBuy", args: [token] },
+            { address: this.contractAddress, abi: ABI, functionName: "priceSell", args: [token] },
+            { address: this.contractAddress, abi: ABI, functionName: "reserves", args: [token] },
+        ];
+    }
+
+    private emptyMarket(): { buy: string; sell: string; reserve: Reserve } {
+        return { buy: "0", sell: "0", reserve: { tokenReserve: "0", ethReserve: "0" } };
+    }
+
+    private decodeReserves(methodName: string, result: ReadResult): Reserve {
+        const data = this.unwrapRead<readonly [bigint, bigint] | null>(methodName, result, null);
+        if (!data) return { tokenReserve: "0", ethReserve: "0" };
+        return { tokenReserve: data[1].toString(), ethReserve: data[0].toString() };
+    }
+
+    /**
+     * `pools(address)` struct to a PoolState. The struct interleaves the two sides
+     * (lastBuyPrice, lastSellPrice, lastExchangeTimestamp, initialSellPrice, initialBuyPrice, finalBuyPrice,
+     * finalSellPrice, lastBuyTimestamp, lastSellTimestamp, decayedBuyTime, decayedSellTime, decayedBuyVolume,
+     * decayedSellVolume); timestamps come back in seconds.
+     */
+    private decodePoolState(
+        token: Token,
+        data: readonly bigint[] | null,
+        market: { buy: string; sell: string; reserve: Reserve },
+        resetPercentage: bigint
+    ): PoolState {
+        const field = (index: number) => data?.[index] ?? BigInt(0);
+        const side = (currentPrice: string, last: number, initial: number, final: number, ts: number, time: number, volume: number): AuctionSide => ({
+            currentPrice,
+            lastPrice: field(last).toString(),
+            initialPrice: field(initial).toString(),
+            finalPrice: field(final).toString(),
+            lastTradeTs: Number(field(ts)) * 1000,
+            decayedTime: Number(field(time)),
+            decayedVolume: field(volume).toString(),
+        });
+        return {
+            token,
+            reserve: market.reserve,
+            buy: side(market.buy, 0, 4, 5, 7, 9, 11),
+            sell: side(market.sell, 1, 3, 6, 8, 10, 12),
+            lastExchangeTs: Number(field(2)) * 1000,
+            auctionResetPercentage: Number(resetPercentage),
+            lastUpdated: Date.now(),
+        };
+    }
+
+    /** Metadata for many ERC20s via the shared per-chain registry; order matches `tokens`. */
+    async getTokens(tokens: Address[]): Promise<Token[]> {
+        this.ensureCanRead();
+        return getTokenRegistry(this.chainId).getTokens(this.publicClient!, tokens);
+    }
+
+    /**
+     * LP token data for many pools in two batched round trips (poolToken, then supply/balance/metadata).
+     * `balance` is the user's, or "0" without a user.
+     */
+    private async getLPTokens(tokens: Token[], user?: Address): Promise<LiquidityPoolToken[]> {
+        const lpAddressResults = await this.readBatch(
+            tokens.map((token) => ({ address: this.contractAddress, abi: ABI, functionName: "poolToken", args: [token.address] }))
+        );
+        const lpAddresses = lpAddressResults.map((r) => {
+            if (r.status === "failure") throw toMaelstromError(r.error);
+            if (!r.result) throw new Error(`Error fetching LP token data: No LP token found for the given token.`);
+            return r.result as Address;
+        });
+        const perLp = user ? 2 : 1;
+        const [results, lpMetadata] = await Promise.all([
+            this.readBatch(
+                lpAddresses.flatMap((lp): ReadCall[] => [
+                    { address: lp, abi: erc20Abi, functionName: "totalSupply" },
+                    ...(user ? [{ address: lp, abi: erc20Abi, functionName: "balanceOf", args: [user] }] : []),
+                ])
+            ),
+            this.getTokens(lpAddresses),
+        ]);
+        return lpAddresses.map((lp, index) => {
+            const [totalSupply, balance] = results.slice(index * perLp, index * perLp + perLp);
+            if (totalSupply.status === "failure") throw toMaelstromError(totalSupply.error);
+            if (balance?.status === "failure") throw toMaelstromError(balance.error);
+            return {
+                ...lpMetadata[index],
+                totalSupply: String(totalSupply.result),
+                balance: balance ? String(balance.result) : "0",
+            };
+        });
+    }
+
+    /** Build list rows for the given pool tokens with batched reads instead of one call per field. */
+    private async buildRowPools(addresses: Address[], user?: Address): Promise<RowPool[]> {
+        const perPool = 3;
+        const [results, tokens] = await Promise.all([
+            this.readBatch(addresses.flatMap((addr) => this.poolMarketCalls(addr))),
+            this.getTokens(addresses),
+        ]);
+        const rows = addresses.map((addr, index) => {
+            const [buy, sell, reserves] = results.slice(index * perPool, index * perPool + perPool);
+            const token = tokens[index];
+            const buyPrice = String(this.unwrapRead<bigint | string>("getBuyPrice", buy, "0"));
+            const sellPrice = String(this.unwrapRead<bigint | string>("getSellPrice", sell, "0"));
+            const reserve = this.decodeReserves("getReserves", reserves);
+            return {
+                token,
+                buyPrice,
+                sellPrice,
+                totalLiquidity: this.getTotalLiquidity(this.getAvgPrice(buyPrice, sellPrice), reserve),
+            };
+        });
+        if (!user) return rows;
+        const lpTokens = await this.getLPTokens(rows.map((row) => row.token), user);
+        return rows.map((row, index) => ({ ...row, lpToken: lpTokens[index] }));
+    }
+
+    /** Wait until the transaction is mined. Throws ContractRevertError if it reverted on-chain. */
+    private async waitForReceipt(txHash: Hash, operation: string): Promise<TransactionReceipt> {
+        this.ensureCanRead();
+        const receipt = await this.publicClient!.waitForTransactionReceipt({ hash: txHash });
+        if (receipt.status === "reverted") {
+            throw new ContractRevertError({ reason: "Transaction reverted on-chain." }, { operation });
         }
+        return receipt;
+    }
+
+    /** Decoded args of the `eventName` log the Maelstrom contract emitted in this receipt. */
+    private getReceiptEvent<N extends ContractEventName<typeof ABI>>(receipt: TransactionReceipt, eventName: N): GetEventArgs<typeof ABI, N, { EnableUnion: false; IndexedOnly: false; Required: true }> {
+        const [log] = parseEventLogs({ abi: ABI, logs: receipt.logs, eventName, strict: true }).filter(
+            (log) => log.address.toLowerCase() === this.contractAddress.toLowerCase()
+        );
+        if (!log) throw new MaelstromError("UNKNOWN", `${eventName} event not found in transaction ${receipt.transactionHash}.`);
+        return log.args as GetEventArgs<typeof ABI, N, { EnableUnion: false; IndexedOnly: false; Required: true }>;
+    }
+
+    /** Current allowance granted by the connected account to the Maelstrom contract. */
+    private async getAllowance(token: Address): Promise<bigint> {
+        this.ensureCanRead();
+        return this.approvals.getAllowance(token);
     }
 
-    private async approveToken(token: string, amount: bigint): Promise<void> {
+    /**
+     * Dry-run a write as the connected account, including the approval it would need.
+     * Prefers eth_simulateV1 (approve + call in one block, with the call's logs); falls back to eth_call when the
+     * node lacks it, which can only verify calls that need no approval. `simulated` is false when nothing could be
+     * verified; `error` is the decoded revert when the write would fail.
+     */
+    private async dryRun(
+        operation: string,
+        functionName: string,
+        data: Hex,
+        value: bigint | undefined,
+        approval: { token: Address; amount: bigint } | undefined
+    ): Promise<{ simulated: boolean; needsApproval: boolean; error?: MaelstromError; logs?: Log[] }> {
+        this.ensureCanRead();
+        if (!this.account) return { simulated: false, needsApproval: false };
+        const needsApproval = approval ? (await this.getAllowance(approval.token)) < approval.amount : false;
+
+        const calls = [
+            ...(needsApproval && approval
+                ? [{ to: approval.token, data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [this.contractAddress, approval.amount] }) }]
+                : []),
+            { to: this.contractAddress, data, value },
+        ];
         try {
-            await this.writeContract({
-                address: token as Address,
-                abi: erc20Abi,
-                functionName: 'approve',
-                args: [this.contractAddress, amount]
-            })
+            const { results } = await this.publicClient!.simulateCalls({ account: this.account, calls });
+            const [approvalResult] = results;
+            if (needsApproval && approvalResult.status === "failure") {
+                return { simulated: true, needsApproval, error: new AllowanceError(undefined, { operation }) };
+            }
+            const result = results[results.length - 1];
+            if (result.status === "failure") {
+                return { simulated: true, needsApproval, error: await this.explainRevert(fromRevertData(result.data, functionName, operation), data) };
+            }
+            return { simulated: true, needsApproval, logs: result.logs ?? [] };
+        } catch (error) {
+            console.warn(`[ContractClient] eth_simulateV1 unavailable (${operation}), falling back to eth_call.`, toMaelstromError(error).message);
+        }
+
+        if (needsApproval) return { simulated: false, needsApproval };
+        try {
+            await this.publicClient!.call({ account: this.account, to: this.contractAddress, data, value });
+            return { simulated: true, needsApproval };
         } catch (error) {
-            throw new Error(`Token approval failed: ${(error as Error).message}`);
+            const err = toMaelstromError(error, operation);
+            if (err instanceof ContractRevertError || err instanceof AllowanceError || err instanceof InsufficientFundsError || err instanceof PoolNotInstantiatedError) {
+                return { simulated: true, needsApproval, error: await this.explainRevert(err, data) };
+            }
+            return { simulated: false, needsApproval };
+        }
+    }
+
+    /**
+     * The contract rejects calls on a token without a pool with a plain `require` message, which isn't part of its
+     * ABI. A revert without a custom error is therefore checked against the pools the call touches, and becomes
+     * PoolNotInstantiatedError when one of them doesn't exist.
+     */
+    private async explainRevert(error: MaelstromError, data: Hex): Promise<MaelstromError> {
+        if (!(error instanceof ContractRevertError) || error.errorName) return error;
+        const { functionName, args } = decodeFunctionData({ abi: ABI, data });
+        if (functionName === "initializePool") return error;
+        const tokens = ((args ?? []) as readonly unknown[]).filter((arg): arg is Address => typeof arg === "string" && isAddress(arg));
+        try {
+            for (const token of tokens) {
+                if (!(await this.isPoolInstantiated(token))) {
+                    return new PoolNotInstantiatedError(token, { cause: error, operation: error.operation });
+                }
+            }
+        } catch (lookupError) {
+            console.warn("[ContractClient] Pool lookup after a revert failed.", toMaelstromError(lookupError).message);
+        }
+        return error;
+    }
+
+    /** `dryRun` reported for the preview modal, with exact amounts picked from the emitted event. */
+    private async simulateWrite<N extends ContractEventName<typeof ABI>>(
+        operation: string,
+        functionName: string,
+        data: Hex,
+        value: bigint | undefined,
+        approval: { token: Address; amount: bigint } | undefined,
+        eventName: N,
+        pick: (args: GetEventArgs<typeof ABI, N, { EnableUnion: false; IndexedOnly: false; Required: true }>) => Partial<SimulationResult>
+    ): Promise<SimulationResult> {
+        const { simulated, needsApproval, error, logs } = await this.dryRun(operation, functionName, data, value, approval);
+        if (error) {
+            return {
+                success: false,
+                simulated,
+                needsApproval,
+                error: error.message,
+                errorName: error instanceof ContractRevertError ? error.errorName : undefined,
+            };
         }
+        const [log] = parseEventLogs({ abi: ABI, logs: logs ?? [], eventName, strict: true });
+        return {
+            success: true,
+            simulated,
+            needsApproval,
+            ...(log ? pick(log.args as GetEventArgs<typeof ABI, N, { EnableUnion: false; IndexedOnly: false; Required: true }>) : {}),
+        };
+    }
+
+    /**
+     * Dry-run the write right before any wallet prompt, then top up the allowance it needs. A revert is thrown
+     * before the user signs anything, including the approval, instead of letting them pay gas for either.
+     */
+    private async preflight(
+        operation: string,
+        functionName: string,
+        data: Hex,
+        value: bigint | undefined,
+        approval?: { token: Address; amount: bigint }
+    ): Promise<void> {
+        const { simulated, error } = await this.dryRun(operation, functionName, data, value, approval);
+        if (error) throw error;
+        if (!simulated) console.warn(`[ContractClient] Preflight inconclusive (${operation}), continuing.`);
+        if (approval) await this.approvals.ensureAllowance(approval.token, approval.amount);
+    }
+
+    async simulateBuy(buyReq: BuyRequest): Promise<SimulationResult> {
+        const data = encodeFunctionData({ abi: ABI, functionName: "buy", args: [buyReq.token.address, BigInt(buyReq.minimumAmountToBuy)] });
+        return this.simulateWrite("Buy", "buy", data, BigInt(buyReq.amountIn), undefined, "BuyTrade", (args) => ({
+            amountOut: args.amountToken.toString(),
+            ethAmount: args.amountEther.toString(),
+        }));
+    }
+
+    async simulateSell(sellReq: SellRequest): Promise<SimulationResult> {
+        const data = encodeFunctionData({ abi: ABI, functionName: "sell", args: [sellReq.token.address, BigInt(sellReq.amountIn), BigInt(sellReq.minimumEthAmount)] });
+        const approval = { token: sellReq.token.address, amount: BigInt(sellReq.amountIn) };
+        return this.simulateWrite("Sell", "sell", data, undefined, approval, "SellTrade", (args) => ({
+            amountOut: args.amountEther.toString(),
+            tokenAmount: args.amountToken.toString(),
+        }));
+    }
+
+    async simulateSwap(swapReq: SwapRequest): Promise<SimulationResult> {
+        const data = encodeFunctionData({
+            abi: ABI,
+            functionName: "swap",
+            args: [swapReq.tokenIn.address, swapReq.tokenOut.address, BigInt(swapReq.amountIn), BigInt(swapReq.minimumTokenOut)],
+        });
+        const approval = { token: swapReq.tokenIn.address, amount: BigInt(swapReq.amountIn) };
+        return this.simulateWrite("Swap", "swap", data, undefined, approval, "SwapTrade", (args) => ({
+            amountOut: args.amountTokenBought.toString(),
+        }));
+    }
+
+    async simulateDeposit(depositReq: DepositRequest): Promise<SimulationResult> {
+        const data = encodeFunctionData({ abi: ABI, functionName: "deposit", args: [depositReq.token.address] });
+        const approval = { token: depositReq.token.address, amount: BigInt(depositReq.tokenAmount) };
+        return this.simulateWrite("Deposit", "deposit", data, BigInt(depositReq.ethAmount), approval, "Deposit", (args) => ({
+            lpTokens: args.lpTokensMinted.toString(),
+            ethAmount: args.amountEther.toString(),
+            tokenAmount: args.amountToken.toString(),
+        }));
+    }
+
+    async simulateWithdraw(withdrawReq: WithdrawRequest): Promise<SimulationResult> {
+        const data = encodeFunctionData({ abi: ABI, functionName: "withdraw", args: [withdrawReq.token.address, BigInt(withdrawReq.lpTokenAmount)] });
+        const approval = { token: withdrawReq.lpToken.address, amount: BigInt(withdrawReq.lpTokenAmount) };
+        return this.simulateWrite("Withdraw", "withdraw", data, undefined, approval, "Withdraw", (args) => ({
+            lpTokens: args.lpTokensBurned.toString(),
+            ethAmount: args.amountEther.toString(),
+            tokenAmount: args.amountToken.toString(),
+        }));
     }
 
     async isPoolInstantiated(token: Address): Promise<boolean> {
@@ -108,13 +425,14 @@ export class ContractClient implements IContractClient {
 
     async initializePool(initPool: InitPool): Promise<InitPoolResult> {
         try {
-            const result: InitPoolResult = {
-                success: true,
-                txHash: '',
-                timestamp: Date.now(),
-                error: ''
-            }
-            await this.approveToken(initPool.token, BigInt(initPool.tokenAmount));
+            this.ensureCanWrite();
+            await this.preflight(
+                "Create pool",
+                "initializePool",
+                encodeFunctionData({ abi: ABI, functionName: 'initializePool', args: [initPool.token as Address, BigInt(initPool.tokenAmount), BigInt(initPool.initialBuyPrice), BigInt(initPool.initialSellPrice)] }),
+                BigInt(initPool.ethAmount),
+                { token: initPool.token as Address, amount: BigInt(initPool.tokenAmount) }
+            );
             const txHash = await this.writeContract({
                 address: this.contractAddress,
                 abi: ABI,
@@ -122,23 +440,34 @@ export class ContractClient implements IContractClient {
                 args: [initPool.token as Address, BigInt(initPool.tokenAmount), BigInt(initPool.initialBuyPrice), BigInt(initPool.initialSellPrice)],
                 value: BigInt(initPool.ethAmount)
             });
-            result.txHash = txHash;
-            return result;
+            const receipt = await this.waitForReceipt(txHash, "Create pool");
+            const event = this.getReceiptEvent(receipt, "PoolInitialized");
+            return {
+                success: true,
+                txHash,
+                ethAmount: event.amountEther.toString(),
+                tokenAmount: event.amountToken.toString(),
+                initialBuyPrice: event.initialPriceBuy.toString(),
+                initialSellPrice: event.initialPriceSell.toString(),
+                gasUsed: receipt.gasUsed.toString(),
+                timestamp: Date.now(),
+                error: ''
+            };
         } catch (error) {
-            throw new Error(`Pool initialization failed: ${(error as Error).message}`);
+            throw toMaelstromError(error, "Create pool");
         }
     }
 
     async deposit(depositReq: DepositRequest): Promise<DepositResult> {
         try {
-            const result: DepositResult = {
-                success: true,
-                depositRequest: depositReq,
-                txHash: '',
-                timestamp: Date.now(),
-                error: ''
-            }
-            await this.approveToken(depositReq.token.address, BigInt(depositReq.tokenAmount));
+            this.ensureCanWrite();
+            await this.preflight(
+                "Deposit",
+                "deposit",
+                encodeFunctionData({ abi: ABI, functionName: 'deposit', args: [depositReq.token.address as Address] }),
+                BigInt(depositReq.ethAmount),
+                { token: depositReq.token.address, amount: BigInt(depositReq.tokenAmount) }
+            );
             const txHash = await this.writeContract({
                 address: this.contractAddress,
                 abi: ABI,
@@ -146,68 +475,104 @@ export class ContractClient implements IContractClient {
                 args: [depositReq.token.address as Address],
                 value: BigInt(depositReq.ethAmount)
             });
-            result.txHash = txHash;
-            return result;
+            const receipt = await this.waitForReceipt(txHash, "Deposit");
+            const event = this.getReceiptEvent(receipt, "Deposit");
+            return {
+                success: true,
+                depositRequest: depositReq,
+                txHash,
+                ethAmount: event.amountEther.toString(),
+                tokenAmount: event.amountToken.toString(),
+                lpTokensMinted: event.lpTokensMinted.toString(),
+                gasUsed: receipt.gasUsed.toString(),
+                timestamp: Date.now(),
+                error: ''
+            };
         } catch (error) {
-            throw new Error(`Deposit failed: ${(error as Error).message}`);
+            throw toMaelstromError(error, "Deposit");
         }
     }
 
     async withdraw(withdrawReq: WithdrawRequest): Promise<WithdrawResult> {
         try {
-            const result: WithdrawResult = {
-                success: true,
-                txHash: '',
-                timestamp: Date.now(),
-                error: '',
-                withdrawRequest: withdrawReq
-            };
-            await this.approveToken(withdrawReq.lpToken.address, BigInt(withdrawReq.lpTokenAmount));
+            this.ensureCanWrite();
+            await this.preflight(
+                "Withdraw",
+                "withdraw",
+                encodeFunctionData({ abi: ABI, functionName: 'withdraw', args: [withdrawReq.token.address, BigInt(withdrawReq.lpTokenAmount)] }),
+                undefined,
+                { token: withdrawReq.lpToken.address, amount: BigInt(withdrawReq.lpTokenAmount) }
+            );
             const txHash = await this.writeContract({
                 address: this.contractAddress,
                 abi: ABI,
                 functionName: 'withdraw',
                 args: [withdrawReq.token.address, BigInt(withdrawReq.lpTokenAmount)]
             });
-            result.txHash = txHash;
-            return result;
+            const receipt = await this.waitForReceipt(txHash, "Withdraw");
+            const event = this.getReceiptEvent(receipt, "Withdraw");
+            return {
+                success: true,
+                txHash,
+                ethAmount: event.amountEther.toString(),
+                tokenAmount: event.amountToken.toString(),
+                lpTokensBurnt: event.lpTokensBurned.toString(),
+                gasUsed: receipt.gasUsed.toString(),
+                timestamp: Date.now(),
+                error: '',
+                withdrawRequest: withdrawReq
+            };
         } catch (error) {
-            throw new Error(`Withdraw failed: ${(error as Error).message}`);
+            throw toMaelstromError(error, "Withdraw");
         }
     }
 
     async swap(swapReq: SwapRequest): Promise<SwapResult> {
         try {
-            const result: SwapResult = {
-                success: true,
-                txHash: '',
-                timestamp: Date.now(),
-                error: '',
-                swapRequest: swapReq
-            };
-            await this.approveToken(swapReq.tokenIn.address as Address, BigInt(swapReq.amountIn));
+            this.ensureCanWrite();
+            await this.preflight(
+                "Swap",
+                "swap",
+                encodeFunctionData({ abi: ABI, functionName: 'swap', args: [swapReq.tokenIn.address, swapReq.tokenOut.address, BigInt(swapReq.amountIn), BigInt(swapReq.minimumTokenOut)] }),
+                undefined,
+                { token: swapReq.tokenIn.address, amount: BigInt(swapReq.amountIn) }
+            );
             const txHash = await this.writeContract({
                 address: this.contractAddress,
                 abi: ABI,
                 functionName: 'swap',
                 args: [swapReq.tokenIn.address, swapReq.tokenOut.address, BigInt(swapReq.amountIn), BigInt(swapReq.minimumTokenOut)]
             });
-            result.txHash = txHash;
-            return result;
+            const receipt = await this.waitForReceipt(txHash, "Swap");
+            const event = this.getReceiptEvent(receipt, "SwapTrade");
+            return {
+                success: true,
+                txHash,
+                amountIn: event.amountTokenSold.toString(),
+                amountOut: event.amountTokenBought.toString(),
+                tradeSellPrice: event.tradeSellPrice.toString(),
+                updatedSellPrice: event.updatedSellPrice.toString(),
+                tradeBuyPrice: event.tradeBuyPrice.toString(),
+                updatedBuyPrice: event.updatedBuyPrice.toString(),
+                gasUsed: receipt.gasUsed.toString(),
+                timestamp: Date.now(),
+                error: '',
+                swapRequest: swapReq
+            };
         } catch (error) {
-            throw new Error(`Swap failed: ${(error as Error).message}`);
+            throw toMaelstromError(error, "Swap");
         }
     }
 
     async buy(buyReq: BuyRequest): Promise<BuyResult> {
         try {
-            const result: BuyResult = {
-                success: true,
-                txHash: '',
-                buyRequest: buyReq,
-                amountOut: '',
-                timestamp: Date.now(),
-            }
+            this.ensureCanWrite();
+            await this.preflight(
+                "Buy",
+                "buy",
+                encodeFunctionData({ abi: ABI, functionName: 'buy', args: [buyReq.token.address, BigInt(buyReq.minimumAmountToBuy)] }),
+                BigInt(buyReq.amountIn)
+            );
             const txHash = await this.writeContract({
                 address: this.contractAddress,
                 abi: ABI,
@@ -215,105 +580,89 @@ export class ContractClient implements IContractClient {
                 args: [buyReq.token.address, BigInt(buyReq.minimumAmountToBuy)],
                 value: BigInt(buyReq.amountIn)
             });
-            result.txHash = txHash;
-            return result;
+            const receipt = await this.waitForReceipt(txHash, "Buy");
+            const event = this.getReceiptEvent(receipt, "BuyTrade");
+            return {
+                success: true,
+                txHash,
+                buyRequest: buyReq,
+                amountOut: event.amountToken.toString(),
+                tradeBuyPrice: event.tradeBuyPrice.toString(),
+                updatedBuyPrice: event.updatedBuyPrice.toString(),
+                sellPrice: event.sellPrice.toString(),
+                gasUsed: receipt.gasUsed.toString(),
+                timestamp: Date.now(),
+            };
         } catch (error) {
-            throw new Error(`Buy failed: ${(error as Error).message}`);
+            throw toMaelstromError(error, "Buy");
         }
     }
 
     async sell(sellReq: SellRequest): Promise<SellResult> {
         try {
-            const result: SellResult = {
-                success: true,
-                txHash: '',
-                sellRequest: sellReq,
-                amountOut: '',
-                timestamp: Date.now(),
-            }
-            await this.approveToken(sellReq.token.address, BigInt(sellReq.amountIn));
+            this.ensureCanWrite();
+            await this.preflight(
+                "Sell",
+                "sell",
+                encodeFunctionData({ abi: ABI, functionName: 'sell', args: [sellReq.token.address, BigInt(sellReq.amountIn), BigInt(sellReq.minimumEthAmount)] }),
+                undefined,
+                { token: sellReq.token.address, amount: BigInt(sellReq.amountIn) }
+            );
             const txHash = await this.writeContract({
                 address: this.contractAddress,
                 abi: ABI,
                 functionName: 'sell',
                 args: [sellReq.token.address, BigInt(sellReq.amountIn), BigInt(sellReq.minimumEthAmount)]
             })
-            result.txHash = txHash;
-            return result;
+            const receipt = await this.waitForReceipt(txHash, "Sell");
+            const event = this.getReceiptEvent(receipt, "SellTrade");
+            return {
+                success: true,
+                txHash,
+                sellRequest: sellReq,
+                amountOut: event.amountEther.toString(),
+                tradeSellPrice: event.tradeSellPrice.toString(),
+                updatedSellPrice: event.updatedSellPrice.toString(),
+                buyPrice: event.buyPrice.toString(),
+                gasUsed: receipt.gasUsed.toString(),
+                timestamp: Date.now(),
+            };
         } catch (error) {
-            throw new Error(`Sell failed: ${(error as Error).message}`);
+            throw toMaelstromError(error, "Sell");
         }
     }
 
     async getToken(token: Address): Promise<Token> {
-        try {
-            const [decimals, symbol, name] = await Promise.all([
-                this.publicClient?.readContract({
-                    address: token as Address,
-                    abi: erc20Abi,
-                    functionName: 'decimals',
-                    args: []
-                }),
-                this.publicClient?.readContract({
-                    address: token as Address,
-                    abi: erc20Abi,
-                    functionName: 'symbol',
-                    args: []
-                }),
-                this.publicClient?.readContract({
-                    address: token as Address,
-                    abi: erc20Abi,
-                    functionName: 'name',
-                    args: []
-                })
-            ]);
-
-            return {
-                address: token,
-                symbol: symbol as string,
-                name: name as string,
-                decimals: decimals as number,
-            }
-        } catch (error) {
-            throw new Error(`Error fetching token data: ${(error as Error).message}`);
-        }
+        const [result] = await this.getTokens([token]);
+        return result;
     }
 
     async getLPToken(token: Token, user: Address): Promise<LiquidityPoolToken> {
+        const [result] = await this.getLPTokens([token], user);
+        return result;
+    }
+
+    /** Wallet balances in base units; the native currency comes from getBalance, ERC20s from one balanceOf batch. */
+    async getBalances(tokens: Token[], user: Address): Promise<string[]> {
+        this.ensureCanRead();
+        const erc20s = tokens.filter((token) => !isNativeToken(token));
+        let native = BigInt(0);
+        let results: ReadResult[];
         try {
-            const tokenAddress = await this.publicClient?.readContract({
-                address: this.contractAddress,
-                abi: ABI,
-                functionName: 'poolToken',
-                args: [token.address]
-            });
-            if (!tokenAddress) throw new Error(`No LP token found for the given token.`);
-            const [totalSupply, balance] = await Promise.all([
-                this.publicClient?.readContract({
-                    address: tokenAddress as Address,
-                    abi: erc20Abi,
-                    functionName: 'totalSupply',
-                    args: []
-                }),
-                this.publicClient?.readContract({
-                    address: tokenAddress as Address,
-                    abi: erc20Abi,
-                    functionName: 'balanceOf',
-                    args: [user]
-                })
+            [native, results] = await Promise.all([
+                tokens.some((token) => isNativeToken(token)) ? this.publicClient!.getBalance({ address: user }) : native,
+                this.readBatch(erc20s.map((token) => ({ address: token.address, abi: erc20Abi, functionName: "balanceOf", args: [user] }))),
             ]);
-            const tokenMetaData = await this.getToken(tokenAddress as Address);
-            return {
-                address: tokenAddress,
-                symbol: tokenMetaData.symbol,
-                name: tokenMetaData.name,
-                decimals: tokenMetaData.decimals,
-                totalSupply: totalSupply!.toString(),
-                balance: balance!.toString()
-            }
         } catch (error) {
-            throw new Error(`Error fetching LP token data: ${(error as Error).message}`);
+            throw toMaelstromError(error);
         }
+        let next = 0;
+        return tokens.map((token) => {
+            if (isNativeToken(token)) return native.toString();
+            const result = results[next++];
+            if (result.status === "failure") throw toMaelstromError(result.error);
+            return String(result.result);
+        });
     }
 
     async getReserves(token: Token): Promise<Reserve> {
@@ -370,7 +719,7 @@ export class ContractClient implements IContractClient {
                 ethReserve: data![1].toString()
             }
         } catch (error) {
-            throw new Error(`Error fetching user reserves: ${(error as Error).message}`);
+            throw toMaelstromError(error);
         }
     }
 
@@ -386,236 +735,104 @@ export class ContractClient implements IContractClient {
         });
     }
 
+    /** Pool value in wei: the token reserve at the average price plus the ETH reserve. Prices are per 1e18 base units, so this holds for any decimals. */
     private getTotalLiquidity(avgPrice: string, reserve: Reserve): string {
-        const tokenInEth = formatEther(BigInt(reserve.tokenReserve));
-        const liquidity = (Number(avgPrice) * (Number(tokenInEth))) / Number(1e18) + Number(formatEther(BigInt(reserve.ethReserve)));
-        return parseEther(String(liquidity)).toString();
+        return totalLiquidity(BigInt(reserve.tokenReserve), BigInt(reserve.ethReserve), BigInt(avgPrice)).toString();
     }
 
     private getAvgPrice(buyPrice: string, sellPrice: string): string {
-        return ((Number(buyPrice) + Number(sellPrice)) / Number(2)).toString();
+        return average(BigInt(buyPrice), BigInt(sellPrice)).toString();
     }
 
     private getAPR(poolYield: string): string {
         return (Number(poolYield) * 365 * 100).toString();
     }
 
-    private async getBlockTimestamp(blockNumber: bigint): Promise<number> {
-        try {
-            const block = await this.publicClient?.getBlock({ blockNumber: blockNumber });
-            return Number(block!.timestamp) * 1000; //maybe multiply by 1000?
-        } catch (error) {
-            throw new Error(`Error fetching block timestamp: ${(error as Error).message}`);
-        }
+    /** Indexed events for a block window, served from the persistent cache where already scanned. */
+    private async queryEvents(types: MaelstromEventType[], fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<IndexedEvent[]> {
+        const indexer = getEventIndexer(this.publicClient!, this.chainId, this.contractAddress, {
+            startBlock: getDeployment(this.chainId)?.startBlock,
+        });
+        return indexer.query({ types, fromBlock, toBlock, token: token?.address, account: user });
+    }
+
+    /** Token for each event's `token` arg; skips the lookup when the caller already filtered by token. */
+    private async eventTokens(events: IndexedEvent[], token?: Token): Promise<Token[]> {
+        if (token) return events.map(() => token);
+        return this.getTokens(events.map((e) => e.args.token as Address));
     }
 
     async getBuyTradeEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<BuyTrade[]> {
         return this.safeRead("getBuyTradeEventLogs", [], async () => {
-            const logs = await this.publicClient!.getLogs({
-                address: this.contractAddress,
-                fromBlock: BigInt(fromBlock),
-                toBlock: BigInt(toBlock),
-                event: parseAbiItem("event BuyTrade(address indexed token, address indexed trader, uint256 amountEther, uint256 amountToken, uint256 tradeBuyPrice, uint256 updatedBuyPrice, uint256 sellPrice)"),
-                args: { token: token?.address as Address, trader: user as Address | undefined },
-                strict: true,
-            });
-            let result: BuyTrade[] = [];
-            const timestamps = await Promise.all((logs || []).map((log) => this.getBlockTimestamp(log.blockNumber)));
-            if (!token) {
-                const tokens = await Promise.all((logs || []).map((log) => this.getToken(log.args.token as Address)));
-                result = (logs || []).map((log, index) => ({
-                    token: tokens[index],
-                    buyPrice: log.args.tradeBuyPrice.toString(),
-                    updatedBuyPrice: log.args.updatedBuyPrice.toString(),
-                    ethAmount: log.args.amountEther.toString(),
-                    sellPrice: log.args.sellPrice.toString(),
-                    timestamp: timestamps[index],
-                }));
-                return result;
-            }
-            result = (logs || []).map((log, index) => ({
-                token,
-                buyPrice: log.args.tradeBuyPrice.toString(),
-                updatedBuyPrice: log.args.updatedBuyPrice.toString(),
-                ethAmount: log.args.amountEther.toString(),
-                sellPrice: log.args.sellPrice.toString(),
-                timestamp: timestamps[index],
+            const events = await this.queryEvents(["BuyTrade"], fromBlock, toBlock, token, user);
+            const tokens = await this.eventTokens(events, token);
+            return events.map((e, index) => ({
+                token: tokens[index],
+                buyPrice: e.args.tradeBuyPrice,
+                updatedBuyPrice: e.args.updatedBuyPrice,
+                ethAmount: e.args.amountEther,
+                sellPrice: e.args.sellPrice,
+                timestamp: e.timestamp,
             }));
-            return result;
         });
     }
 
     async getSellTradeEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<SellTrade[]> {
         return this.safeRead("getSellTradeEventLogs", [], async () => {
-            const logs = await this.publicClient!.getLogs({
-                address: this.contractAddress,
-                fromBlock: BigInt(fromBlock),
-                toBlock: BigInt(toBlock),
-                event: parseAbiItem("event SellTrade(address indexed token, address indexed trader, uint256 amountToken, uint256 amountEther, uint256 tradeSellPrice, uint256 updatedSellPrice, uint256 buyPrice)"),
-                args: { token: token?.address as Address, trader: user as Address | undefined },
-                strict: true,
-            });
-            let result: SellTrade[] = [];
-            const timestamps = await Promise.all((logs || []).map((log) => this.getBlockTimestamp(log.blockNumber)));
-            if (!token) {
-                const tokens = await Promise.all((logs || []).map((log) => this.getToken(log.args.token as Address)));
-                result = (logs || []).map((log, index) => ({
-                    token: tokens[index],
-                    sellPrice: log.args.tradeSellPrice.toString(),
-                    updatedSellPrice: log.args.updatedSellPrice.toString(),
-                    ethAmount: log.args.amountEther.toString(),
-                    buyPrice: log.args.buyPrice.toString(),
-                    timestamp: timestamps[index],
-                }));
-                return result;
-            }
-            result = (logs || []).map((log, index) => ({
-                token,
-                sellPrice: log.args.tradeSellPrice.toString(),
-                updatedSellPrice: log.args.updatedSellPrice.toString(),
-                ethAmount: log.args.amountEther.toString(),
-                timestamp: timestamps[index],
-                buyPrice: log.args.buyPrice.toString(),
-            }));
-            return result;
-        });
-    }
-
-    private async swapInEventLogs(fromBlock: number, toBlock: number, tokenIn: Token): Promise<SwapTrade[]> {
-        return this.safeRead("swapInEventLogs", [], async () => {
-            const logs = await this.publicClient!.getLogs({
-                address: this.contractAddress,
-                fromBlock: BigInt(fromBlock),
-                toBlock: BigInt(toBlock),
-                event: parseAbiItem("event SwapTrade(address indexed tokenSold, address indexed tokenBought, address indexed trader, uint256 amountTokenSold, uint256 amountTokenBought, uint256 tradeSellPrice, uint256 updatedSellPrice, uint256 tradeBuyPrice, uint256 updatedBuyPrice)"),
-                args: { tokenSold: tokenIn.address as Address },
-                strict: true,
-            });
-            const timestamps = await Promise.all((logs || []).map((log) => this.getBlockTimestamp(log.blockNumber)));
-            const tokensOut = await Promise.all((logs || []).map((log) => this.getToken(log.args.tokenBought as Address)));
-            return (logs || []).map((log, index) => ({
-                tokenIn,
-                tokenOut: tokensOut[index],
-                amountIn: log.args.amountTokenSold.toString(),
-                amountOut: log.args.amountTokenBought.toString(),
-                sellPrice: log.args.tradeSellPrice.toString(),
-                buyPrice: log.args.tradeBuyPrice.toString(),
-                updatedBuyPrice: log.args.updatedBuyPrice.toString(),
-                updatedSellPrice: log.args.updatedSellPrice.toString(),
-                timestamp: timestamps[index],
-            }));
-        });
-    }
-
-    private async swapOutEventLogs(fromBlock: number, toBlock: number, tokenOut: Token): Promise<SwapTrade[]> {
-        return this.safeRead("swapOutEventLogs", [], async () => {
-            const logs = await this.publicClient!.getLogs({
-                address: this.contractAddress,
-                fromBlock: BigInt(fromBlock),
-                toBlock: BigInt(toBlock),
-                event: parseAbiItem("event SwapTrade(address indexed tokenSold, address indexed tokenBought, address indexed trader, uint256 amountTokenSold, uint256 amountTokenBought, uint256 tradeSellPrice, uint256 updatedSellPrice, uint256 tradeBuyPrice, uint256 updatedBuyPrice)"),
-                args: { tokenBought: tokenOut.address as Address },
-                strict: true,
-            });
-            const timestamps = await Promise.all((logs || []).map((log) => this.getBlockTimestamp(log.blockNumber)));
-            const tokensIn = await Promise.all((logs || []).map((log) => this.getToken(log.args.tokenSold as Address)));
-            return (logs || []).map((log, index) => ({
-                tokenOut,
-                tokenIn: tokensIn[index],
-                amountIn: log.args.amountTokenSold.toString(),
-                amountOut: log.args.amountTokenBought.toString(),
-                sellPrice: log.args.tradeSellPrice.toString(),
-                buyPrice: log.args.tradeBuyPrice.toString(),
-                updatedBuyPrice: log.args.updatedBuyPrice.toString(),
-                updatedSellPrice: log.args.updatedSellPrice.toString(),
-                timestamp: timestamps[index],
+            const events = await this.queryEvents(["SellTrade"], fromBlock, toBlock, token, user);
+            const tokens = await this.eventTokens(events, token);
+            return events.map((e, index) => ({
+                token: tokens[index],
+                sellPrice: e.args.tradeSellPrice,
+                updatedSellPrice: e.args.updatedSellPrice,
+                ethAmount: e.args.amountEther,
+                buyPrice: e.args.buyPrice,
+                timestamp: e.timestamp,
             }));
         });
     }
 
+    /** Swaps where `token` was sold or bought (either side), optionally restricted to one trader. */
     async getSwapTradeEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<SwapTrade[]> {
         return this.safeRead("getSwapTradeEventLogs", [], async () => {
-            if (user) {
-                const logs = await this.publicClient!.getLogs({
-                    address: this.contractAddress,
-                    fromBlock: BigInt(fromBlock),
-                    toBlock: BigInt(toBlock),
-                    event: parseAbiItem("event SwapTrade(address indexed tokenSold, address indexed tokenBought, address indexed trader, uint256 amountTokenSold, uint256 amountTokenBought, uint256 tradeSellPrice, uint256 updatedSellPrice, uint256 tradeBuyPrice, uint256 updatedBuyPrice)"),
-                    args: { trader: user as Address },
-                    strict: true,
-                });
-                const timestamps = await Promise.all((logs || []).map((log) => this.getBlockTimestamp(log.blockNumber)));
-                const tokensIn = await Promise.all((logs || []).map((log) => this.getToken(log.args.tokenSold as Address)));
-                const tokensOut = await Promise.all((logs || []).map((log) => this.getToken(log.args.tokenBought as Address)));
-                return (logs || []).map((log, index) => ({
-                    token,
-                    tokenIn: tokensIn[index],
-                    tokenOut: tokensOut[index],
-                    amountIn: log.args.amountTokenSold.toString(),
-                    amountOut: log.args.amountTokenBought.toString(),
-                    sellPrice: log.args.tradeSellPrice.toString(),
-                    buyPrice: log.args.tradeBuyPrice.toString(),
-                    updatedBuyPrice: log.args.updatedBuyPrice.toString(),
-                    updatedSellPrice: log.args.updatedSellPrice.toString(),
-                    timestamp: timestamps[index],
-                }));
-            }
-            const swapInTrades = await this.swapInEventLogs(fromBlock, toBlock, token! as Token);
-            const swapOutTrades = await this.swapOutEventLogs(fromBlock, toBlock, token! as Token);
-            return swapInTrades.concat(swapOutTrades);
+            const events = await this.queryEvents(["SwapTrade"], fromBlock, toBlock, token, user);
+            const tokens = await this.getTokens(
+                events.flatMap((e) => [e.args.tokenSold as Address, e.args.tokenBought as Address])
+            );
+            return events.map((e, index) => ({
+                tokenIn: tokens[index * 2],
+                tokenOut: tokens[index * 2 + 1],
+                amountIn: e.args.amountTokenSold,
+                amountOut: e.args.amountTokenBought,
+                sellPrice: e.args.tradeSellPrice,
+                buyPrice: e.args.tradeBuyPrice,
+                updatedBuyPrice: e.args.updatedBuyPrice,
+                updatedSellPrice: e.args.updatedSellPrice,
+                timestamp: e.timestamp,
+            }));
         });
     }
 
-    private async get24hBeforeBlock(): Promise<bigint> {
-        let lowBlock = BigInt(0);
-        let highBlock = (await this.publicClient!.getBlockNumber()) as bigint;
-        while (lowBlock <= highBlock) {
-            const midBlock = Math.round(Number(lowBlock + highBlock) / 2);
-            const midTimestamp = await this.getBlockTimestamp(BigInt(midBlock));
-            if (Date.now() - midTimestamp < 24 * 60 * 60 * 1000) {
-                highBlock = BigInt(midBlock) - BigInt(1);
-            } else {
-                lowBlock = BigInt(midBlock) + BigInt(1);
-            }
-        }
-        return lowBlock;
-    }
-
     private async get24hVolume(token: Token): Promise<string> {
         return this.safeRead("get24hVolume", "0", async () => {
             const toBlock = await this.publicClient!.getBlockNumber();
-            const fromBlock = await this.get24hBeforeBlock();
-            const BLOCK_BATCH_SIZE = 999;
-            let currentBlock = Number(fromBlock);
-            const targetBlock = Number(toBlock);
-
-            let buyLogs: BuyTrade[] = [];
-            let sellLogs: SellTrade[] = [];
-            let swapLogs: SwapTrade[] = [];
-
-            while (currentBlock < targetBlock) {
-                const batchEndBlock = Math.min(currentBlock + BLOCK_BATCH_SIZE, targetBlock);
-                const [batchBuyLogs, batchSellLogs, batchSwapLogs] = await Promise.all([
-                    this.getBuyTradeEventLogs(currentBlock, batchEndBlock, token),
-                    this.getSellTradeEventLogs(currentBlock, batchEndBlock, token),
-                    this.getSwapTradeEventLogs(currentBlock, batchEndBlock, token),
-                ]);
-                buyLogs = buyLogs.concat(batchBuyLogs);
-                sellLogs = sellLogs.concat(batchSellLogs);
-                swapLogs = swapLogs.concat(batchSwapLogs);
-                currentBlock = batchEndBlock + 1;
-            }
-            let volume = 0;
-            buyLogs.forEach((log) => { volume += Number(log.ethAmount); });
-            sellLogs.forEach((log) => { volume += Number(log.ethAmount); });
-            swapLogs.forEach((log) => {
-                if (log.tokenIn.address === token.address) {
-                    volume += (Number(log.amountIn) * Number(log.sellPrice)) / 1e18;
-                } else if (log.tokenOut.address === token.address) {
-                    volume += (Number(log.amountOut) * Number(log.buyPrice)) / 1e18;
-                }
+            const fromBlock = await getBlockTimeResolver(this.publicClient!, this.chainId).getBlockForTimestamp(Date.now() - 24 * 60 * 60 * 1000);
+            const [buyLogs, sellLogs, swapLogs] = await Promise.all([
+                this.getBuyTradeEventLogs(Number(fromBlock), Number(toBlock), token),
+                this.getSellTradeEventLogs(Number(fromBlock), Number(toBlock), token),
+                this.getSwapTradeEventLogs(Number(fromBlock), Number(toBlock), token),
+            ]);
+            const tokenKey = token.address.toLowerCase();
+            const swapVolume = swapLogs.map((log) => {
+                if (log.tokenIn.address.toLowerCase() === tokenKey) return tokenToWei(BigInt(log.amountIn), BigInt(log.sellPrice));
+                if (log.tokenOut.address.toLowerCase() === tokenKey) return tokenToWei(BigInt(log.amountOut), BigInt(log.buyPrice));
+                return BigInt(0);
             });
-            return volume.toString();
+            return sum([
+                ...buyLogs.map((log) => BigInt(log.ethAmount)),
+                ...sellLogs.map((log) => BigInt(log.ethAmount)),
+                ...swapVolume,
+            ]).toString();
         });
     }
 
@@ -627,68 +844,54 @@ export class ContractClient implements IContractClient {
                 functionName: "pools",
                 args: [token.address],
             });
-            return data ? Number(data[2]) * 1000 : 0;
+            return this.decodePoolState(token, data, this.emptyMarket(), BigInt(0)).lastExchangeTs;
+        });
+    }
+
+    /** Full auction state of a pool: both sides' price bounds, last trades and decay, plus current prices and reserves. */
+    async getPoolState(token: Token): Promise<PoolState> {
+        const fallback = this.decodePoolState(token, null, this.emptyMarket(), BigInt(0));
+        return this.safeRead("getPoolState", fallback, async () => {
+            const [buy, sell, reserves, poolData, reset] = await this.readBatch([
+                ...this.poolMarketCalls(token.address),
+                { address: this.contractAddress, abi: ABI, functionName: "pools", args: [token.address] },
+                { address: this.contractAddress, abi: ABI, functionName: "auctionResetPercentage" },
+            ]);
+            const market = {
+                buy: String(this.unwrapRead<bigint | string>("getBuyPrice", buy, "0")),
+                sell: String(this.unwrapRead<bigint | string>("getSellPrice", sell, "0")),
+                reserve: this.decodeReserves("getReserves", reserves),
+            };
+            const pool = this.unwrapRead<readonly bigint[] | null>("getPoolState", poolData, null);
+            const resetPercentage = this.unwrapRead<bigint>("auctionResetPercentage", reset, BigInt(0));
+            return this.decodePoolState(token, pool, market, resetPercentage);
         });
     }
 
     async getDepositEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<Deposit[]> {
         return this.safeRead("getDepositEventLogs", [], async () => {
-            const logs = await this.publicClient!.getLogs({
-                address: this.contractAddress,
-                fromBlock: BigInt(fromBlock),
-                toBlock: BigInt(toBlock),
-                event: parseAbiItem("event Deposit(address indexed token, address indexed user, uint256 amountEther, uint256 amountToken, uint256 lpTokensMinted)"),
-                args: { token: token?.address as Address, user: user as Address | undefined },
-                strict: true,
-            });
-            const timestamps = await Promise.all((logs || []).map((log) => this.getBlockTimestamp(log.blockNumber)));
-            if (!token) {
-                const tokens = await Promise.all((logs || []).map((log) => this.getToken(log.args.token as Address)));
-                return (logs || []).map((log, index) => ({
-                    token: tokens[index],
-                    ethAmount: log.args.amountEther.toString(),
-                    tokenAmount: log.args.amountToken.toString(),
-                    lpTokensMinted: log.args.lpTokensMinted.toString(),
-                    timestamp: timestamps[index],
-                }));
-            }
-            return (logs || []).map((log, index) => ({
-                token,
-                ethAmount: log.args.amountEther.toString(),
-                tokenAmount: log.args.amountToken.toString(),
-                lpTokensMinted: log.args.lpTokensMinted.toString(),
-                timestamp: timestamps[index],
+            const events = await this.queryEvents(["Deposit"], fromBlock, toBlock, token, user);
+            const tokens = await this.eventTokens(events, token);
+            return events.map((e, index) => ({
+                token: tokens[index],
+                ethAmount: e.args.amountEther,
+                tokenAmount: e.args.amountToken,
+                lpTokensMinted: e.args.lpTokensMinted,
+                timestamp: e.timestamp,
             }));
         });
     }
 
     async getWithdrawEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<Withdraw[]> {
         return this.safeRead("getWithdrawEventLogs", [], async () => {
-            const logs = await this.publicClient!.getLogs({
-                address: this.contractAddress,
-                fromBlock: BigInt(fromBlock),
-                toBlock: BigInt(toBlock),
-                event: parseAbiItem("event Withdraw(address indexed token, address indexed user, uint256 amountEther, uint256 amountToken, uint256 lpTokensBurned)"),
-                args: { token: token?.address as Address, user: user as Address | undefined },
-                strict: true,
-            });
-            const timestamps = await Promise.all((logs || []).map((log) => this.getBlockTimestamp(log.blockNumber)));
-            if (!token) {
-                const tokens = await Promise.all((logs || []).map((log) => this.getToken(log.args.token as Address)));
-                return (logs || []).map((log, index) => ({
-                    token: tokens[index],
-                    ethAmount: log.args.amountEther.toString(),
-                    tokenAmount: log.args.amountToken.toString(),
-                    lpTokensBurnt: log.args.lpTokensBurned.toString(),
-                    timestamp: timestamps[index],
-                }));
-            }
-            return (logs || []).map((log, index) => ({
-                token,
-                ethAmount: log.args.amountEther.toString(),
-                tokenAmount: log.args.amountToken.toString(),
-                lpTokensBurnt: log.args.lpTokensBurned.toString(),
-                timestamp: timestamps[index],
+            const events = await this.queryEvents(["Withdraw"], fromBlock, toBlock, token, user);
+            const tokens = await this.eventTokens(events, token);
+            return events.map((e, index) => ({
+                token: tokens[index],
+                ethAmount: e.args.amountEther,
+                tokenAmount: e.args.amountToken,
+                lpTokensBurnt: e.args.lpTokensBurned,
+                timestamp: e.timestamp,
             }));
         });
     }
@@ -720,21 +923,31 @@ export class ContractClient implements IContractClient {
         };
     }
 
-    async getPool(token: Token, user: Address): Promise<Pool> {
+    async getPool(token: Token, user?: Address): Promise<Pool> {
         return this.safeRead("getPool", this.buildDefaultPool(token), async () => {
-            const lpToken = await this.getLPToken(token, user);
-            const reserve = await this.getReserves(token);
-            const buyPrice = await this.getBuyPrice(token);
-            const sellPrice = await this.getSellPrice(token);
-            const tokenRatio = await this.getTokenRatio(token);
-            const volume24h = await this.get24hVolume(token);
+            const [[lpToken], results, volume24h] = await Promise.all([
+                this.getLPTokens([token], user),
+                this.readBatch([
+                    ...this.poolMarketCalls(token.address),
+                    { address: this.contractAddress, abi: ABI, functionName: "tokenPerETHRatio", args: [token.address] },
+                    { address: this.contractAddress, abi: ABI, functionName: "getPoolFeeEventsCount", args: [token.address] },
+                    { address: this.contractAddress, abi: ABI, functionName: "pools", args: [token.address] },
+                ]),
+                this.get24hVolume(token),
+            ]);
+            const [buy, sell, reserves, ratio, feeCount, poolData] = results;
+            const buyPrice = String(this.unwrapRead<bigint | string>("getBuyPrice", buy, "0"));
+            const sellPrice = String(this.unwrapRead<bigint | string>("getSellPrice", sell, "0"));
+            const reserve = this.decodeReserves("getReserves", reserves);
+            const tokenRatio = String(this.unwrapRead<bigint | string>("getTokenRatio", ratio, "0"));
+            const feeEventsCount = Number(this.unwrapRead<bigint | number>("getPoolFeeEventsCount", feeCount, 0));
+            const pool = this.unwrapRead<readonly bigint[] | null>("getLastExchangeTimestamp", poolData, null);
+            const { lastExchangeTs } = this.decodePoolState(token, pool, { buy: buyPrice, sell: sellPrice, reserve }, BigInt(0));
             const avgPrice = this.getAvgPrice(buyPrice, sellPrice);
             const totalLiquidity = this.getTotalLiquidity(avgPrice, reserve);
-            const feeEventsCount = await this.getPoolFeeEventsCount(token);
             const poolFeesEvents = feeEventsCount > 0 ? await this.getPoolFeeEvents(token, Math.max(feeEventsCount - 10, 0), feeEventsCount - 1) : [];
             const poolYield = feeEventsCount > 0 && poolFeesEvents.length > 0 ? this.getYield(poolFeesEvents, totalLiquidity) : 0;
             const apr = this.getAPR(String(poolYield));
-            const lastExchangeTs = await this.getLastExchangeTimestamp(token);
 
             return {
                 token,
@@ -763,24 +976,15 @@ export class ContractClient implements IContractClient {
             });
             const addresses = (data as Address[]) ?? [];
             if (addresses.length === 0) return [];
-            const tokens = await Promise.all(addresses.map((addr) => this.getToken(addr as Address)));
-            const buyPrices = await Promise.all(tokens.map((t) => this.getBuyPrice(t)));
-            const sellPrices = await Promise.all(tokens.map((t) => this.getSellPrice(t)));
-            const reserves = await Promise.all(tokens.map((t) => this.getReserves(t)));
-            const liquidity = await Promise.all(
-                tokens.map((token, index) =>
-                    this.getTotalLiquidity(this.getAvgPrice(buyPrices[index], sellPrices[index]), reserves[index])
-                )
-            );
-            return tokens.map((token, index) => ({
-                token,
-                buyPrice: buyPrices[index],
-                sellPrice: sellPrices[index],
-                totalLiquidity: liquidity[index],
-            }));
+            return this.buildRowPools(addresses);
         });
     }
 
+    /** Rows for specific pools, e.g. to refresh the ones a new trade touched. Order matches `tokens`. */
+    async getRowPools(tokens: Address[]): Promise<RowPool[]> {
+        return this.safeRead("getRowPools", [], async () => (tokens.length === 0 ? [] : this.buildRowPools(tokens)));
+    }
+
     async getUserPools(user: Address, startIndex: number, offset: number): Promise<RowPool[]> {
         return this.safeRead("getUserPools", [], async () => {
             const data = await this.publicClient!.readContract({
@@ -791,23 +995,7 @@ export class ContractClient implements IContractClient {
             });
             const addresses = (data as Address[]) ?? [];
             if (addresses.length === 0) return [];
-            const tokens = await Promise.all(addresses.map((addr) => this.getToken(addr as Address)));
-            const buyPrices = await Promise.all(tokens.map((t) => this.getBuyPrice(t)));
-            const sellPrices = await Promise.all(tokens.map((t) => this.getSellPrice(t)));
-            const reserves = await Promise.all(tokens.map((t) => this.getReserves(t)));
-            const liquidity = await Promise.all(
-                tokens.map((token, index) =>
-                    this.getTotalLiquidity(this.getAvgPrice(buyPrices[index], sellPrices[index]), reserves[index])
-                )
-            );
-            const lpTokens = await Promise.all(tokens.map((token) => this.getLPToken(token, user)));
-            return tokens.map((token, index) => ({
-                token,
-                buyPrice: buyPrices[index],
-                sellPrice: sellPrices[index],
-                totalLiquidity: liquidity[index],
-                lpToken: lpTokens[index],
-            }));
+            return this.buildRowPools(addresses, user);
         });
     }
 
@@ -835,6 +1023,16 @@ export class ContractClient implements IContractClient {
         });
     }
 
+    /** Latest block, used as the upper end of event log windows. */
+    async getBlockNumber(): Promise<number> {
+        this.ensureCanRead();
+        try {
+            return Number(await this.publicClient!.getBlockNumber());
+        } catch (error) {
+            throw toMaelstromError(error);
+        }
+    }
+
     async getTotalFees(): Promise<string> {
         return this.safeRead("getTotalFees", "0", async () => {
             const data = await this.publicClient!.readContract({
@@ -859,18 +1057,6 @@ export class ContractClient implements IContractClient {
         });
     }
 
-    private async getPoolFeeEventsCount(token: Token): Promise<number> {
-        return this.safeRead("getPoolFeeEventsCount", 0, async () => {
-            const data = await this.publicClient!.readContract({
-                address: this.contractAddress,
-                abi: ABI,
-                functionName: "getPoolFeeEventsCount",
-                args: [token.address],
-            });
-            return data != null ? Number(data) : 0;
-        });
-    }
-
     async getPoolFeeEvents(token: Token, startIndex: number, endIndex: number): Promise<PoolFeesEvent[]> {
         return this.safeRead("getPoolFeeEvents", [], async () => {
             const data = await this.publicClient!.readContract({
@@ -0,0 +1,38 @@
+import { IContractClient } from "@/types/contract";
+import { Address } from "viem";
+import { Config, UsePublicClientReturnType } from "wagmi";
+import { SignTypedDataMutateAsync, WriteContractMutateAsync } from "wagmi/query";
+import { ContractClient } from "./contract-client";
+import { SimulatedContractClient } from "./simulated-contract-client";
+
+const DEMO_MODE_KEY = "maelstrom:demo-mode";
+
+/** Demo mode is forced on for the whole deployment, so the toggle is hidden. */
+export function isDemoModeForced(): boolean {
+    return process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+}
+
+/** Offline mode: every client reads and writes the in-memory simulator instead of the chain. */
+export function isDemoMode(): boolean {
+    if (isDemoModeForced()) return true;
+    if (typeof window === "undefined") return false;
+    return window.localStorage.getItem(DEMO_MODE_KEY) === "true";
+}
+
+export function setDemoMode(enabled: boolean): void {
+    if (typeof window === "undefined") return;
+    window.localStorage.setItem(DEMO_MODE_KEY, String(enabled));
+}
+
+/** ContractClient for the connected chain, or the simulator in demo mode. Takes the same arguments as ContractClient. */
+export function createContractClient(
+    writeContract: WriteContractMutateAsync<Config, unknown>,
+    publicClient: UsePublicClientReturnType,
+    chainId?: number,
+    account?: Address,
+    signTypedData?: SignTypedDataMutateAsync<unknown>,
+    walletChainId?: number
+): IContractClient {
+    if (isDemoMode()) return new SimulatedContractClient(account);
+    return new ContractClient(writeContract, publicClient, chainId, account, signTypedData, walletChainId);
+}
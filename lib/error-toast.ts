@@ -0,0 +1,93 @@
+import { toast } from "sonner";
+import { ContractRevertError, MaelstromErrorCode, toMaelstromError } from "./errors";
+
+/** Callbacks a screen can offer so an error toast can carry a one-click recovery. */
+export interface ErrorRecovery {
+    retry?: () => void;
+    switchNetwork?: () => void;
+    connectWallet?: () => void;
+    createPool?: () => void;
+}
+
+interface ErrorDisplay {
+    title: string;
+    description: string;
+    recovery?: { key: keyof ErrorRecovery; label: string };
+}
+
+function revertDescription(error: ContractRevertError): string {
+    const detail = error.errorName ? ` (${error.errorName})` : error.reason ? `: ${error.reason}` : "";
+    return `The contract rejected this transaction${detail}. Prices may have moved — refresh the quote or raise slippage.`;
+}
+
+const DISPLAY: Record<Exclude<MaelstromErrorCode, "CONTRACT_REVERT" | "UNKNOWN">, ErrorDisplay> = {
+    USER_REJECTED: {
+        title: "Transaction cancelled",
+        description: "You rejected the request in your wallet.",
+        recovery: { key: "retry", label: "Try again" },
+    },
+    INSUFFICIENT_FUNDS: {
+        title: "Insufficient funds",
+        description: "Your balance can't cover this amount plus gas. Lower the amount or top up your wallet.",
+    },
+    ALLOWANCE: {
+        title: "Token approval failed",
+        description: "The contract couldn't spend your tokens. Approve the token again and retry.",
+        recovery: { key: "retry", label: "Approve & retry" },
+    },
+    NO_DATA: {
+        title: "No data returned",
+        description: "The contract returned nothing for this request. Check that you're on the right network.",
+    },
+    RPC_RATE_LIMIT: {
+        title: "Network busy",
+        description: "The RPC endpoint is rate limiting requests. Wait a few seconds and try again.",
+        recovery: { key: "retry", label: "Retry" },
+    },
+    RPC_UNAVAILABLE: {
+        title: "Network unreachable",
+        description: "None of the RPC endpoints for this network responded. Add a working one in RPC settings, then retry.",
+        recovery: { key: "retry", label: "Retry" },
+    },
+    UNSUPPORTED_CHAIN: {
+        title: "Wrong network",
+        description: "Maelstrom isn't deployed on this network.",
+        recovery: { key: "switchNetwork", label: "Switch network" },
+    },
+    WALLET_NOT_CONNECTED: {
+        title: "Wallet not connected",
+        description: "Browsing works without a wallet, but trading and liquidity need one. Connect a wallet to continue.",
+        recovery: { key: "connectWallet", label: "Connect wallet" },
+    },
+    PUBLIC_CLIENT_UNAVAILABLE: {
+        title: "No connection",
+        description: "No RPC connection is available. Reconnect your wallet and try again.",
+    },
+    POOL_NOT_INSTANTIATED: {
+        title: "Pool not found",
+        description: "No pool exists for this token yet.",
+        recovery: { key: "createPool", label: "Create pool" },
+    },
+};
+
+/** User-facing title, description and suggested recovery for any thrown value. */
+export function describeError(error: unknown): ErrorDisplay {
+    const err = toMaelstromError(error);
+    if (err instanceof ContractRevertError) {
+        return { title: "Transaction reverted", description: revertDescription(err), recovery: { key: "retry", label: "Retry" } };
+    }
+    if (err.code === "CONTRACT_REVERT" || err.code === "UNKNOWN") {
+        return { title: "Something went wrong", description: err.message };
+    }
+    return DISPLAY[err.code];
+}
+
+/** Show an error toast for a failed `operation` ("Swap", "Deposit", ...), with a recovery button when the screen offers one. */
+export function showErrorToast(error: unknown, operation: string, recovery: ErrorRecovery = {}): void {
+    const display = describeError(error);
+    const onClick = display.recovery ? recovery[display.recovery.key] : undefined;
+    toast.error(`${operation}: ${display.title}`, {
+        description: display.description,
+        action: display.recovery && onClick ? { label: display.recovery.label, onClick } : undefined,
+    });
+}
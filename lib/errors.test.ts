@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { ContractFunctionRevertedError, encodeErrorResult, Hex, parseAbi } from "viem";
+import { ABI } from "@/types/contract";
+import { describeError } from "./error-toast";
+import { AllowanceError, ContractRevertError, fromRevertData, toMaelstromError } from "./errors";
+
+const BUILTIN = parseAbi(["error Error(string reason)", "error Panic(uint256 code)"]);
+const TOKEN = parseAbi(["error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)"]);
+
+const requireRevert = (reason: string): Hex => encodeErrorResult({ abi: BUILTIN, errorName: "Error", args: [reason] });
+
+describe("revert classification", () => {
+    it("shows a require() message instead of the built-in error name", () => {
+        const error = fromRevertData(requireRevert("Slippage limit exceeded"), "buy", "Buy");
+        expect(error).toBeInstanceOf(ContractRevertError);
+        expect(error).toMatchObject({ errorName: undefined, reason: "Slippage limit exceeded", operation: "Buy" });
+        expect(error.message).toBe("Slippage limit exceeded");
+        expect(describeError(error).description).toBe(
+            "The contract rejected this transaction: Slippage limit exceeded. Prices may have moved — refresh the quote or raise slippage."
+        );
+    });
+
+    it("does the same for reverts thrown by viem", () => {
+        const revert = new ContractFunctionRevertedError({ abi: ABI, data: requireRevert("Slippage limit exceeded"), functionName: "sell" });
+        const error = toMaelstromError(revert, "Sell");
+        expect(error).toMatchObject({ errorName: undefined, reason: "Slippage limit exceeded", message: "Slippage limit exceeded" });
+    });
+
+    it("keeps only the reason of a panic", () => {
+        const data = encodeErrorResult({ abi: BUILTIN, errorName: "Panic", args: [BigInt(0x11)] });
+        const error = fromRevertData(data, "swap");
+        expect(error).toBeInstanceOf(ContractRevertError);
+        expect((error as ContractRevertError).errorName).toBeUndefined();
+        expect(error.message).toMatch(/overflow/);
+        expect(describeError(error).description).not.toContain("(Panic)");
+    });
+
+    it("names custom errors from the Maelstrom ABI", () => {
+        const data = encodeErrorResult({ abi: ABI, errorName: "PRBMath_MulDiv18_Overflow", args: [BigInt(1), BigInt(2)] });
+        const error = fromRevertData(data, "buy");
+        expect(error).toMatchObject({ errorName: "PRBMath_MulDiv18_Overflow", message: "PRBMath_MulDiv18_Overflow" });
+        expect(describeError(error).description).toContain("(PRBMath_MulDiv18_Overflow)");
+    });
+
+    it("maps token allowance errors to AllowanceError", () => {
+        const data = encodeErrorResult({
+            abi: TOKEN,
+            errorName: "ERC20InsufficientAllowance",
+            args: ["0x0000000000000000000000000000000000000001", BigInt(0), BigInt(1)],
+        });
+        expect(fromRevertData(data, "sell")).toBeInstanceOf(AllowanceError);
+    });
+});
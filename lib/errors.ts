@@ -0,0 +1,223 @@
+import { ABI } from "@/types/contract";
+import {
+    Address,
+    BaseError,
+    ChainDoesNotSupportContract,
+    ChainMismatchError,
+    ChainNotFoundError,
+    ContractFunctionRevertedError,
+    ContractFunctionZeroDataError,
+    decodeErrorResult,
+    Hex,
+    HttpRequestError,
+    InsufficientFundsError as ViemInsufficientFundsError,
+    LimitExceededRpcError,
+    parseAbi,
+    RawContractError,
+    TimeoutError,
+    UserRejectedRequestError,
+} from "viem";
+
+export type MaelstromErrorCode =
+    | "USER_REJECTED"
+    | "INSUFFICIENT_FUNDS"
+    | "ALLOWANCE"
+    | "CONTRACT_REVERT"
+    | "NO_DATA"
+    | "RPC_RATE_LIMIT"
+    | "RPC_UNAVAILABLE"
+    | "UNSUPPORTED_CHAIN"
+    | "WALLET_NOT_CONNECTED"
+    | "PUBLIC_CLIENT_UNAVAILABLE"
+    | "POOL_NOT_INSTANTIATED"
+    | "UNKNOWN";
+
+/** Base class for every error ContractClient surfaces. `operation` is the user-facing action ("Swap", "Deposit", ...). */
+export class MaelstromError extends Error {
+    readonly code: MaelstromErrorCode;
+    operation?: string;
+
+    constructor(code: MaelstromErrorCode, message: string, options?: { cause?: unknown; operation?: string }) {
+        super(message, { cause: options?.cause });
+        this.name = new.target.name;
+        this.code = code;
+        this.operation = options?.operation;
+    }
+}
+
+export class UserRejectedError extends MaelstromError {
+    constructor(options?: { cause?: unknown; operation?: string }) {
+        super("USER_REJECTED", "Request rejected in wallet.", options);
+    }
+}
+
+export class InsufficientFundsError extends MaelstromError {
+    constructor(message = "Insufficient balance to cover the amount plus gas.", options?: { cause?: unknown; operation?: string }) {
+        super("INSUFFICIENT_FUNDS", message, options);
+    }
+}
+
+export class AllowanceError extends MaelstromError {
+    constructor(message = "Token approval failed or allowance is too low.", options?: { cause?: unknown; operation?: string }) {
+        super("ALLOWANCE", message, options);
+    }
+}
+
+/** The contract reverted. `errorName`/`args` come from the Maelstrom ABI when the revert data matches one of its errors. */
+export class ContractRevertError extends MaelstromError {
+    readonly errorName?: string;
+    readonly args?: readonly unknown[];
+    readonly reason?: string;
+
+    constructor(details: { errorName?: string; args?: readonly unknown[]; reason?: string }, options?: { cause?: unknown; operation?: string }) {
+        super("CONTRACT_REVERT", details.errorName ?? details.reason ?? "Execution reverted.", options);
+        this.errorName = details.errorName;
+        this.args = details.args;
+        this.reason = details.reason;
+    }
+}
+
+/** Call returned `0x`: no contract at the address, or a view that has nothing for this input yet. */
+export class NoDataError extends MaelstromError {
+    constructor(options?: { cause?: unknown; operation?: string }) {
+        super("NO_DATA", "Contract returned no data.", options);
+    }
+}
+
+export class RpcRateLimitError extends MaelstromError {
+    constructor(options?: { cause?: unknown; operation?: string }) {
+        super("RPC_RATE_LIMIT", "RPC rate limit reached.", options);
+    }
+}
+
+export class RpcUnavailableError extends MaelstromError {
+    constructor(message = "Could not reach the RPC endpoint.", options?: { cause?: unknown; operation?: string }) {
+        super("RPC_UNAVAILABLE", message, options);
+    }
+}
+
+export class WalletNotConnectedError extends MaelstromError {
+    constructor(options?: { cause?: unknown; operation?: string }) {
+        super("WALLET_NOT_CONNECTED", "Connect a wallet first.", options);
+    }
+}
+
+export class UnsupportedChainError extends MaelstromError {
+    readonly chainId?: number;
+
+    constructor(chainId?: number, options?: { cause?: unknown; operation?: string }) {
+        super("UNSUPPORTED_CHAIN", chainId === undefined ? "Unsupported network." : `Unsupported network (chain ${chainId}).`, options);
+        this.chainId = chainId;
+    }
+}
+
+export class PoolNotInstantiatedError extends MaelstromError {
+    readonly token?: Address;
+
+    constructor(token?: Address, options?: { cause?: unknown; operation?: string }) {
+        super("POOL_NOT_INSTANTIATED", "Pool has not been created for this token yet.", options);
+        this.token = token;
+    }
+}
+
+function findCause<T extends Error>(error: BaseError, type: new (...args: never[]) => T): T | undefined {
+    return error.walk((e) => e instanceof type) as T | undefined;
+}
+
+/** OpenZeppelin v5 ERC20 / SafeERC20 custom errors, which bubble up through Maelstrom's token transfers. */
+const TOKEN_ERRORS = parseAbi([
+    "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+    "error SafeERC20FailedOperation(address token)",
+]);
+
+const REVERT_ABI = [...ABI, ...TOKEN_ERRORS];
+
+const ALLOWANCE_ERRORS = new Set(["ERC20InsufficientAllowance", "SafeERC20FailedOperation"]);
+const BALANCE_ERRORS = new Set(["ERC20InsufficientBalance"]);
+// Solidity's built-in `Error(string)` (require/revert with a message) and `Panic(uint256)`: the name says nothing,
+// the reason says it all
+const BUILTIN_ERRORS = new Set(["Error", "Panic"]);
+
+/**
+ * Classify a revert by its decoded ABI error name. Reason strings are kept for display but never parsed,
+ * so anything without a known error name stays a ContractRevertError. `require` messages and panics carry
+ * only their reason.
+ */
+function classifyRevert(revert: ContractFunctionRevertedError, cause: unknown, operation?: string): MaelstromError {
+    let errorName = revert.data?.errorName;
+    let args = revert.data?.args;
+    // Revert data the calling ABI did not know (e.g. a token error inside a Maelstrom call); try the wider set
+    if (!errorName && revert.raw) {
+        try {
+            const decoded = decodeErrorResult({ abi: REVERT_ABI, data: revert.raw as Hex });
+            errorName = decoded.errorName;
+            args = decoded.args;
+        } catch {
+            // Not an error we know
+        }
+    }
+    let reason = revert.reason;
+    if (errorName && BUILTIN_ERRORS.has(errorName)) {
+        reason ??= errorName === "Error" && typeof args?.[0] === "string" ? args[0] : undefined;
+        errorName = undefined;
+        args = undefined;
+    }
+
+    if (errorName && ALLOWANCE_ERRORS.has(errorName)) {
+        return new AllowanceError(reason ?? undefined, { cause, operation });
+    }
+    if (errorName && BALANCE_ERRORS.has(errorName)) {
+        return new InsufficientFundsError(reason ?? undefined, { cause, operation });
+    }
+    return new ContractRevertError({ errorName, args, reason }, { cause, operation });
+}
+
+/** Classify raw revert data (from eth_call or eth_simulateV1) against the Maelstrom ABI. */
+export function fromRevertData(data: Hex | undefined, functionName: string, operation?: string): MaelstromError {
+    const revert = new ContractFunctionRevertedError({ abi: REVERT_ABI, data, functionName });
+    return classifyRevert(revert, revert, operation);
+}
+
+/** Map anything thrown by wagmi/viem (or us) onto the Maelstrom error taxonomy. */
+export function toMaelstromError(error: unknown, operation?: string): MaelstromError {
+    if (error instanceof MaelstromError) {
+        error.operation ??= operation;
+        return error;
+    }
+    const options = { cause: error, operation };
+    if (!(error instanceof BaseError)) {
+        const message = error instanceof Error ? error.message : String(error);
+        return new MaelstromError("UNKNOWN", message, options);
+    }
+
+    if (findCause(error, UserRejectedRequestError)) return new UserRejectedError(options);
+    if (findCause(error, ViemInsufficientFundsError)) return new InsufficientFundsError(undefined, options);
+    if (findCause(error, LimitExceededRpcError)) return new RpcRateLimitError(options);
+    const http = findCause(error, HttpRequestError);
+    if (http?.status === 429) return new RpcRateLimitError(options);
+    // Every endpoint in the fallback list failed or timed out
+    if (http || findCause(error, TimeoutError)) return new RpcUnavailableError(undefined, options);
+    if (findCause(error, ChainMismatchError) || findCause(error, ChainNotFoundError) || findCause(error, ChainDoesNotSupportContract)) {
+        return new UnsupportedChainError(undefined, options);
+    }
+    if (findCause(error, ContractFunctionZeroDataError)) return new NoDataError(options);
+    const revert = findCause(error, ContractFunctionRevertedError);
+    if (revert) return classifyRevert(revert, error, operation);
+    const raw = findCause(error, RawContractError);
+    if (raw) {
+        const data = typeof raw.data === "object" ? raw.data.data : raw.data;
+        return data && data !== "0x" ? fromRevertData(data, "", operation) : new ContractRevertError({}, options);
+    }
+
+    return new MaelstromError("UNKNOWN", error.shortMessage || error.message, options);
+}
+
+/**
+ * Read failures that mean "nothing there yet" rather than "something is broken":
+ * no code / no data, pool not created, or a bare revert with no reason.
+ */
+export function isExpectedReadFailure(error: MaelstromError): boolean {
+    if (error instanceof NoDataError || error instanceof PoolNotInstantiatedError) return true;
+    return error instanceof ContractRevertError && !error.errorName && !error.reason;
+}
@@ -0,0 +1,140 @@
+import { ABI } from "@/types/contract";
+import { Address } from "viem";
+import { UsePublicClientReturnType } from "wagmi";
+import { getAverageBlockTime, getBlockTimeResolver } from "./block-time";
+import { IndexedEvent, MaelstromEventType, summarizeLog } from "./event-indexer";
+
+type PublicClient = NonNullable<UsePublicClientReturnType>;
+
+export type LiveEventType = MaelstromEventType | "PoolInitialized";
+
+/** A Maelstrom event as it lands on chain; same shape as an indexed event, plus pool creations. */
+export interface LivePoolEvent extends Omit<IndexedEvent, "type" | "scope"> {
+    type: LiveEventType;
+}
+
+export interface LiveEventFilter {
+    types?: LiveEventType[];
+    /** Only events touching this pool token (either side for swaps). */
+    token?: Address;
+}
+
+export type LiveEventListener = (events: LivePoolEvent[]) => void;
+
+interface Subscription {
+    filter: LiveEventFilter;
+    listener: LiveEventListener;
+}
+
+/**
+ * Fans out new Maelstrom events for one chain + contract to any number of subscribers over a single
+ * `watchContractEvent`. viem uses a log filter where the RPC supports one and falls back to polling `eth_getLogs`
+ * on HTTP-only endpoints; either way it polls about once per block. The watch starts with the first subscriber and
+ * stops with the last.
+ */
+export class PoolEventHub {
+    private publicClient: PublicClient;
+    private chainId: number;
+    private contractAddress: Address;
+    private subscriptions = new Set<Subscription>();
+    private unwatch: (() => void) | null = null;
+
+    constructor(publicClient: PublicClient, chainId: number, contractAddress: Address) {
+        this.publicClient = publicClient;
+        this.chainId = chainId;
+        this.contractAddress = contractAddress;
+    }
+
+    setPublicClient(publicClient: PublicClient): void {
+        if (publicClient === this.publicClient) return;
+        this.publicClient = publicClient;
+        // Re-open the watch on the new transport
+        if (this.unwatch) {
+            this.stop();
+            this.start();
+        }
+    }
+
+    /** Receive new events matching `filter` in batches, oldest first. Returns the unsubscribe function. */
+    subscribe(filter: LiveEventFilter, listener: LiveEventListener): () => void {
+        const subscription = { filter, listener };
+        this.subscriptions.add(subscription);
+        this.start();
+        return () => {
+            this.subscriptions.delete(subscription);
+            if (this.subscriptions.size === 0) this.stop();
+        };
+    }
+
+    private start(): void {
+        if (this.unwatch) return;
+        this.unwatch = this.publicClient.watchContractEvent({
+            address: this.contractAddress,
+            abi: ABI,
+            strict: true,
+            pollingInterval: getAverageBlockTime(this.chainId),
+            onLogs: (logs) => {
+                this.publish(logs).catch((error) => console.error("[PoolEventHub] Failed to publish events.", error));
+            },
+            onError: (error) => console.warn("[PoolEventHub] Event watch error.", error.message),
+        });
+    }
+
+    private stop(): void {
+        this.unwatch?.();
+        this.unwatch = null;
+    }
+
+    private async publish(
+        logs: { eventName: string; args: unknown; blockNumber: bigint | null; logIndex: number | null; transactionHash: `0x${string}` | null }[]
+    ): Promise<void> {
+        // Pending logs have no block yet; they arrive again once mined
+        const mined = logs.filter((log) => log.blockNumber !== null && log.transactionHash !== null && log.logIndex !== null);
+        if (mined.length === 0) return;
+
+        const resolver = getBlockTimeResolver(this.publicClient, this.chainId);
+        const blocks = Array.from(new Set(mined.map((log) => Number(log.blockNumber))));
+        const timestamps = new Map(
+            await Promise.all(blocks.map(async (block) => [block, await resolver.getTimestamp(block).catch(() => Date.now())] as const))
+        );
+        const events: LivePoolEvent[] = mined
+            .map((log) => ({
+                id: `${log.transactionHash}:${log.logIndex}`,
+                type: log.eventName as LiveEventType,
+                blockNumber: Number(log.blockNumber),
+                logIndex: log.logIndex!,
+                txHash: log.transactionHash!,
+                timestamp: timestamps.get(Number(log.blockNumber)) ?? Date.now(),
+                ...summarizeLog(log.eventName, log.args as Record<string, unknown>),
+            }))
+            .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+        this.subscriptions.forEach(({ filter, listener }) => {
+            const token = filter.token?.toLowerCase();
+            const matching = events.filter(
+                (e) => (!filter.types || filter.types.includes(e.type)) && (!token || e.tokens.includes(token))
+            );
+            if (matching.length === 0) return;
+            try {
+                listener(matching);
+            } catch (error) {
+                console.error("[PoolEventHub] Subscriber failed.", error);
+            }
+        });
+    }
+}
+
+const hubs = new Map<string, PoolEventHub>();
+
+/** Shared hub per chain + contract, so every component subscribes through the same watch. */
+export function getPoolEventHub(publicClient: PublicClient, chainId: number, contractAddress: Address): PoolEventHub {
+    const key = `${chainId}:${contractAddress.toLowerCase()}`;
+    let hub = hubs.get(key);
+    if (!hub) {
+        hub = new PoolEventHub(publicClient, chainId, contractAddress);
+        hubs.set(key, hub);
+    } else {
+        hub.setPublicClient(publicClient);
+    }
+    return hub;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+import { Address } from "viem";
+import { EventIndexer, findDeploymentBlock } from "./event-indexer";
+
+const CONTRACT = "0x00000000000000000000000000000000000000d4" as Address;
+const HEAD = 1_000_000;
+
+/** Node that reports code for the contract from `deployedAt` on and has no logs. */
+function nodeWithDeployment(deployedAt: number) {
+    return {
+        getBlockNumber: vi.fn(async () => BigInt(HEAD)),
+        getCode: vi.fn(async ({ blockNumber }: { blockNumber: bigint }) => (blockNumber >= BigInt(deployedAt) ? "0x6080" : undefined)),
+        getLogs: vi.fn(async () => []),
+    };
+}
+
+type IndexerClient = ConstructorParameters<typeof EventIndexer>[0];
+
+describe("findDeploymentBlock", () => {
+    it("finds the first block holding the contract's code", async () => {
+        const node = nodeWithDeployment(123_457);
+        expect(await findDeploymentBlock(node as unknown as IndexerClient, CONTRACT)).toBe(123_457);
+        expect(node.getCode.mock.calls.length).toBeLessThanOrEqual(22);
+    });
+
+    it("handles a contract deployed at genesis or not at all", async () => {
+        expect(await findDeploymentBlock(nodeWithDeployment(0) as unknown as IndexerClient, CONTRACT)).toBe(0);
+        expect(await findDeploymentBlock(nodeWithDeployment(HEAD + 1) as unknown as IndexerClient, CONTRACT)).toBeNull();
+    });
+});
+
+describe("EventIndexer start block", () => {
+    it("starts scanning at the deployment block when it isn't recorded", async () => {
+        const node = nodeWithDeployment(HEAD - 1_500);
+        const indexer = new EventIndexer(node as unknown as IndexerClient, 1, CONTRACT, { startBlock: "unknown" });
+        await indexer.query();
+        expect(node.getLogs).toHaveBeenCalledTimes(2);
+        expect(node.getLogs.mock.calls[0]).toEqual([expect.objectContaining({ fromBlock: BigInt(HEAD - 1_500) })]);
+    });
+
+    it("falls back to block 0 when the node can't serve historical code", async () => {
+        const node = { ...nodeWithDeployment(0), getCode: vi.fn(async () => Promise.reject(new Error("missing trie node"))) };
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+        const indexer = new EventIndexer(node as unknown as IndexerClient, 1, CONTRACT, { startBlock: "unknown", chunkSize: HEAD });
+        await indexer.query();
+        expect(node.getLogs.mock.calls[0]).toEqual([expect.objectContaining({ fromBlock: BigInt(0) })]);
+    });
+});
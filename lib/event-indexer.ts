@@ -0,0 +1,407 @@
+import { ABI } from "@/types/contract";
+import { Address, Hash } from "viem";
+import { UsePublicClientReturnType } from "wagmi";
+import { getBlockTimeResolver } from "./block-time";
+
+type PublicClient = NonNullable<UsePublicClientReturnType>;
+
+export type MaelstromEventType = "BuyTrade" | "SellTrade" | "SwapTrade" | "Deposit" | "Withdraw";
+
+/** A decoded Maelstrom event as persisted by the indexer. Amounts are decimal strings, timestamps are ms. */
+export interface IndexedEvent {
+    id: string;
+    scope: string;
+    type: MaelstromEventType;
+    blockNumber: number;
+    logIndex: number;
+    txHash: Hash;
+    timestamp: number;
+    /** Lowercased pool token addresses this event touches (both sides for swaps). */
+    tokens: string[];
+    /** Lowercased trader / liquidity provider address. */
+    account: string;
+    args: Record<string, string>;
+}
+
+export interface EventQuery {
+    types?: MaelstromEventType[];
+    token?: Address;
+    account?: Address;
+    fromBlock?: number;
+    toBlock?: number;
+    /** Inclusive time bounds in ms; applied after the block window has been indexed. */
+    fromTime?: number;
+    toTime?: number;
+}
+
+export interface EventIndexerOptions {
+    /** First block worth scanning (contract deployment), or "unknown" to look it up on chain. Defaults to 0. */
+    startBlock?: number | "unknown";
+    /** Blocks per eth_getLogs request. Most public RPCs cap this at 1000. */
+    chunkSize?: number;
+    /** Blocks behind head that are fetched but not marked as scanned, so reorged logs get refetched. */
+    confirmations?: number;
+}
+
+type BlockRange = [number, number];
+
+const INDEXED_EVENTS = ABI.filter(
+    (item): item is Extract<(typeof ABI)[number], { type: "event" }> =>
+        item.type === "event" && item.name !== "PoolInitialized"
+);
+
+const DEPLOYMENT_BLOCK_KEY = "maelstrom:deployment-block";
+
+/**
+ * First block at which `address` holds code, by bisecting eth_getCode over [0, head]: about log2(head) calls.
+ * Needs a node that serves historical state. Null when the contract isn't deployed at head.
+ */
+export async function findDeploymentBlock(publicClient: PublicClient, address: Address): Promise<number | null> {
+    const hasCode = async (block: number) => {
+        const code = await publicClient.getCode({ address, blockNumber: BigInt(block) });
+        return !!code && code !== "0x";
+    };
+    let high = Number(await publicClient.getBlockNumber());
+    if (!(await hasCode(high))) return null;
+    let low = 0;
+    while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if (await hasCode(mid)) high = mid;
+        else low = mid + 1;
+    }
+    return low;
+}
+
+const DB_NAME = "maelstrom-events";
+const DB_VERSION = 1;
+const EVENTS_STORE = "events";
+const RANGES_STORE = "ranges";
+
+/** Persistence backend. IndexedDB in the browser, in-memory during SSR or when IndexedDB is blocked. */
+interface EventStore {
+    loadEvents(scope: string): Promise<IndexedEvent[]>;
+    loadRanges(scope: string): Promise<BlockRange[]>;
+    save(scope: string, events: IndexedEvent[], ranges: BlockRange[]): Promise<void>;
+}
+
+class MemoryEventStore implements EventStore {
+    private events = new Map<string, IndexedEvent[]>();
+    private ranges = new Map<string, BlockRange[]>();
+
+    async loadEvents(scope: string): Promise<IndexedEvent[]> {
+        return this.events.get(scope) ?? [];
+    }
+
+    async loadRanges(scope: string): Promise<BlockRange[]> {
+        return this.ranges.get(scope) ?? [];
+    }
+
+    async save(scope: string, events: IndexedEvent[], ranges: BlockRange[]): Promise<void> {
+        const byId = new Map((this.events.get(scope) ?? []).map((e) => [e.id, e]));
+        events.forEach((e) => byId.set(e.id, e));
+        this.events.set(scope, Array.from(byId.values()));
+        this.ranges.set(scope, ranges);
+    }
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+class IndexedDbEventStore implements EventStore {
+    private db: Promise<IDBDatabase>;
+
+    constructor() {
+        this.db = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+                    db.createObjectStore(EVENTS_STORE, { keyPath: "id" }).createIndex("scope", "scope");
+                }
+                if (!db.objectStoreNames.contains(RANGES_STORE)) {
+                    db.createObjectStore(RANGES_STORE, { keyPath: "scope" });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    async loadEvents(scope: string): Promise<IndexedEvent[]> {
+        const db = await this.db;
+        const index = db.transaction(EVENTS_STORE, "readonly").objectStore(EVENTS_STORE).index("scope");
+        return promisifyRequest(index.getAll(scope) as IDBRequest<IndexedEvent[]>);
+    }
+
+    async loadRanges(scope: string): Promise<BlockRange[]> {
+        const db = await this.db;
+        const store = db.transaction(RANGES_STORE, "readonly").objectStore(RANGES_STORE);
+        const row = (await promisifyRequest(store.get(scope))) as { scope: string; ranges: BlockRange[] } | undefined;
+        return row?.ranges ?? [];
+    }
+
+    async save(scope: string, events: IndexedEvent[], ranges: BlockRange[]): Promise<void> {
+        const db = await this.db;
+        const tx = db.transaction([EVENTS_STORE, RANGES_STORE], "readwrite");
+        const eventStore = tx.objectStore(EVENTS_STORE);
+        events.forEach((e) => eventStore.put(e));
+        tx.objectStore(RANGES_STORE).put({ scope, ranges });
+        await new Promise<void>((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+}
+
+let sharedStore: EventStore | undefined;
+
+function getEventStore(): EventStore {
+    if (!sharedStore) {
+        sharedStore = typeof indexedDB === "undefined" ? new MemoryEventStore() : new IndexedDbEventStore();
+    }
+    return sharedStore;
+}
+
+/** Merge overlapping or adjacent ranges; input need not be sorted. */
+function mergeRanges(ranges: BlockRange[]): BlockRange[] {
+    const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+    const merged: BlockRange[] = [];
+    for (const [from, to] of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && from <= last[1] + 1) {
+            last[1] = Math.max(last[1], to);
+        } else {
+            merged.push([from, to]);
+        }
+    }
+    return merged;
+}
+
+/** Sub-ranges of [from, to] not covered by `scanned` (which must be merged). */
+function missingRanges(scanned: BlockRange[], from: number, to: number): BlockRange[] {
+    const missing: BlockRange[] = [];
+    let cursor = from;
+    for (const [start, end] of scanned) {
+        if (end < cursor) continue;
+        if (start > to) break;
+        if (start > cursor) missing.push([cursor, Math.min(start - 1, to)]);
+        cursor = Math.max(cursor, end + 1);
+        if (cursor > to) break;
+    }
+    if (cursor <= to) missing.push([cursor, to]);
+    return missing;
+}
+
+function lower(address: unknown): string {
+    return String(address).toLowerCase();
+}
+
+/** Stringified args plus the pool tokens and account a decoded Maelstrom log touches. */
+export function summarizeLog(eventName: string, rawArgs: Record<string, unknown>): Pick<IndexedEvent, "args" | "tokens" | "account"> {
+    const args = Object.fromEntries(Object.entries(rawArgs).map(([key, value]) => [key, String(value)]));
+    const tokens = eventName === "SwapTrade" ? [lower(args.tokenSold), lower(args.tokenBought)] : [lower(args.token)];
+    const account = lower(args.trader ?? args.user ?? "");
+    return { args, tokens, account };
+}
+
+/**
+ * Client-side index of Maelstrom events for one chain + contract.
+ * Remembers which block ranges have been scanned and only asks the RPC for the gaps;
+ * decoded events are persisted so revisiting a page does not refetch history.
+ */
+export class EventIndexer {
+    readonly scope: string;
+    private publicClient: PublicClient;
+    private chainId: number;
+    private contractAddress: Address;
+    private startBlock: number | "unknown";
+    private startBlockLookup: Promise<number> | null = null;
+    private chunkSize: number;
+    private confirmations: number;
+    private store: EventStore;
+    private events = new Map<string, IndexedEvent>();
+    private scanned: BlockRange[] = [];
+    private loaded: Promise<void> | null = null;
+    /** Serialises syncs so concurrent callers never fetch the same gap twice. */
+    private syncQueue: Promise<void> = Promise.resolve();
+
+    constructor(publicClient: PublicClient, chainId: number, contractAddress: Address, options: EventIndexerOptions = {}) {
+        this.publicClient = publicClient;
+        this.contractAddress = contractAddress;
+        this.chainId = chainId;
+        this.scope = `${chainId}:${contractAddress.toLowerCase()}`;
+        this.startBlock = options.startBlock ?? 0;
+        this.chunkSize = options.chunkSize ?? 999;
+        this.confirmations = options.confirmations ?? 5;
+        this.store = getEventStore();
+    }
+
+    setPublicClient(publicClient: PublicClient): void {
+        this.publicClient = publicClient;
+    }
+
+    private async load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = (async () => {
+                try {
+                    const [events, ranges] = await Promise.all([
+                        this.store.loadEvents(this.scope),
+                        this.store.loadRanges(this.scope),
+                    ]);
+                    events.forEach((e) => this.events.set(e.id, e));
+                    this.scanned = mergeRanges(ranges);
+                } catch (error) {
+                    console.warn("[EventIndexer] Failed to load cached events, starting empty.", error);
+                }
+            })();
+        }
+        return this.loaded;
+    }
+
+    /** Block ranges already indexed (merged, ascending). */
+    async getScannedRanges(): Promise<BlockRange[]> {
+        await this.load();
+        return this.scanned.map(([from, to]) => [from, to]);
+    }
+
+    /** Make sure every block in [fromBlock, toBlock] has been indexed. */
+    async sync(fromBlock: number, toBlock: number): Promise<void> {
+        const run = this.syncQueue.then(() => this.syncRange(fromBlock, toBlock));
+        this.syncQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    /**
+     * The configured start block, or the deployment block found on chain when it isn't recorded. Found blocks are
+     * remembered across reloads; when the node can't serve historical code, scans start at 0 for this session.
+     */
+    private async getStartBlock(): Promise<number> {
+        if (this.startBlock !== "unknown") return this.startBlock;
+        this.startBlockLookup ??= (async () => {
+            const storageKey = `${DEPLOYMENT_BLOCK_KEY}:${this.scope}`;
+            const stored = typeof window === "undefined" ? null : window.localStorage.getItem(storageKey);
+            if (stored !== null) return Number(stored);
+            try {
+                const block = await findDeploymentBlock(this.publicClient, this.contractAddress);
+                // Nothing to scan yet; not remembered, so the lookup runs again once the contract is deployed
+                if (block === null) return Number(await this.publicClient.getBlockNumber());
+                if (typeof window !== "undefined") window.localStorage.setItem(storageKey, String(block));
+                return block;
+            } catch (error) {
+                console.warn("[EventIndexer] Could not find the deployment block, scanning from 0.", error);
+                return 0;
+            }
+        })();
+        return this.startBlockLookup;
+    }
+
+    private async syncRange(fromBlock: number, toBlock: number): Promise<void> {
+        await this.load();
+        const from = Math.max(fromBlock, await this.getStartBlock());
+        if (from > toBlock) return;
+        const head = Number(await this.publicClient.getBlockNumber());
+        const safeBlock = head - this.confirmations;
+
+        for (const [gapFrom, gapTo] of missingRanges(this.scanned, from, toBlock)) {
+            for (let chunkFrom = gapFrom; chunkFrom <= gapTo; chunkFrom += this.chunkSize + 1) {
+                const chunkTo = Math.min(chunkFrom + this.chunkSize, gapTo);
+                const events = await this.fetchRange(chunkFrom, chunkTo);
+                // Unsettled blocks are rescanned until they pass the confirmation depth; replace what an
+                // earlier scan found there so events from reorged-out blocks do not linger
+                this.events.forEach((e, id) => {
+                    if (e.blockNumber >= chunkFrom && e.blockNumber <= chunkTo) this.events.delete(id);
+                });
+                events.forEach((e) => this.events.set(e.id, e));
+                const settledTo = Math.min(chunkTo, safeBlock);
+                if (settledTo >= chunkFrom) {
+                    this.scanned = mergeRanges([...this.scanned, [chunkFrom, settledTo]]);
+                }
+                try {
+                    // Only settled events are persisted; the rest are kept in memory until a rescan confirms them
+                    await this.store.save(
+                        this.scope,
+                        events.filter((e) => e.blockNumber <= settledTo),
+                        this.scanned
+                    );
+                } catch (error) {
+                    console.warn("[EventIndexer] Failed to persist events.", error);
+                }
+            }
+        }
+    }
+
+    private async fetchRange(fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+        const logs = await this.publicClient.getLogs({
+            address: this.contractAddress,
+            events: INDEXED_EVENTS,
+            fromBlock: BigInt(fromBlock),
+            toBlock: BigInt(toBlock),
+            strict: true,
+        });
+        const timestamps = await getBlockTimeResolver(this.publicClient, this.chainId).getTimestampsInRange(
+            logs.map((log) => Number(log.blockNumber)),
+            fromBlock,
+            toBlock
+        );
+
+        return logs.map((log) => ({
+            id: `${log.transactionHash}:${log.logIndex}`,
+            scope: this.scope,
+            type: log.eventName as MaelstromEventType,
+            blockNumber: Number(log.blockNumber),
+            logIndex: log.logIndex,
+            txHash: log.transactionHash,
+            timestamp: timestamps.get(Number(log.blockNumber)) ?? 0,
+            ...summarizeLog(log.eventName, log.args as Record<string, unknown>),
+        }));
+    }
+
+    /**
+     * Index the requested block window (defaults: startBlock → head) and return matching events,
+     * oldest first.
+     */
+    async query(query: EventQuery = {}): Promise<IndexedEvent[]> {
+        const toBlock = query.toBlock ?? Number(await this.publicClient.getBlockNumber());
+        const fromBlock = query.fromBlock ?? (await this.getStartBlock());
+        await this.sync(fromBlock, toBlock);
+
+        const token = query.token?.toLowerCase();
+        const account = query.account?.toLowerCase();
+        return Array.from(this.events.values())
+            .filter((e) =>
+                e.blockNumber >= fromBlock &&
+                e.blockNumber <= toBlock &&
+                (!query.types || query.types.includes(e.type)) &&
+                (!token || e.tokens.includes(token)) &&
+                (!account || e.account === account) &&
+                (query.fromTime === undefined || e.timestamp >= query.fromTime) &&
+                (query.toTime === undefined || e.timestamp <= query.toTime)
+            )
+            .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    }
+}
+
+const indexers = new Map<string, EventIndexer>();
+
+/** Shared indexer per chain + contract, so every ContractClient instance reuses the same cache. */
+export function getEventIndexer(
+    publicClient: PublicClient,
+    chainId: number,
+    contractAddress: Address,
+    options?: EventIndexerOptions
+): EventIndexer {
+    const key = `${chainId}:${contractAddress.toLowerCase()}`;
+    let indexer = indexers.get(key);
+    if (!indexer) {
+        indexer = new EventIndexer(publicClient, chainId, contractAddress, options);
+        indexers.set(key, indexer);
+    } else {
+        indexer.setPublicClient(publicClient);
+    }
+    return indexer;
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+    applySlippage,
+    average,
+    divide,
+    mulDiv,
+    priceRatio,
+    quoteExactIn,
+    quoteExactOut,
+    quoteWorsened,
+    tokenToWei,
+    WAD,
+    wadDiv,
+    wadMul,
+    weiToToken,
+} from "./fixed-point";
+
+const n = (value: number | string) => BigInt(value);
+const MAX_UINT256 = (n(1) << n(256)) - n(1);
+
+describe("divide", () => {
+    it("rounds down by default", () => {
+        expect(divide(n(7), n(2))).toBe(n(3));
+        expect(divide(n(1), n(3))).toBe(n(0));
+    });
+
+    it("rounds up only when there is a remainder", () => {
+        expect(divide(n(7), n(2), "up")).toBe(n(4));
+        expect(divide(n(1), n(3), "up")).toBe(n(1));
+        expect(divide(n(6), n(2), "up")).toBe(n(3));
+    });
+
+    it("rounds half up to nearest", () => {
+        expect(divide(n(5), n(2), "nearest")).toBe(n(3));
+        expect(divide(n(4), n(3), "nearest")).toBe(n(1));
+        expect(divide(n(5), n(3), "nearest")).toBe(n(2));
+    });
+
+    it("throws on a zero divisor in every rounding mode", () => {
+        expect(() => divide(n(1), n(0))).toThrow(RangeError);
+        expect(() => divide(n(0), n(0), "up")).toThrow(RangeError);
+        expect(() => divide(n(1), n(0), "nearest")).toThrow(RangeError);
+    });
+});
+
+describe("mulDiv", () => {
+    it("keeps the intermediate product exact", () => {
+        // (2^255 * 6) / 3 overflows 256 bits in the product but not in the result
+        const big = n(1) << n(255);
+        expect(mulDiv(big, n(6), n(3))).toBe(big * n(2));
+    });
+
+    it("handles uint256-sized operands without losing precision", () => {
+        expect(mulDiv(MAX_UINT256, MAX_UINT256, MAX_UINT256)).toBe(MAX_UINT256);
+        expect(mulDiv(MAX_UINT256, n(1), n(2))).toBe(MAX_UINT256 / n(2));
+        expect(mulDiv(MAX_UINT256, n(1), n(2), "up")).toBe(MAX_UINT256 / n(2) + n(1));
+    });
+
+    it("applies the rounding mode to the final division", () => {
+        expect(mulDiv(n(10), n(10), n(3))).toBe(n(33));
+        expect(mulDiv(n(10), n(10), n(3), "up")).toBe(n(34));
+        expect(mulDiv(n(10), n(10), n(3), "nearest")).toBe(n(33));
+        expect(mulDiv(n(10), n(11), n(3), "nearest")).toBe(n(37));
+    });
+
+    it("throws on a zero denominator", () => {
+        expect(() => mulDiv(n(1), n(1), n(0))).toThrow(RangeError);
+    });
+});
+
+describe("wad math", () => {
+    it("multiplies and divides 18-decimal numbers", () => {
+        expect(wadMul(WAD * n(3), WAD / n(2))).toBe((WAD * n(3)) / n(2));
+        expect(wadDiv(WAD, WAD * n(4))).toBe(WAD / n(4));
+    });
+
+    it("rounds a repeating quotient in the requested direction", () => {
+        expect(wadDiv(WAD, WAD * n(3))).toBe(n("333333333333333333"));
+        expect(wadDiv(WAD, WAD * n(3), "up")).toBe(n("333333333333333334"));
+    });
+
+    it("averages with rounding", () => {
+        expect(average(n(1), n(2))).toBe(n(1));
+        expect(average(n(1), n(2), "up")).toBe(n(2));
+    });
+});
+
+describe("prices", () => {
+    it("converts between tokens and wei and survives a zero price", () => {
+        const price = WAD / n(500);
+        expect(tokenToWei(WAD * n(500), price)).toBe(WAD);
+        expect(weiToToken(WAD, price)).toBe(WAD * n(500));
+        expect(weiToToken(WAD, n(0))).toBe(n(0));
+        expect(priceRatio(WAD, n(0))).toBe(n(0));
+    });
+
+    it("quotes exact-in down and exact-out up so inputs always cover outputs", () => {
+        const sellPrice = n("333333333333333333");
+        const buyPrice = n("700000000000000001");
+        const { amountOut } = quoteExactIn(WAD, sellPrice, buyPrice);
+        const { amountIn } = quoteExactOut(amountOut, sellPrice, buyPrice);
+        expect(amountIn).toBeLessThanOrEqual(WAD);
+        expect(quoteExactIn(amountIn, sellPrice, buyPrice).amountOut).toBeGreaterThanOrEqual(amountOut);
+    });
+});
+
+describe("slippage", () => {
+    it("applies a percentage tolerance rounded down", () => {
+        expect(applySlippage(n(1000), 0.5)).toBe(n(995));
+        expect(applySlippage(n(999), 1)).toBe(n(989));
+        expect(applySlippage(n(1000), 0)).toBe(n(1000));
+    });
+
+    it("flags a quote whose rate worsened past the tolerance", () => {
+        const accepted = { amountIn: n(100), amountOut: n(1000) };
+        expect(quoteWorsened(accepted, { amountIn: n(100), amountOut: n(996) }, 0.5)).toBe(false);
+        expect(quoteWorsened(accepted, { amountIn: n(100), amountOut: n(994) }, 0.5)).toBe(true);
+        expect(quoteWorsened(accepted, { amountIn: n(100), amountOut: n(999) }, 0)).toBe(true);
+        // A better rate for a different input size is never a worsening
+        expect(quoteWorsened(accepted, { amountIn: n(50), amountOut: n(600) }, 0)).toBe(false);
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * Exact bigint math for prices, reserves, LP shares and volume. Nothing here goes through `Number`.
+ *
+ * Values are integers in their on-chain units: wei, token base units, or prices (wei per 1e18 token base units,
+ * see units.ts). Every division takes an explicit rounding mode so callers decide who absorbs the remainder:
+ * round amounts the user receives down and amounts the user pays up.
+ */
+
+export type Rounding = "down" | "up" | "nearest";
+
+export const ZERO = BigInt(0);
+export const ONE = BigInt(1);
+export const WAD = BigInt(10) ** BigInt(18);
+export const BPS = BigInt(10000);
+
+/** a / b with the given rounding. Operands must be non-negative; throws on division by zero. */
+export function divide(a: bigint, b: bigint, rounding: Rounding = "down"): bigint {
+    if (b === ZERO) throw new RangeError("Division by zero.");
+    const quotient = a / b;
+    const remainder = a % b;
+    if (remainder === ZERO) return quotient;
+    if (rounding === "up") return quotient + ONE;
+    if (rounding === "nearest") return remainder * BigInt(2) >= b ? quotient + ONE : quotient;
+    return quotient;
+}
+
+/** a * b / denominator without intermediate precision loss. */
+export function mulDiv(a: bigint, b: bigint, denominator: bigint, rounding: Rounding = "down"): bigint {
+    return divide(a * b, denominator, rounding);
+}
+
+/** a * b for two 18-decimal fixed-point numbers. */
+export function wadMul(a: bigint, b: bigint, rounding: Rounding = "down"): bigint {
+    return mulDiv(a, b, WAD, rounding);
+}
+
+/** a / b for two 18-decimal fixed-point numbers. */
+export function wadDiv(a: bigint, b: bigint, rounding: Rounding = "down"): bigint {
+    return mulDiv(a, WAD, b, rounding);
+}
+
+export function min(a: bigint, b: bigint): bigint {
+    return a < b ? a : b;
+}
+
+export function max(a: bigint, b: bigint): bigint {
+    return a > b ? a : b;
+}
+
+/** Midpoint of two values, e.g. the average of buy and sell price. */
+export function average(a: bigint, b: bigint, rounding: Rounding = "down"): bigint {
+    return divide(a + b, BigInt(2), rounding);
+}
+
+/** `amount` scaled by a percentage given in basis points (10000 = 100%). */
+export function applyBps(amount: bigint, bps: bigint, rounding: Rounding = "down"): bigint {
+    return mulDiv(amount, bps, BPS, rounding);
+}
+
+/** Basis points from a percentage like 0.5 (%). The percentage itself is UI input, so it's rounded to 0.01%. */
+export function percentToBps(percent: number): bigint {
+    return BigInt(Math.round(percent * 100));
+}
+
+// ---- Prices ----
+
+/** Wei value of `amount` token base units at `price`. */
+export function tokenToWei(amount: bigint, price: bigint, rounding: Rounding = "down"): bigint {
+    return mulDiv(amount, price, WAD, rounding);
+}
+
+/** Token base units worth `wei` at `price`; zero when there is no price. */
+export function weiToToken(wei: bigint, price: bigint, rounding: Rounding = "down"): bigint {
+    return price === ZERO ? ZERO : mulDiv(wei, WAD, price, rounding);
+}
+
+/** Ratio of two prices as an 18-decimal fixed-point number; zero when the denominator is zero. */
+export function priceRatio(numerator: bigint, denominator: bigint, rounding: Rounding = "down"): bigint {
+    return denominator === ZERO ? ZERO : wadDiv(numerator, denominator, rounding);
+}
+
+// ---- Quotes ----
+
+/**
+ * Token-for-token quote routed through ETH: sell `amountIn` at `sellPrice`, buy with the proceeds at `buyPrice`.
+ * Both legs round down, so the quote never promises more than the contract pays.
+ */
+export function quoteExactIn(amountIn: bigint, sellPrice: bigint, buyPrice: bigint): { ethAmount: bigint; amountOut: bigint } {
+    const ethAmount = tokenToWei(amountIn, sellPrice, "down");
+    return { ethAmount, amountOut: weiToToken(ethAmount, buyPrice, "down") };
+}
+
+/** Input needed for `amountOut`; both legs round up so the input always covers the output. */
+export function quoteExactOut(amountOut: bigint, sellPrice: bigint, buyPrice: bigint): { ethAmount: bigint; amountIn: bigint } {
+    const ethAmount = tokenToWei(amountOut, buyPrice, "up");
+    return { ethAmount, amountIn: weiToToken(ethAmount, sellPrice, "up") };
+}
+
+/** Minimum acceptable output under a slippage tolerance in percent (0.5 = 0.5%), rounded down. */
+export function applySlippage(amount: bigint, slippagePercent: number): bigint {
+    return applyBps(amount, BPS - percentToBps(slippagePercent), "down");
+}
+
+/**
+ * Whether `fresh` pays a worse rate than `accepted` by more than a slippage tolerance in percent. Rates are compared
+ * as amountOut / amountIn by cross-multiplying, so quotes for different input amounts compare exactly.
+ */
+export function quoteWorsened(
+    accepted: { amountIn: bigint; amountOut: bigint },
+    fresh: { amountIn: bigint; amountOut: bigint },
+    slippagePercent: number
+): boolean {
+    return fresh.amountOut * accepted.amountIn * BPS < accepted.amountOut * fresh.amountIn * (BPS - percentToBps(slippagePercent));
+}
+
+// ---- Reserves and liquidity ----
+
+/** Pool value in wei: the token reserve at `avgPrice` plus the ETH reserve. */
+export function totalLiquidity(tokenReserve: bigint, ethReserve: bigint, avgPrice: bigint): bigint {
+    return tokenToWei(tokenReserve, avgPrice, "down") + ethReserve;
+}
+
+/** `part / total` of `amount`, e.g. the reserve an LP balance is entitled to. Zero when `total` is zero. */
+export function proportionOf(amount: bigint, part: bigint, total: bigint, rounding: Rounding = "down"): bigint {
+    return total === ZERO ? ZERO : mulDiv(amount, part, total, rounding);
+}
+
+/** Share of the pool as basis points (10000 = 100%). */
+export function shareBps(part: bigint, total: bigint): bigint {
+    return proportionOf(BPS, part, total, "down");
+}
+
+/** Sum of a list of amounts, e.g. trade volume. */
+export function sum(values: bigint[]): bigint {
+    return values.reduce((acc, value) => acc + value, ZERO);
+}
@@ -0,0 +1,90 @@
+import { Abi, Address, BaseError, ChainDoesNotSupportContract, ContractFunctionParameters, ContractFunctionZeroDataError } from "viem";
+import { UsePublicClientReturnType } from "wagmi";
+
+type PublicClient = NonNullable<UsePublicClientReturnType>;
+
+/** One contract read inside a batch. */
+export interface ReadCall {
+    address: Address;
+    abi: Abi;
+    functionName: string;
+    args?: readonly unknown[];
+}
+
+/** Per-call outcome; a failing call never fails the rest of the batch. */
+export type ReadResult =
+    | { status: "success"; result: unknown }
+    | { status: "failure"; error: Error };
+
+/** Calls per aggregate3 request. Keeps calldata and responses well under public RPC size limits. */
+const MULTICALL_CHUNK_SIZE = 100;
+
+/** Chains whose declared Multicall3 address turned out to have no code. */
+const multicallUnavailable = new Set<number>();
+
+function toError(err: unknown): Error {
+    return err instanceof Error ? err : new Error(String(err));
+}
+
+/** The aggregate call itself cannot work on this chain (no code at the Multicall3 address). */
+function isMulticallMissing(err: unknown): boolean {
+    if (!(err instanceof BaseError)) return false;
+    return Boolean(err.walk((e) => e instanceof ContractFunctionZeroDataError || e instanceof ChainDoesNotSupportContract));
+}
+
+/** True when the connected chain declares a Multicall3 deployment that has not failed before. */
+export function supportsMulticall(publicClient: PublicClient): boolean {
+    const chain = publicClient.chain;
+    if (!chain?.contracts?.multicall3) return false;
+    return !multicallUnavailable.has(chain.id);
+}
+
+async function readIndividually(publicClient: PublicClient, calls: ReadCall[]): Promise<ReadResult[]> {
+    return Promise.all(
+        calls.map(async (call): Promise<ReadResult> => {
+            try {
+                const result = await publicClient.readContract(call as Parameters<PublicClient["readContract"]>[0]);
+                return { status: "success", result };
+            } catch (error) {
+                return { status: "failure", error: toError(error) };
+            }
+        })
+    );
+}
+
+/**
+ * Execute many reads with as few RPC requests as possible.
+ * Uses Multicall3 `aggregate3` when the chain has it, otherwise (or if the aggregate call itself fails)
+ * falls back to parallel `eth_call`s. Results are returned in the same order as `calls`.
+ */
+export async function batchRead(publicClient: PublicClient, calls: ReadCall[]): Promise<ReadResult[]> {
+    if (calls.length === 0) return [];
+    if (!supportsMulticall(publicClient)) return readIndividually(publicClient, calls);
+
+    const results: ReadResult[] = [];
+    for (let i = 0; i < calls.length; i += MULTICALL_CHUNK_SIZE) {
+        const chunk = calls.slice(i, i + MULTICALL_CHUNK_SIZE);
+        if (!supportsMulticall(publicClient)) {
+            results.push(...(await readIndividually(publicClient, chunk)));
+            continue;
+        }
+        try {
+            const chunkResults = await publicClient.multicall({
+                contracts: chunk as unknown as ContractFunctionParameters[],
+                allowFailure: true,
+            });
+            results.push(
+                ...chunkResults.map((r): ReadResult =>
+                    r.status === "success"
+                        ? { status: "success", result: r.result }
+                        : { status: "failure", error: toError(r.error) }
+                )
+            );
+        } catch (error) {
+            console.warn("[multicall] aggregate3 failed, falling back to individual reads.", toError(error).message);
+            if (publicClient.chain && isMulticallMissing(error)) multicallUnavailable.add(publicClient.chain.id);
+            results.push(...(await readIndividually(publicClient, chunk)));
+        }
+    }
+    return results;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from "vitest";
+import { InfiniteData, QueryClient } from "@tanstack/react-query";
+import { Address } from "viem";
+import { IContractClient } from "@/types/contract";
+import { RowPool } from "@/types/pool";
+import { LivePoolEvent } from "./event-hub";
+import { invalidateLiveEvents, maelstromKeys } from "./query-keys";
+
+const SCOPE = "63:0x39a04312f7640fa2b84833c96fc439d88207c9cd";
+const TRADER = "0x00000000000000000000000000000000000000a1";
+const OTHER = "0x00000000000000000000000000000000000000a2";
+const tokenAt = (i: number): Address => `0x${(0xb0 + i).toString(16).padStart(40, "0")}`;
+
+const row = (i: number, buyPrice = "1"): RowPool => ({
+    token: { address: tokenAt(i), symbol: `T${i}`, name: `Token ${i}`, decimals: 18 },
+    buyPrice,
+    sellPrice: "1",
+    totalLiquidity: "1",
+});
+
+const buyEvent = (token: string): LivePoolEvent => ({
+    id: "1",
+    type: "BuyTrade",
+    blockNumber: 100,
+    logIndex: 0,
+    txHash: "0x01",
+    timestamp: 0,
+    tokens: [token],
+    account: TRADER,
+    args: {},
+});
+
+const PAGES_KEY = [...maelstromKeys.pools(SCOPE), "pages", 2, 4];
+
+function seededCache() {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData<InfiniteData<RowPool[], number>>(PAGES_KEY, {
+        pages: [
+            [row(0), row(1)],
+            [row(2), row(3)],
+        ],
+        pageParams: [0, 2],
+    });
+    const keys = {
+        touchedPool: [...maelstromKeys.pool(SCOPE, tokenAt(2)), "state"],
+        otherPool: [...maelstromKeys.pool(SCOPE, tokenAt(1)), "state"],
+        traderBalances: [...maelstromKeys.balances(SCOPE, TRADER), [tokenAt(2)]],
+        otherBalances: [...maelstromKeys.balances(SCOPE, OTHER), [tokenAt(2)]],
+        poolBuys: [...maelstromKeys.events(SCOPE), "buy", tokenAt(2), undefined, 1000],
+        allBuys: [...maelstromKeys.events(SCOPE), "buy", undefined, undefined, 1000],
+        otherPoolBuys: [...maelstromKeys.events(SCOPE), "buy", tokenAt(1), undefined, 1000],
+        poolDeposits: [...maelstromKeys.events(SCOPE), "deposit", tokenAt(2), undefined, 1000],
+        poolCount: maelstromKeys.poolCount(SCOPE),
+    };
+    Object.values(keys).forEach((key) => queryClient.setQueryData(key, {}));
+    return { queryClient, keys };
+}
+
+const isStale = (queryClient: QueryClient, key: readonly unknown[]) => queryClient.getQueryState(key)?.isInvalidated;
+
+describe("invalidateLiveEvents", () => {
+    it("only marks the pools, accounts and event lists the events touch", () => {
+        const { queryClient, keys } = seededCache();
+        invalidateLiveEvents(queryClient, null, SCOPE, [buyEvent(tokenAt(2))]);
+        expect(isStale(queryClient, keys.touchedPool)).toBe(true);
+        expect(isStale(queryClient, keys.traderBalances)).toBe(true);
+        expect(isStale(queryClient, keys.poolBuys)).toBe(true);
+        expect(isStale(queryClient, keys.allBuys)).toBe(true);
+        expect(isStale(queryClient, keys.otherPool)).toBe(false);
+        expect(isStale(queryClient, keys.otherBalances)).toBe(false);
+        expect(isStale(queryClient, keys.otherPoolBuys)).toBe(false);
+        expect(isStale(queryClient, keys.poolDeposits)).toBe(false);
+        expect(isStale(queryClient, keys.poolCount)).toBe(false);
+        expect(isStale(queryClient, PAGES_KEY)).toBe(false);
+    });
+
+    it("re-reads just the touched rows of the pool list", async () => {
+        const { queryClient } = seededCache();
+        const getPools = vi.fn(async (start: number) => [row(start, "2")]);
+        invalidateLiveEvents(queryClient, { getPools } as unknown as IContractClient, SCOPE, [buyEvent(tokenAt(2))]);
+        await vi.waitFor(() => expect(queryClient.getQueryData<InfiniteData<RowPool[]>>(PAGES_KEY)?.pages[1][0].buyPrice).toBe("2"));
+        expect(getPools).toHaveBeenCalledTimes(1);
+        expect(getPools).toHaveBeenCalledWith(2, 2);
+        expect(isStale(queryClient, PAGES_KEY)).toBe(false);
+    });
+});
@@ -0,0 +1,115 @@
+import { InfiniteData, QueryClient, QueryKey } from "@tanstack/react-query";
+import { IContractClient } from "@/types/contract";
+import { RowPool } from "@/types/pool";
+import { LiveEventType, LivePoolEvent } from "./event-hub";
+
+/**
+ * React Query keys for protocol data. Everything sits under `["maelstrom", scope]`, where scope identifies the
+ * chain + contract (or demo mode), and per-pool data under `pool(token)` so one prefix invalidates all of it.
+ */
+export const maelstromKeys = {
+    all: (scope: string) => ["maelstrom", scope] as const,
+    poolCount: (scope: string) => [...maelstromKeys.all(scope), "poolCount"] as const,
+    totalFees: (scope: string) => [...maelstromKeys.all(scope), "totalFees"] as const,
+    pools: (scope: string) => [...maelstromKeys.all(scope), "pools"] as const,
+    /** Without `user`: the prefix of every user's pools. */
+    userPools: (scope: string, user?: string) =>
+        user ? ([...maelstromKeys.all(scope), "userPools", user.toLowerCase()] as const) : ([...maelstromKeys.all(scope), "userPools"] as const),
+    pool: (scope: string, token: string) => [...maelstromKeys.all(scope), "pool", token.toLowerCase()] as const,
+    events: (scope: string) => [...maelstromKeys.all(scope), "events"] as const,
+    token: (scope: string, token: string) => [...maelstromKeys.all(scope), "token", token.toLowerCase()] as const,
+    /** Without `user`: the prefix of every account's wallet balances. */
+    balances: (scope: string, user?: string) =>
+        user ? ([...maelstromKeys.all(scope), "balances", user.toLowerCase()] as const) : ([...maelstromKeys.all(scope), "balances"] as const),
+};
+
+/** Mark everything a write or new event on these pools may have changed: the pools, the lists, event history and balances. */
+export function invalidatePoolData(queryClient: QueryClient, scope: string, tokens: string[]): void {
+    new Set(tokens.map((token) => token.toLowerCase())).forEach((token) => {
+        queryClient.invalidateQueries({ queryKey: maelstromKeys.pool(scope, token) });
+    });
+    queryClient.invalidateQueries({ queryKey: maelstromKeys.poolCount(scope) });
+    queryClient.invalidateQueries({ queryKey: maelstromKeys.totalFees(scope) });
+    queryClient.invalidateQueries({ queryKey: maelstromKeys.pools(scope) });
+    queryClient.invalidateQueries({ queryKey: maelstromKeys.userPools(scope) });
+    queryClient.invalidateQueries({ queryKey: maelstromKeys.events(scope) });
+    queryClient.invalidateQueries({ queryKey: maelstromKeys.balances(scope) });
+}
+
+/** `usePoolEvents` kind each live event type is listed under. */
+const EVENT_KINDS: Partial<Record<LiveEventType, string>> = {
+    BuyTrade: "buy",
+    SellTrade: "sell",
+    SwapTrade: "swap",
+    Deposit: "deposit",
+    Withdraw: "withdraw",
+};
+
+/**
+ * Mark only what a batch of live events changed: the touched pools, the event lists and balances of the accounts
+ * and pools involved, and the user pool lists of those accounts or holding a touched pool. Rows of the pool list are re-read one by one
+ * instead of refetching every loaded page.
+ */
+export function invalidateLiveEvents(queryClient: QueryClient, client: IContractClient | null, scope: string, events: LivePoolEvent[]): void {
+    const tokens = new Set(events.flatMap((event) => event.tokens.map((token) => token.toLowerCase())));
+    const accounts = new Set(events.map((event) => event.account.toLowerCase()));
+    const kinds = new Set(events.map((event) => EVENT_KINDS[event.type]));
+
+    tokens.forEach((token) => queryClient.invalidateQueries({ queryKey: maelstromKeys.pool(scope, token) }));
+    accounts.forEach((account) => queryClient.invalidateQueries({ queryKey: maelstromKeys.balances(scope, account) }));
+    // Key: [...events(scope), kind, token, user, lookbackBlocks]
+    queryClient.invalidateQueries({
+        queryKey: maelstromKeys.events(scope),
+        predicate: ({ queryKey }) => {
+            const [kind, token, user] = queryKey.slice(3) as (string | undefined)[];
+            return kinds.has(kind) && (!token || tokens.has(token)) && (!user || accounts.has(user));
+        },
+    });
+    queryClient.invalidateQueries({
+        queryKey: maelstromKeys.userPools(scope),
+        predicate: ({ queryKey, state }) => {
+            const data = state.data as { pools: RowPool[] } | undefined;
+            return accounts.has(queryKey[3] as string) || !!data?.pools.some((row) => tokens.has(row.token.address.toLowerCase()));
+        },
+    });
+    if (events.some((event) => event.type !== "PoolInitialized")) {
+        queryClient.invalidateQueries({ queryKey: maelstromKeys.totalFees(scope) });
+    }
+    if (events.some((event) => event.type === "PoolInitialized")) {
+        // A new pool changes the count, which is part of the pool list key, so the list reloads anyway
+        queryClient.invalidateQueries({ queryKey: maelstromKeys.poolCount(scope) });
+        tokens.forEach((token) => queryClient.invalidateQueries({ queryKey: [...maelstromKeys.token(scope, token), "pool"] }));
+    } else if (client) {
+        queryClient
+            .getQueriesData<InfiniteData<RowPool[], number>>({ queryKey: maelstromKeys.pools(scope) })
+            .forEach(([queryKey, data]) => refreshPoolRows(queryClient, client, queryKey, data, tokens));
+    }
+}
+
+/** Re-reads the loaded rows of one pool list query whose token is in `tokens`; refetches the list if that fails. */
+async function refreshPoolRows(
+    queryClient: QueryClient,
+    client: IContractClient,
+    queryKey: QueryKey,
+    data: InfiniteData<RowPool[], number> | undefined,
+    tokens: Set<string>
+): Promise<void> {
+    if (!data) return;
+    const indices = data.pages.flatMap((page, p) =>
+        page.flatMap((row, r) => (tokens.has(row.token.address.toLowerCase()) ? [data.pageParams[p] + r] : []))
+    );
+    if (indices.length === 0) return;
+    try {
+        const rows = (await Promise.all(indices.map((index) => client.getPools(index, index)))).flat();
+        const fresh = new Map(rows.map((row) => [row.token.address.toLowerCase(), row]));
+        queryClient.setQueryData<InfiniteData<RowPool[], number>>(queryKey, (current) =>
+            current && {
+                ...current,
+                pages: current.pages.map((page) => page.map((row) => fresh.get(row.token.address.toLowerCase()) ?? row)),
+            }
+        );
+    } catch (error) {
+        console.warn("Could not refresh pool rows, reloading the list:", error);
+        queryClient.invalidateQueries({ queryKey, exact: true });
+    }
+}
@@ -0,0 +1,154 @@
+import { Chain, createPublicClient, fallback, http, Transport } from "viem";
+import { RpcUnavailableError } from "./errors";
+import { CHAIN_REGISTRY } from "./chains";
+
+const RPC_URLS_KEY = "maelstrom:rpc-urls";
+
+/** How often the ranker pings every endpoint; each ping is also a health check. */
+const RANK_INTERVAL_MS = 30_000;
+/** Pings slower than this count as failures when ranking. */
+const RANK_TIMEOUT_MS = 3_000;
+/** Recent pings the ranking score is computed over. */
+const RANK_SAMPLE_COUNT = 5;
+/** Endpoint is considered unhealthy after this many failures in a row. */
+const UNHEALTHY_AFTER_FAILURES = 3;
+const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+/** Weight of the newest sample in the latency moving average. */
+const LATENCY_SMOOTHING = 0.2;
+
+/** User-added RPC URLs, keyed by chain id. Tried before the chain's public RPCs. */
+function loadCustomRpcUrls(): Record<string, string[]> {
+    if (typeof window === "undefined") return {};
+    try {
+        const parsed = JSON.parse(window.localStorage.getItem(RPC_URLS_KEY) ?? "{}");
+        return parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+export function getCustomRpcUrls(chainId: number): string[] {
+    const urls = loadCustomRpcUrls()[chainId];
+    return Array.isArray(urls) ? urls.filter((url): url is string => typeof url === "string") : [];
+}
+
+/** Saved URLs take effect on the next page load, when the wagmi transports are built. */
+export function setCustomRpcUrls(chainId: number, urls: string[]): void {
+    if (typeof window === "undefined") return;
+    const all = loadCustomRpcUrls();
+    if (urls.length > 0) all[chainId] = urls;
+    else delete all[chainId];
+    window.localStorage.setItem(RPC_URLS_KEY, JSON.stringify(all));
+}
+
+/** Every endpoint for a chain in fallback order: custom URLs first, then the chain's public RPCs. */
+export function getRpcUrls(chain: Chain): string[] {
+    return [...new Set([...getCustomRpcUrls(chain.id), ...chain.rpcUrls.default.http])];
+}
+
+/** Request counters for one endpoint since page load. */
+export interface RpcEndpointStats {
+    url: string;
+    requests: number;
+    errors: number;
+    consecutiveErrors: number;
+    /** Moving average over successful requests. */
+    latencyMs?: number;
+    lastError?: string;
+    lastErrorAt?: number;
+    lastSuccessAt?: number;
+}
+
+export type RpcEndpointHealth = "healthy" | "degraded" | "down" | "unknown";
+
+const stats = new Map<string, RpcEndpointStats>();
+
+function statsFor(chainId: number, url: string): RpcEndpointStats {
+    const key = `${chainId}:${url}`;
+    let entry = stats.get(key);
+    if (!entry) {
+        entry = { url, requests: 0, errors: 0, consecutiveErrors: 0 };
+        stats.set(key, entry);
+    }
+    return entry;
+}
+
+/** Stats for each of a chain's endpoints, in fallback order. */
+export function getRpcStats(chain: Chain): RpcEndpointStats[] {
+    return getRpcUrls(chain).map((url) => ({ ...statsFor(chain.id, url) }));
+}
+
+export function getRpcHealth(endpoint: RpcEndpointStats): RpcEndpointHealth {
+    if (endpoint.requests === 0) return "unknown";
+    if (endpoint.consecutiveErrors >= UNHEALTHY_AFTER_FAILURES) return "down";
+    return endpoint.consecutiveErrors > 0 ? "degraded" : "healthy";
+}
+
+/** http transport that records latency and errors for the stats panel. */
+function instrumentedHttp(chainId: number, url: string): Transport {
+    const transport = http(url);
+    return (params) => {
+        const base = transport(params);
+        const request = (async (args: Parameters<typeof base.request>[0]) => {
+            const entry = statsFor(chainId, url);
+            const started = Date.now();
+            entry.requests++;
+            try {
+                const result = await base.request(args);
+                const elapsed = Date.now() - started;
+                entry.latencyMs = entry.latencyMs === undefined ? elapsed : entry.latencyMs + LATENCY_SMOOTHING * (elapsed - entry.latencyMs);
+                entry.consecutiveErrors = 0;
+                entry.lastSuccessAt = Date.now();
+                return result;
+            } catch (error) {
+                entry.errors++;
+                entry.consecutiveErrors++;
+                entry.lastError = error instanceof Error ? error.message.split("\n")[0] : String(error);
+                entry.lastErrorAt = Date.now();
+                throw error;
+            }
+        }) as typeof base.request;
+        return { ...base, request };
+    };
+}
+
+/**
+ * Transport for one chain: tries endpoints in order and moves on when one fails. The ranker pings every endpoint
+ * periodically and reorders them by latency and stability, so a slow or rate-limited RPC drops to the back.
+ */
+export function createChainTransport(chain: Chain): Transport {
+    return fallback(
+        getRpcUrls(chain).map((url) => instrumentedHttp(chain.id, url)),
+        {
+            rank: {
+                interval: RANK_INTERVAL_MS,
+                timeout: RANK_TIMEOUT_MS,
+                sampleCount: RANK_SAMPLE_COUNT,
+                // Not every RPC answers net_listening, viem's default ping
+                ping: ({ transport }) => transport.request({ method: "eth_blockNumber" }),
+            },
+        }
+    );
+}
+
+/** wagmi `transports` for every registry chain. */
+export function createTransports(): Record<number, Transport> {
+    return Object.fromEntries(CHAIN_REGISTRY.map((entry) => [entry.chain.id, createChainTransport(entry.chain)]));
+}
+
+/** Check a URL before it is saved: it must answer quickly and serve the expected chain. */
+export async function checkRpcEndpoint(url: string, chainId: number): Promise<{ latencyMs: number; blockNumber: bigint }> {
+    const client = createPublicClient({ transport: http(url, { timeout: HEALTH_CHECK_TIMEOUT_MS, retryCount: 0 }) });
+    const started = Date.now();
+    let remoteChainId: number;
+    let blockNumber: bigint;
+    try {
+        [remoteChainId, blockNumber] = await Promise.all([client.getChainId(), client.getBlockNumber()]);
+    } catch (error) {
+        throw new RpcUnavailableError(`No response from ${url}.`, { cause: error });
+    }
+    if (remoteChainId !== chainId) {
+        throw new RpcUnavailableError(`${url} serves chain ${remoteChainId}, not ${chainId}.`);
+    }
+    return { latencyMs: Date.now() - started, blockNumber };
+}
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { IContractClient } from "@/types/contract";
+import { ETH, Token } from "@/types/token";
+import { Address, parseEther } from "viem";
+import { ContractRevertError, InsufficientFundsError } from "./errors";
+import { DEMO_ACCOUNT, SimulatedContractClient, SimulatedMaelstrom } from "./simulated-contract-client";
+
+// Expected amounts below are worked out by hand from the pool's prices, not through lib/auction-model.ts
+const NOW = Date.UTC(2026, 0, 1);
+const TOKEN_A = "0x000000000000000000000000000000000000000A" as Address;
+const TOKEN_B = "0x000000000000000000000000000000000000000B" as Address;
+const tokens = (amount: string) => parseEther(amount);
+
+describe("SimulatedContractClient", () => {
+    let client: IContractClient;
+    let tokenA: Token;
+    let tokenB: Token;
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ now: NOW });
+        client = new SimulatedContractClient(DEMO_ACCOUNT, new SimulatedMaelstrom({ seed: false }));
+        [tokenA, tokenB] = await client.getTokens([TOKEN_A, TOKEN_B]);
+        await client.initializePool({
+            token: TOKEN_A,
+            ethAmount: parseEther("10").toString(),
+            tokenAmount: tokens("5000").toString(),
+            initialBuyPrice: parseEther("0.0011").toString(),
+            initialSellPrice: parseEther("0.0009").toString(),
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("creates a pool from the account's funds", async () => {
+        expect(await client.isPoolInstantiated(TOKEN_A)).toBe(true);
+        expect(await client.isPoolInstantiated(TOKEN_B)).toBe(false);
+        expect(await client.getReserves(tokenA)).toEqual({
+            ethReserve: parseEther("10").toString(),
+            tokenReserve: tokens("5000").toString(),
+        });
+        expect(await client.getBalances([ETH, tokenA], DEMO_ACCOUNT)).toEqual([
+            parseEther("90").toString(),
+            tokens("5000").toString(),
+        ]);
+        expect(await client.getPoolCount()).toBe(1);
+    });
+
+    it("buys at the buy price and resets it upwards", async () => {
+        const request = { token: tokenA, amountIn: parseEther("1.1").toString(), minimumAmountToBuy: "0" };
+        const simulation = await client.simulateBuy(request);
+        expect(simulation).toMatchObject({ success: true, amountOut: tokens("1000").toString() });
+
+        const result = await client.buy(request);
+        expect(result.amountOut).toBe(tokens("1000").toString());
+        expect(result.tradeBuyPrice).toBe(parseEther("0.0011").toString());
+        expect(result.updatedBuyPrice).toBe(parseEther("0.001155").toString());
+        expect(await client.getReserves(tokenA)).toEqual({
+            ethReserve: parseEther("11.1").toString(),
+            tokenReserve: tokens("4000").toString(),
+        });
+        expect(await client.getBalances([ETH, tokenA], DEMO_ACCOUNT)).toEqual([
+            parseEther("88.9").toString(),
+            tokens("6000").toString(),
+        ]);
+
+        const [trade] = await client.getBuyTradeEventLogs(0, await client.getBlockNumber(), tokenA);
+        expect(trade).toMatchObject({
+            buyPrice: parseEther("0.0011").toString(),
+            updatedBuyPrice: parseEther("0.001155").toString(),
+            ethAmount: parseEther("1.1").toString(),
+        });
+    });
+
+    it("lets the buy price decay back to the mid price once nobody trades", async () => {
+        await client.buy({ token: tokenA, amountIn: parseEther("1.1").toString(), minimumAmountToBuy: "0" });
+        expect(await client.getBuyPrice(tokenA)).toBe(parseEther("0.001155").toString());
+
+        vi.setSystemTime(NOW + 60 * 60 * 1000);
+        // Mid of the reset buy price and the untouched sell price
+        expect(await client.getBuyPrice(tokenA)).toBe(parseEther("0.0010275").toString());
+        expect(await client.getSellPrice(tokenA)).toBe(parseEther("0.0009").toString());
+    });
+
+    it("sells at the sell price and resets it downwards", async () => {
+        const result = await client.sell({ token: tokenA, amountIn: tokens("100").toString(), minimumEthAmount: "0" });
+        expect(result.amountOut).toBe(parseEther("0.09").toString());
+        expect(result.updatedSellPrice).toBe(parseEther("0.000855").toString());
+        expect(result.buyPrice).toBe(parseEther("0.0011").toString());
+        expect(await client.getBalances([ETH, tokenA], DEMO_ACCOUNT)).toEqual([
+            parseEther("90.09").toString(),
+            tokens("4900").toString(),
+        ]);
+    });
+
+    it("swaps through ETH across two pools", async () => {
+        await client.initializePool({
+            token: TOKEN_B,
+            ethAmount: parseEther("10").toString(),
+            tokenAmount: tokens("1000").toString(),
+            initialBuyPrice: parseEther("0.002").toString(),
+            initialSellPrice: parseEther("0.0018").toString(),
+        });
+        const request = { tokenIn: tokenA, tokenOut: tokenB, amountIn: tokens("100").toString(), minimumTokenOut: "0" };
+        expect(await client.simulateSwap(request)).toMatchObject({ success: true, amountOut: tokens("45").toString() });
+
+        const result = await client.swap(request);
+        expect(result.amountOut).toBe(tokens("45").toString());
+        expect(await client.getReserves(tokenA)).toEqual({
+            ethReserve: parseEther("9.91").toString(),
+            tokenReserve: tokens("5100").toString(),
+        });
+        expect(await client.getReserves(tokenB)).toEqual({
+            ethReserve: parseEther("10.09").toString(),
+            tokenReserve: tokens("955").toString(),
+        });
+    });
+
+    it("deposits and withdraws pro rata to the ETH reserve", async () => {
+        const deposit = { token: tokenA, ethAmount: parseEther("1").toString(), tokenAmount: tokens("500").toString() };
+        expect(await client.simulateDeposit(deposit)).toMatchObject({ success: true, lpTokens: parseEther("1").toString() });
+        const minted = await client.deposit(deposit);
+        expect(minted.lpTokensMinted).toBe(parseEther("1").toString());
+
+        const lpToken = await client.getLPToken(tokenA, DEMO_ACCOUNT);
+        expect(lpToken.totalSupply).toBe(parseEther("11").toString());
+        expect(lpToken.balance).toBe(parseEther("11").toString());
+
+        const withdrawn = await client.withdraw({ token: tokenA, lpToken, lpTokenAmount: parseEther("1").toString() });
+        expect(withdrawn.ethAmount).toBe(parseEther("1").toString());
+        expect(withdrawn.tokenAmount).toBe(tokens("500").toString());
+        expect(await client.getReserves(tokenA)).toEqual({
+            ethReserve: parseEther("10").toString(),
+            tokenReserve: tokens("5000").toString(),
+        });
+    });
+
+    it("rejects trades below the minimum output without moving funds", async () => {
+        const request = { token: tokenA, amountIn: parseEther("1.1").toString(), minimumAmountToBuy: tokens("1001").toString() };
+        expect(await client.simulateBuy(request)).toMatchObject({ success: false });
+        await expect(client.buy(request)).rejects.toBeInstanceOf(ContractRevertError);
+        expect(await client.getReserves(tokenA)).toEqual({
+            ethReserve: parseEther("10").toString(),
+            tokenReserve: tokens("5000").toString(),
+        });
+    });
+
+    it("rejects trades the account can't fund", async () => {
+        await expect(
+            client.buy({ token: tokenA, amountIn: parseEther("1000").toString(), minimumAmountToBuy: "0" })
+        ).rejects.toBeInstanceOf(InsufficientFundsError);
+    });
+});
@@ -0,0 +1,950 @@
+import { IContractClient } from "@/types/contract";
+import { AuctionSide, InitPool, InitPoolResult, Pool, PoolFeesEvent, PoolState, Reserve, RowPool } from "@/types/pool";
+import { isNativeToken, LiquidityPoolToken, Token } from "@/types/token";
+import { BuyRequest, BuyResult, BuyTrade, Deposit, DepositRequest, DepositResult, SellRequest, SellResult, SellTrade, SimulationResult, SwapRequest, SwapResult, SwapTrade, Withdraw, WithdrawRequest, WithdrawResult } from "@/types/trades";
+import { Address, Hash, keccak256, parseEther, parseUnits, stringToHex } from "viem";
+import { priceAt, simulateBuy, simulateSell, simulateSwap, TradeSimulation } from "./auction-model";
+import { ContractRevertError, InsufficientFundsError, PoolNotInstantiatedError, toMaelstromError } from "./errors";
+import { LiveEventFilter, LiveEventListener, LivePoolEvent, LiveEventType } from "./event-hub";
+import { MaelstromEventType, summarizeLog } from "./event-indexer";
+import { average, max, min, mulDiv, proportionOf, sum, tokenToWei, totalLiquidity, WAD, weiToToken, ZERO } from "./fixed-point";
+
+/**
+ * In-memory stand-in for the Maelstrom contract, for demo mode and for driving the UI without a chain:
+ *
+ * - Prices follow the client-side auction model (lib/auction-model.ts), so quotes always match fills. After a trade
+ *   the traded side resets by `auctionResetPercentage`, then decays towards the mid price over `DECAY_SECONDS`.
+ * - Pools hold ETH and token reserves; deposits mint LP tokens pro rata to the ETH added, withdrawals pay out a
+ *   pro rata share of both reserves.
+ * - A pool's fee on a trade is the spread it captured against the mid price. Fees stay in the reserves.
+ * - Blocks follow the clock, `BLOCK_TIME_MS` apart. Every write emits the contract's event with the same args, so
+ *   event log reads and live subscriptions behave as on chain.
+ * - Accounts start with `STARTING_ETH` and `STARTING_TOKENS` of every token, including tokens first seen later.
+ */
+
+const BLOCK_TIME_MS = 12_000;
+const GENESIS_BLOCK = 1_000_000;
+const DECAY_SECONDS = 60 * 60;
+const RESET_PERCENTAGE = 5;
+const STARTING_ETH = parseEther("100");
+const STARTING_TOKENS = BigInt(10_000);
+const SEED_HISTORY_MS = 24 * 60 * 60 * 1000;
+const SEED_TRADE_INTERVAL_MS = 3 * 60 * 60 * 1000;
+
+/** Wallet used for writes when none is connected. */
+export const DEMO_ACCOUNT = simulatedAddress("demo-account");
+const MARKET_MAKER = simulatedAddress("market-maker");
+
+const SEED_POOLS: { symbol: string; name: string; decimals: number; buyPrice: string; sellPrice: string; ethReserve: string; tokenReserve: string }[] = [
+    { symbol: "dMAEL", name: "Demo Maelstrom", decimals: 18, buyPrice: "0.0011", sellPrice: "0.0009", ethReserve: "50", tokenReserve: "50000" },
+    { symbol: "dUSD", name: "Demo Dollar", decimals: 6, buyPrice: "0.00031", sellPrice: "0.00029", ethReserve: "30", tokenReserve: "100000" },
+    { symbol: "dBTC", name: "Demo Bitcoin", decimals: 8, buyPrice: "16.2", sellPrice: "15.8", ethReserve: "40", tokenReserve: "2.5" },
+];
+
+/** Deterministic address for a simulated account, token or contract. */
+function simulatedAddress(label: string): Address {
+    return `0x${keccak256(stringToHex(`maelstrom-sim:${label}`)).slice(-40)}` as Address;
+}
+
+function key(address: string): string {
+    return address.toLowerCase();
+}
+
+interface SimulatedSide {
+    initialPrice: bigint;
+    finalPrice: bigint;
+    lastPrice: bigint;
+    lastTradeTs: number;
+    decayedVolume: bigint;
+}
+
+interface SimulatedPool {
+    token: Token;
+    lpToken: Token;
+    ethReserve: bigint;
+    tokenReserve: bigint;
+    lpSupply: bigint;
+    lpBalances: Map<string, bigint>;
+    buy: SimulatedSide;
+    sell: SimulatedSide;
+    lastExchangeTs: number;
+    fees: PoolFeesEvent[];
+    totalFees: bigint;
+}
+
+/** Options for every simulator write. `dryRun` validates and prices the call without changing state. */
+interface WriteOptions {
+    dryRun?: boolean;
+    now?: number;
+}
+
+interface TradeReceipt {
+    txHash: Hash;
+    timestamp: number;
+}
+
+/** The simulated contract and ledger. Shared by every SimulatedContractClient unless one is given its own. */
+export class SimulatedMaelstrom {
+    readonly contractAddress = simulatedAddress("maelstrom");
+    readonly auctionResetPercentage = RESET_PERCENTAGE;
+    private genesisTs: number;
+    private tokens = new Map<string, Token>();
+    private pools = new Map<string, SimulatedPool>();
+    private poolOrder: Address[] = [];
+    private ethBalances = new Map<string, bigint>();
+    private tokenBalances = new Map<string, bigint>();
+    private events: LivePoolEvent[] = [];
+    private subscriptions = new Set<{ filter: LiveEventFilter; listener: LiveEventListener }>();
+    private totalFees = ZERO;
+    private txCount = 0;
+
+    /** Seeds a few pools with a day of trading history unless `seed` is false. */
+    constructor(options: { seed?: boolean } = {}) {
+        this.genesisTs = Date.now() - SEED_HISTORY_MS;
+        if (options.seed !== false) this.seed();
+    }
+
+    blockAt(timestamp: number): number {
+        return GENESIS_BLOCK + Math.max(Math.floor((timestamp - this.genesisTs) / BLOCK_TIME_MS), 0);
+    }
+
+    blockNumber(): number {
+        return this.blockAt(Date.now());
+    }
+
+    /** Token metadata; unknown addresses become 18-decimal tokens so any pasted address can be used. */
+    getToken(address: Address): Token {
+        const known = this.tokens.get(key(address));
+        if (known) return known;
+        const token: Token = { address, symbol: `SIM${address.slice(2, 6).toUpperCase()}`, name: "Simulated Token", decimals: 18 };
+        this.tokens.set(key(address), token);
+        return token;
+    }
+
+    ethBalance(account: Address): bigint {
+        return this.ethBalances.get(key(account)) ?? STARTING_ETH;
+    }
+
+    tokenBalance(account: Address, token: Token): bigint {
+        return this.tokenBalances.get(`${key(account)}:${key(token.address)}`) ?? STARTING_TOKENS * BigInt(10) ** BigInt(token.decimals);
+    }
+
+    lpBalance(account: Address, token: Address): bigint {
+        return this.pools.get(key(token))?.lpBalances.get(key(account)) ?? ZERO;
+    }
+
+    hasPool(token: Address): boolean {
+        return this.pools.has(key(token));
+    }
+
+    poolTokens(): Address[] {
+        return [...this.poolOrder];
+    }
+
+    userPoolTokens(account: Address): Address[] {
+        return this.poolOrder.filter((token) => this.lpBalance(account, token) > ZERO);
+    }
+
+    lpToken(token: Address, account?: Address): LiquidityPoolToken {
+        const pool = this.requirePool(token);
+        const balance = account ? this.lpBalance(account, token) : ZERO;
+        return { ...pool.lpToken, totalSupply: pool.lpSupply.toString(), balance: balance.toString() };
+    }
+
+    reserve(token: Address): Reserve {
+        const pool = this.pools.get(key(token));
+        return { tokenReserve: (pool?.tokenReserve ?? ZERO).toString(), ethReserve: (pool?.ethReserve ?? ZERO).toString() };
+    }
+
+    fees(token?: Address): { total: bigint; events: PoolFeesEvent[] } {
+        if (!token) return { total: this.totalFees, events: [] };
+        const pool = this.pools.get(key(token));
+        return { total: pool?.totalFees ?? ZERO, events: pool?.fees ?? [] };
+    }
+
+    /** Auction state as the contract would report it at `now`; all zeros when the pool doesn't exist. */
+    poolState(token: Token, now: number = Date.now()): PoolState {
+        const empty: SimulatedSide = { initialPrice: ZERO, finalPrice: ZERO, lastPrice: ZERO, lastTradeTs: 0, decayedVolume: ZERO };
+        const pool = this.pools.get(key(token.address)) ?? { token, buy: empty, sell: empty, lastExchangeTs: 0 };
+        const side = (s: SimulatedSide): AuctionSide => {
+            const state: AuctionSide = {
+                currentPrice: "0",
+                lastPrice: s.lastPrice.toString(),
+                initialPrice: s.initialPrice.toString(),
+                finalPrice: s.finalPrice.toString(),
+                lastTradeTs: s.lastTradeTs,
+                decayedTime: DECAY_SECONDS,
+                decayedVolume: s.decayedVolume.toString(),
+            };
+            return { ...state, currentPrice: priceAt(state, now).toString() };
+        };
+        return {
+            token: pool.token,
+            reserve: this.reserve(token.address),
+            buy: side(pool.buy),
+            sell: side(pool.sell),
+            lastExchangeTs: pool.lastExchangeTs,
+            auctionResetPercentage: this.auctionResetPercentage,
+            lastUpdated: now,
+        };
+    }
+
+    /** Events in a block window, oldest first. */
+    query(types: MaelstromEventType[], fromBlock: number, toBlock: number, token?: Address, account?: Address): LivePoolEvent[] {
+        return this.events.filter(
+            (e) =>
+                types.includes(e.type as MaelstromEventType) &&
+                e.blockNumber >= fromBlock &&
+                e.blockNumber <= toBlock &&
+                (!token || e.tokens.includes(key(token))) &&
+                (!account || e.account === key(account))
+        );
+    }
+
+    /** Receive events as writes land, like PoolEventHub does for the chain. Returns the unsubscribe function. */
+    subscribe(filter: LiveEventFilter, listener: LiveEventListener): () => void {
+        const subscription = { filter, listener };
+        this.subscriptions.add(subscription);
+        return () => {
+            this.subscriptions.delete(subscription);
+        };
+    }
+
+    initializePool(
+        account: Address,
+        address: Address,
+        amounts: { ethAmount: bigint; tokenAmount: bigint; buyPrice: bigint; sellPrice: bigint },
+        { dryRun = false, now = Date.now() }: WriteOptions = {}
+    ): TradeReceipt {
+        const token = this.getToken(address);
+        if (this.hasPool(address)) throw new ContractRevertError({ reason: "Pool already initialized." });
+        this.requirePositive(amounts.ethAmount, amounts.tokenAmount, amounts.buyPrice, amounts.sellPrice);
+        this.requireEth(account, amounts.ethAmount);
+        this.requireTokens(account, token, amounts.tokenAmount);
+        if (dryRun) return { txHash: "0x", timestamp: now };
+
+        const side = (price: bigint): SimulatedSide => ({ initialPrice: price, finalPrice: price, lastPrice: price, lastTradeTs: now, decayedVolume: ZERO });
+        const lpAddress = simulatedAddress(`lp:${key(address)}`);
+        const lpToken: Token = { address: lpAddress, symbol: `${token.symbol}-LP`, name: `${token.name} LP`, decimals: 18 };
+        this.tokens.set(key(lpAddress), lpToken);
+        this.pools.set(key(address), {
+            token,
+            lpToken,
+            ethReserve: amounts.ethAmount,
+            tokenReserve: amounts.tokenAmount,
+            lpSupply: amounts.ethAmount,
+            lpBalances: new Map([[key(account), amounts.ethAmount]]),
+            buy: side(amounts.buyPrice),
+            sell: side(amounts.sellPrice),
+            lastExchangeTs: now,
+            fees: [],
+            totalFees: ZERO,
+        });
+        this.poolOrder.push(address);
+        this.moveEth(account, -amounts.ethAmount);
+        this.moveTokens(account, token, -amounts.tokenAmount);
+        return this.emit("PoolInitialized", {
+            token: address,
+            amountToken: amounts.tokenAmount,
+            amountEther: amounts.ethAmount,
+            initialPriceBuy: amounts.buyPrice,
+            initialPriceSell: amounts.sellPrice,
+        }, now);
+    }
+
+    buy(account: Address, token: Token, ethIn: bigint, minimumOut: bigint, { dryRun = false, now = Date.now() }: WriteOptions = {}): TradeSimulation & TradeReceipt {
+        const pool = this.requirePool(token.address);
+        const state = this.poolState(token, now);
+        this.requirePositive(ethIn);
+        this.requireEth(account, ethIn);
+        const trade = simulateBuy(state, ethIn);
+        this.requireFill(trade, minimumOut);
+        if (dryRun) return { ...trade, txHash: "0x", timestamp: now };
+
+        const mid = average(BigInt(state.buy.currentPrice), BigInt(state.sell.currentPrice));
+        this.moveEth(account, -ethIn);
+        this.moveTokens(account, token, trade.amountOut);
+        pool.ethReserve += ethIn;
+        pool.tokenReserve -= trade.amountOut;
+        this.settle(pool, "buy", trade, ethIn, now);
+        this.recordFee(pool, ethIn - tokenToWei(trade.amountOut, mid), now);
+        return {
+            ...trade,
+            ...this.emit("BuyTrade", {
+                token: token.address,
+                trader: account,
+                amountEther: ethIn,
+                amountToken: trade.amountOut,
+                tradeBuyPrice: trade.tradePrice,
+                updatedBuyPrice: trade.updatedBuyPrice,
+                sellPrice: trade.updatedSellPrice,
+            }, now),
+        };
+    }
+
+    sell(account: Address, token: Token, amountIn: bigint, minimumOut: bigint, { dryRun = false, now = Date.now() }: WriteOptions = {}): TradeSimulation & TradeReceipt {
+        const pool = this.requirePool(token.address);
+        const state = this.poolState(token, now);
+        this.requirePositive(amountIn);
+        this.requireTokens(account, token, amountIn);
+        const trade = simulateSell(state, amountIn);
+        this.requireFill(trade, minimumOut);
+        if (dryRun) return { ...trade, txHash: "0x", timestamp: now };
+
+        const mid = average(BigInt(state.buy.currentPrice), BigInt(state.sell.currentPrice));
+        this.moveTokens(account, token, -amountIn);
+        this.moveEth(account, trade.amountOut);
+        pool.tokenReserve += amountIn;
+        pool.ethReserve -= trade.amountOut;
+        this.settle(pool, "sell", trade, trade.amountOut, now);
+        this.recordFee(pool, tokenToWei(amountIn, mid) - trade.amountOut, now);
+        return {
+            ...trade,
+            ...this.emit("SellTrade", {
+                token: token.address,
+                trader: account,
+                amountToken: amountIn,
+                amountEther: trade.amountOut,
+                tradeSellPrice: trade.tradePrice,
+                updatedSellPrice: trade.updatedSellPrice,
+                buyPrice: trade.updatedBuyPrice,
+            }, now),
+        };
+    }
+
+    /** Sell `tokenIn` into its pool and buy `tokenOut` with the proceeds, in one transaction. */
+    swap(
+        account: Address,
+        tokenIn: Token,
+        tokenOut: Token,
+        amountIn: bigint,
+        minimumOut: bigint,
+        { dryRun = false, now = Date.now() }: WriteOptions = {}
+    ): { sell: TradeSimulation; buy: TradeSimulation } & TradeReceipt {
+        if (key(tokenIn.address) === key(tokenOut.address)) throw new ContractRevertError({ reason: "Cannot swap a token for itself." });
+        const poolIn = this.requirePool(tokenIn.address);
+        const poolOut = this.requirePool(tokenOut.address);
+        const stateIn = this.poolState(tokenIn, now);
+        const stateOut = this.poolState(tokenOut, now);
+        this.requirePositive(amountIn);
+        this.requireTokens(account, tokenIn, amountIn);
+        const { sell, buy } = simulateSwap(stateIn, stateOut, amountIn);
+        this.requireFill(sell, ZERO);
+        this.requireFill(buy, minimumOut);
+        if (dryRun) return { sell, buy, txHash: "0x", timestamp: now };
+
+        const midIn = average(BigInt(stateIn.buy.currentPrice), BigInt(stateIn.sell.currentPrice));
+        const midOut = average(BigInt(stateOut.buy.currentPrice), BigInt(stateOut.sell.currentPrice));
+        this.moveTokens(account, tokenIn, -amountIn);
+        this.moveTokens(account, tokenOut, buy.amountOut);
+        poolIn.tokenReserve += amountIn;
+        poolIn.ethReserve -= sell.amountOut;
+        poolOut.ethReserve += sell.amountOut;
+        poolOut.tokenReserve -= buy.amountOut;
+        this.settle(poolIn, "sell", sell, sell.amountOut, now);
+        this.settle(poolOut, "buy", buy, sell.amountOut, now);
+        this.recordFee(poolIn, tokenToWei(amountIn, midIn) - sell.amountOut, now);
+        this.recordFee(poolOut, sell.amountOut - tokenToWei(buy.amountOut, midOut), now);
+        return {
+            sell,
+            buy,
+            ...this.emit("SwapTrade", {
+                tokenSold: tokenIn.address,
+                tokenBought: tokenOut.address,
+                trader: account,
+                amountTokenSold: amountIn,
+                amountTokenBought: buy.amountOut,
+                tradeSellPrice: sell.tradePrice,
+                updatedSellPrice: sell.updatedSellPrice,
+                tradeBuyPrice: buy.tradePrice,
+                updatedBuyPrice: buy.updatedBuyPrice,
+            }, now),
+        };
+    }
+
+    deposit(
+        account: Address,
+        token: Token,
+        ethAmount: bigint,
+        tokenAmount: bigint,
+        { dryRun = false, now = Date.now() }: WriteOptions = {}
+    ): { lpTokensMinted: bigint } & TradeReceipt {
+        const pool = this.requirePool(token.address);
+        this.requirePositive(ethAmount, tokenAmount);
+        this.requireEth(account, ethAmount);
+        this.requireTokens(account, token, tokenAmount);
+        const lpTokensMinted = pool.lpSupply === ZERO ? ethAmount : proportionOf(pool.lpSupply, ethAmount, pool.ethReserve);
+        if (lpTokensMinted === ZERO) throw new ContractRevertError({ reason: "Deposit too small to mint LP tokens." });
+        if (dryRun) return { lpTokensMinted, txHash: "0x", timestamp: now };
+
+        this.moveEth(account, -ethAmount);
+        this.moveTokens(account, token, -tokenAmount);
+        pool.ethReserve += ethAmount;
+        pool.tokenReserve += tokenAmount;
+        pool.lpSupply += lpTokensMinted;
+        pool.lpBalances.set(key(account), this.lpBalance(account, token.address) + lpTokensMinted);
+        return {
+            lpTokensMinted,
+            ...this.emit("Deposit", {
+                token: token.address,
+                user: account,
+                amountEther: ethAmount,
+                amountToken: tokenAmount,
+                lpTokensMinted,
+            }, now),
+        };
+    }
+
+    withdraw(
+        account: Address,
+        token: Token,
+        lpAmount: bigint,
+        { dryRun = false, now = Date.now() }: WriteOptions = {}
+    ): { ethAmount: bigint; tokenAmount: bigint } & TradeReceipt {
+        const pool = this.requirePool(token.address);
+        this.requirePositive(lpAmount);
+        if (this.lpBalance(account, token.address) < lpAmount) throw new InsufficientFundsError("Not enough LP tokens.");
+        const ethAmount = proportionOf(pool.ethReserve, lpAmount, pool.lpSupply);
+        const tokenAmount = proportionOf(pool.tokenReserve, lpAmount, pool.lpSupply);
+        if (dryRun) return { ethAmount, tokenAmount, txHash: "0x", timestamp: now };
+
+        pool.lpBalances.set(key(account), this.lpBalance(account, token.address) - lpAmount);
+        pool.lpSupply -= lpAmount;
+        pool.ethReserve -= ethAmount;
+        pool.tokenReserve -= tokenAmount;
+        this.moveEth(account, ethAmount);
+        this.moveTokens(account, token, tokenAmount);
+        return {
+            ethAmount,
+            tokenAmount,
+            ...this.emit("Withdraw", {
+                token: token.address,
+                user: account,
+                amountEther: ethAmount,
+                amountToken: tokenAmount,
+                lpTokensBurned: lpAmount,
+            }, now),
+        };
+    }
+
+    private requirePool(token: Address): SimulatedPool {
+        const pool = this.pools.get(key(token));
+        if (!pool) throw new PoolNotInstantiatedError(token);
+        return pool;
+    }
+
+    private requirePositive(...amounts: bigint[]): void {
+        if (amounts.some((amount) => amount <= ZERO)) throw new ContractRevertError({ reason: "Amount must be greater than zero." });
+    }
+
+    private requireEth(account: Address, amount: bigint): void {
+        if (this.ethBalance(account) < amount) throw new InsufficientFundsError();
+    }
+
+    private requireTokens(account: Address, token: Token, amount: bigint): void {
+        if (this.tokenBalance(account, token) < amount) throw new InsufficientFundsError(`Not enough ${token.symbol}.`);
+    }
+
+    private requireFill(trade: TradeSimulation, minimumOut: bigint): void {
+        if (trade.amountOut === ZERO) throw new ContractRevertError({ reason: "Trade too small." });
+        if (trade.exceedsReserve) throw new ContractRevertError({ reason: "Insufficient pool reserve." });
+        if (trade.amountOut < minimumOut) throw new ContractRevertError({ reason: "Output below minimum (slippage)." });
+    }
+
+    private moveEth(account: Address, delta: bigint): void {
+        this.ethBalances.set(key(account), this.ethBalance(account) + delta);
+    }
+
+    private moveTokens(account: Address, token: Token, delta: bigint): void {
+        this.tokenBalances.set(`${key(account)}:${key(token.address)}`, this.tokenBalance(account, token) + delta);
+    }
+
+    /** Reset the traded side, which then decays back towards the mid of the two updated prices. */
+    private settle(pool: SimulatedPool, sideName: "buy" | "sell", trade: TradeSimulation, ethVolume: bigint, now: number): void {
+        const side = pool[sideName];
+        const updated = sideName === "buy" ? trade.updatedBuyPrice : trade.updatedSellPrice;
+        const mid = average(trade.updatedBuyPrice, trade.updatedSellPrice);
+        side.initialPrice = updated;
+        side.finalPrice = sideName === "buy" ? min(updated, mid) : max(updated, mid);
+        side.lastPrice = trade.tradePrice;
+        side.lastTradeTs = now;
+        side.decayedVolume += ethVolume;
+        pool.lastExchangeTs = now;
+    }
+
+    private recordFee(pool: SimulatedPool, fee: bigint, now: number): void {
+        if (fee <= ZERO) return;
+        pool.fees.push({ timestamp: now, fee: fee.toString() });
+        pool.totalFees += fee;
+        this.totalFees += fee;
+    }
+
+    private emit(type: LiveEventType, args: Record<string, bigint | string>, now: number): TradeReceipt {
+        const txHash = keccak256(stringToHex(`maelstrom-sim:tx:${++this.txCount}`));
+        const blockNumber = this.blockAt(now);
+        const event: LivePoolEvent = {
+            id: `${txHash}:0`,
+            type,
+            blockNumber,
+            logIndex: 0,
+            txHash,
+            timestamp: now,
+            ...summarizeLog(type, args),
+        };
+        this.events.push(event);
+        this.subscriptions.forEach(({ filter, listener }) => {
+            const token = filter.token?.toLowerCase();
+            if (filter.types && !filter.types.includes(type)) return;
+            if (token && !event.tokens.includes(token)) return;
+            try {
+                listener([event]);
+            } catch (error) {
+                console.error("[SimulatedMaelstrom] Subscriber failed.", error);
+            }
+        });
+        return { txHash, timestamp: now };
+    }
+
+    /** Seed pools, then alternate buys and sells every few hours so charts and activity have history. */
+    private seed(): void {
+        SEED_POOLS.forEach((seed, index) => {
+            const address = simulatedAddress(`token:${seed.symbol}`);
+            const token: Token = { address, symbol: seed.symbol, name: seed.name, decimals: seed.decimals };
+            const ethAmount = parseEther(seed.ethReserve);
+            const tokenAmount = parseUnits(seed.tokenReserve, seed.decimals);
+            this.tokens.set(key(address), token);
+            this.moveEth(MARKET_MAKER, ethAmount);
+            this.moveTokens(MARKET_MAKER, token, tokenAmount);
+            this.initializePool(MARKET_MAKER, address, {
+                ethAmount,
+                tokenAmount,
+                buyPrice: parseUnits(seed.buyPrice, 36 - seed.decimals),
+                sellPrice: parseUnits(seed.sellPrice, 36 - seed.decimals),
+            }, { now: this.genesisTs });
+
+            for (let ts = this.genesisTs + SEED_TRADE_INTERVAL_MS, step = index; ts < Date.now(); ts += SEED_TRADE_INTERVAL_MS, step++) {
+                const tradeSize = parseEther(String(0.5 + (step % 3) * 0.5));
+                if (step % 2 === 0) {
+                    this.buy(MARKET_MAKER, token, tradeSize, ZERO, { now: ts });
+                } else {
+                    const sellPrice = BigInt(this.poolState(token, ts).sell.currentPrice);
+                    this.sell(MARKET_MAKER, token, weiToToken(tradeSize, sellPrice), ZERO, { now: ts });
+                }
+            }
+        });
+    }
+}
+
+let shared: SimulatedMaelstrom | null = null;
+
+/** The simulator every demo-mode client talks to; lives until the page reloads. */
+export function getSimulatedMaelstrom(): SimulatedMaelstrom {
+    shared ??= new SimulatedMaelstrom();
+    return shared;
+}
+
+/** IContractClient over a SimulatedMaelstrom; writes act as `account` (or DEMO_ACCOUNT) and never need approvals. */
+export class SimulatedContractClient implements IContractClient {
+    contractAddress: Address;
+    account: Address;
+    private maelstrom: SimulatedMaelstrom;
+
+    constructor(account?: Address, maelstrom: SimulatedMaelstrom = getSimulatedMaelstrom()) {
+        this.account = account ?? DEMO_ACCOUNT;
+        this.maelstrom = maelstrom;
+        this.contractAddress = maelstrom.contractAddress;
+    }
+
+    /** Writes resolve on the next tick, as if mined instantly; errors carry the operation like ContractClient's. */
+    private async write<T>(operation: string, fn: () => T): Promise<T> {
+        await Promise.resolve();
+        try {
+            return fn();
+        } catch (error) {
+            throw toMaelstromError(error, operation);
+        }
+    }
+
+    private async simulateWrite(operation: string, fn: () => Partial<SimulationResult>): Promise<SimulationResult> {
+        try {
+            return { success: true, simulated: true, needsApproval: false, ...fn() };
+        } catch (error) {
+            const err = toMaelstromError(error, operation);
+            return {
+                success: false,
+                simulated: true,
+                needsApproval: false,
+                error: err.message,
+                errorName: err instanceof ContractRevertError ? err.errorName : undefined,
+            };
+        }
+    }
+
+    async simulateBuy(buyReq: BuyRequest): Promise<SimulationResult> {
+        return this.simulateWrite("Buy", () => {
+            const trade = this.maelstrom.buy(this.account, buyReq.token, BigInt(buyReq.amountIn), BigInt(buyReq.minimumAmountToBuy), { dryRun: true });
+            return { amountOut: trade.amountOut.toString(), ethAmount: buyReq.amountIn };
+        });
+    }
+
+    async simulateSell(sellReq: SellRequest): Promise<SimulationResult> {
+        return this.simulateWrite("Sell", () => {
+            const trade = this.maelstrom.sell(this.account, sellReq.token, BigInt(sellReq.amountIn), BigInt(sellReq.minimumEthAmount), { dryRun: true });
+            return { amountOut: trade.amountOut.toString(), tokenAmount: sellReq.amountIn };
+        });
+    }
+
+    async simulateSwap(swapReq: SwapRequest): Promise<SimulationResult> {
+        return this.simulateWrite("Swap", () => {
+            const { buy } = this.maelstrom.swap(this.account, swapReq.tokenIn, swapReq.tokenOut, BigInt(swapReq.amountIn), BigInt(swapReq.minimumTokenOut), { dryRun: true });
+            return { amountOut: buy.amountOut.toString() };
+        });
+    }
+
+    async simulateDeposit(depositReq: DepositRequest): Promise<SimulationResult> {
+        return this.simulateWrite("Deposit", () => {
+            const { lpTokensMinted } = this.maelstrom.deposit(this.account, depositReq.token, BigInt(depositReq.ethAmount), BigInt(depositReq.tokenAmount), { dryRun: true });
+            return { lpTokens: lpTokensMinted.toString(), ethAmount: depositReq.ethAmount, tokenAmount: depositReq.tokenAmount };
+        });
+    }
+
+    async simulateWithdraw(withdrawReq: WithdrawRequest): Promise<SimulationResult> {
+        return this.simulateWrite("Withdraw", () => {
+            const result = this.maelstrom.withdraw(this.account, withdrawReq.token, BigInt(withdrawReq.lpTokenAmount), { dryRun: true });
+            return { lpTokens: withdrawReq.lpTokenAmount, ethAmount: result.ethAmount.toString(), tokenAmount: result.tokenAmount.toString() };
+        });
+    }
+
+    async isPoolInstantiated(token: Address): Promise<boolean> {
+        return this.maelstrom.hasPool(token);
+    }
+
+    async initializePool(initPool: InitPool): Promise<InitPoolResult> {
+        return this.write("Create pool", () => {
+            const receipt = this.maelstrom.initializePool(this.account, initPool.token as Address, {
+                ethAmount: BigInt(initPool.ethAmount),
+                tokenAmount: BigInt(initPool.tokenAmount),
+                buyPrice: BigInt(initPool.initialBuyPrice),
+                sellPrice: BigInt(initPool.initialSellPrice),
+            });
+            return {
+                success: true,
+                txHash: receipt.txHash,
+                ethAmount: initPool.ethAmount,
+                tokenAmount: initPool.tokenAmount,
+                initialBuyPrice: initPool.initialBuyPrice,
+                initialSellPrice: initPool.initialSellPrice,
+                gasUsed: "0",
+                timestamp: receipt.timestamp,
+                error: "",
+            };
+        });
+    }
+
+    async deposit(depositReq: DepositRequest): Promise<DepositResult> {
+        return this.write("Deposit", () => {
+            const result = this.maelstrom.deposit(this.account, depositReq.token, BigInt(depositReq.ethAmount), BigInt(depositReq.tokenAmount));
+            return {
+                success: true,
+                depositRequest: depositReq,
+                txHash: result.txHash,
+                ethAmount: depositReq.ethAmount,
+                tokenAmount: depositReq.tokenAmount,
+                lpTokensMinted: result.lpTokensMinted.toString(),
+                gasUsed: "0",
+                timestamp: result.timestamp,
+                error: "",
+            };
+        });
+    }
+
+    async withdraw(withdrawReq: WithdrawRequest): Promise<WithdrawResult> {
+        return this.write("Withdraw", () => {
+            const result = this.maelstrom.withdraw(this.account, withdrawReq.token, BigInt(withdrawReq.lpTokenAmount));
+            return {
+                success: true,
+                txHash: result.txHash,
+                ethAmount: result.ethAmount.toString(),
+                tokenAmount: result.tokenAmount.toString(),
+                lpTokensBurnt: withdrawReq.lpTokenAmount,
+                gasUsed: "0",
+                timestamp: result.timestamp,
+                error: "",
+                withdrawRequest: withdrawReq,
+            };
+        });
+    }
+
+    async swap(swapReq: SwapRequest): Promise<SwapResult> {
+        return this.write("Swap", () => {
+            const result = this.maelstrom.swap(this.account, swapReq.tokenIn, swapReq.tokenOut, BigInt(swapReq.amountIn), BigInt(swapReq.minimumTokenOut));
+            return {
+                success: true,
+                txHash: result.txHash,
+                amountIn: swapReq.amountIn,
+                amountOut: result.buy.amountOut.toString(),
+                tradeSellPrice: result.sell.tradePrice.toString(),
+                updatedSellPrice: result.sell.updatedSellPrice.toString(),
+                tradeBuyPrice: result.buy.tradePrice.toString(),
+                updatedBuyPrice: result.buy.updatedBuyPrice.toString(),
+                gasUsed: "0",
+                timestamp: result.timestamp,
+                error: "",
+                swapRequest: swapReq,
+            };
+        });
+    }
+
+    async buy(buyReq: BuyRequest): Promise<BuyResult> {
+        return this.write("Buy", () => {
+            const trade = this.maelstrom.buy(this.account, buyReq.token, BigInt(buyReq.amountIn), BigInt(buyReq.minimumAmountToBuy));
+            return {
+                success: true,
+                txHash: trade.txHash,
+                buyRequest: buyReq,
+                amountOut: trade.amountOut.toString(),
+                tradeBuyPrice: trade.tradePrice.toString(),
+                updatedBuyPrice: trade.updatedBuyPrice.toString(),
+                sellPrice: trade.updatedSellPrice.toString(),
+                gasUsed: "0",
+                timestamp: trade.timestamp,
+            };
+        });
+    }
+
+    async sell(sellReq: SellRequest): Promise<SellResult> {
+        return this.write("Sell", () => {
+            const trade = this.maelstrom.sell(this.account, sellReq.token, BigInt(sellReq.amountIn), BigInt(sellReq.minimumEthAmount));
+            return {
+                success: true,
+                txHash: trade.txHash,
+                sellRequest: sellReq,
+                amountOut: trade.amountOut.toString(),
+                tradeSellPrice: trade.tradePrice.toString(),
+                updatedSellPrice: trade.updatedSellPrice.toString(),
+                buyPrice: trade.updatedBuyPrice.toString(),
+                gasUsed: "0",
+                timestamp: trade.timestamp,
+            };
+        });
+    }
+
+    async getToken(token: Address): Promise<Token> {
+        return this.maelstrom.getToken(token);
+    }
+
+    async getTokens(tokens: Address[]): Promise<Token[]> {
+        return tokens.map((token) => this.maelstrom.getToken(token));
+    }
+
+    async getLPToken(token: Token, user: Address): Promise<LiquidityPoolToken> {
+        return this.maelstrom.lpToken(token.address, user);
+    }
+
+    async getBalances(tokens: Token[], user: Address): Promise<string[]> {
+        return tokens.map((token) =>
+            (isNativeToken(token) ? this.maelstrom.ethBalance(user) : this.maelstrom.tokenBalance(user, token)).toString()
+        );
+    }
+
+    async getReserves(token: Token): Promise<Reserve> {
+        return this.maelstrom.reserve(token.address);
+    }
+
+    async getTokenRatio(token: Token): Promise<string> {
+        const reserve = this.maelstrom.reserve(token.address);
+        const ethReserve = BigInt(reserve.ethReserve);
+        return ethReserve === ZERO ? "0" : mulDiv(BigInt(reserve.tokenReserve), WAD, ethReserve).toString();
+    }
+
+    async getBuyPrice(token: Token): Promise<string> {
+        return this.maelstrom.hasPool(token.address) ? this.maelstrom.poolState(token).buy.currentPrice : "0";
+    }
+
+    async getSellPrice(token: Token): Promise<string> {
+        return this.maelstrom.hasPool(token.address) ? this.maelstrom.poolState(token).sell.currentPrice : "0";
+    }
+
+    /** The user's share of both reserves, like `poolUserBalances`. */
+    async getUserBalance(token: Token, user: Address): Promise<Reserve> {
+        const { totalSupply, balance } = this.maelstrom.lpToken(token.address, user);
+        const reserve = this.maelstrom.reserve(token.address);
+        return {
+            tokenReserve: proportionOf(BigInt(reserve.tokenReserve), BigInt(balance), BigInt(totalSupply)).toString(),
+            ethReserve: proportionOf(BigInt(reserve.ethReserve), BigInt(balance), BigInt(totalSupply)).toString(),
+        };
+    }
+
+    async getTotalFees(): Promise<string> {
+        return this.maelstrom.fees().total.toString();
+    }
+
+    async getTotalPoolFee(token: Token): Promise<string> {
+        return this.maelstrom.fees(token.address).total.toString();
+    }
+
+    async getPoolFeeEvents(token: Token, startIndex: number, endIndex: number): Promise<PoolFeesEvent[]> {
+        return this.maelstrom.fees(token.address).events.slice(startIndex, endIndex + 1);
+    }
+
+    /** Same daily yield formula as ContractClient. */
+    getYield(feeEvents: PoolFeesEvent[], totalLiquidity: string): number {
+        const totalFees = feeEvents.reduce((acc, event) => acc + Number(event.fee), 0);
+        const totalTime = (feeEvents[feeEvents.length - 1].timestamp - feeEvents[0].timestamp) / (60 * 60 * 24);
+        return totalFees / (totalTime * Number(totalLiquidity));
+    }
+
+    async getBuyTradeEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<BuyTrade[]> {
+        return this.maelstrom.query(["BuyTrade"], fromBlock, toBlock, token?.address, user).map((e) => ({
+            token: this.maelstrom.getToken(e.args.token as Address),
+            buyPrice: e.args.tradeBuyPrice,
+            updatedBuyPrice: e.args.updatedBuyPrice,
+            ethAmount: e.args.amountEther,
+            sellPrice: e.args.sellPrice,
+            timestamp: e.timestamp,
+        }));
+    }
+
+    async getSellTradeEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<SellTrade[]> {
+        return this.maelstrom.query(["SellTrade"], fromBlock, toBlock, token?.address, user).map((e) => ({
+            token: this.maelstrom.getToken(e.args.token as Address),
+            sellPrice: e.args.tradeSellPrice,
+            updatedSellPrice: e.args.updatedSellPrice,
+            ethAmount: e.args.amountEther,
+            buyPrice: e.args.buyPrice,
+            timestamp: e.timestamp,
+        }));
+    }
+
+    async getSwapTradeEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<SwapTrade[]> {
+        return this.maelstrom.query(["SwapTrade"], fromBlock, toBlock, token?.address, user).map((e) => ({
+            tokenIn: this.maelstrom.getToken(e.args.tokenSold as Address),
+            tokenOut: this.maelstrom.getToken(e.args.tokenBought as Address),
+            amountIn: e.args.amountTokenSold,
+            amountOut: e.args.amountTokenBought,
+            sellPrice: e.args.tradeSellPrice,
+            buyPrice: e.args.tradeBuyPrice,
+            updatedBuyPrice: e.args.updatedBuyPrice,
+            updatedSellPrice: e.args.updatedSellPrice,
+            timestamp: e.timestamp,
+        }));
+    }
+
+    async getDepositEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<Deposit[]> {
+        return this.maelstrom.query(["Deposit"], fromBlock, toBlock, token?.address, user).map((e) => ({
+            token: this.maelstrom.getToken(e.args.token as Address),
+            ethAmount: e.args.amountEther,
+            tokenAmount: e.args.amountToken,
+            lpTokensMinted: e.args.lpTokensMinted,
+            timestamp: e.timestamp,
+        }));
+    }
+
+    async getWithdrawEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<Withdraw[]> {
+        return this.maelstrom.query(["Withdraw"], fromBlock, toBlock, token?.address, user).map((e) => ({
+            token: this.maelstrom.getToken(e.args.token as Address),
+            ethAmount: e.args.amountEther,
+            tokenAmount: e.args.amountToken,
+            lpTokensBurnt: e.args.lpTokensBurned,
+            timestamp: e.timestamp,
+        }));
+    }
+
+    async getPoolState(token: Token): Promise<PoolState> {
+        return this.maelstrom.poolState(token);
+    }
+
+    async getPool(token: Token, user?: Address): Promise<Pool> {
+        if (!this.maelstrom.hasPool(token.address)) return this.buildDefaultPool(token);
+        const state = this.maelstrom.poolState(token);
+        const row = this.buildRowPool(token.address, user);
+        const { events } = this.maelstrom.fees(token.address);
+        const recentFees = events.slice(-10);
+        const poolYield = recentFees.length > 1 ? this.getYield(recentFees, row.totalLiquidity) : 0;
+        const now = Date.now();
+        const dayAgo = this.maelstrom.blockAt(now - 24 * 60 * 60 * 1000);
+        const [buys, sells, swaps] = await Promise.all([
+            this.getBuyTradeEventLogs(dayAgo, this.maelstrom.blockNumber(), token),
+            this.getSellTradeEventLogs(dayAgo, this.maelstrom.blockNumber(), token),
+            this.getSwapTradeEventLogs(dayAgo, this.maelstrom.blockNumber(), token),
+        ]);
+        const tokenKey = key(token.address);
+        const volume24h = sum([
+            ...buys.map((log) => BigInt(log.ethAmount)),
+            ...sells.map((log) => BigInt(log.ethAmount)),
+            ...swaps.map((log) =>
+                key(log.tokenIn.address) === tokenKey ? tokenToWei(BigInt(log.amountIn), BigInt(log.sellPrice)) : tokenToWei(BigInt(log.amountOut), BigInt(log.buyPrice))
+            ),
+        ]);
+        return {
+            token: state.token,
+            reserve: state.reserve,
+            lpToken: this.maelstrom.lpToken(token.address, user),
+            buyPrice: row.buyPrice,
+            sellPrice: row.sellPrice,
+            avgPrice: average(BigInt(row.buyPrice), BigInt(row.sellPrice)).toString(),
+            tokenRatio: await this.getTokenRatio(token),
+            volume24h: volume24h.toString(),
+            totalLiquidty: row.totalLiquidity,
+            apr: poolYield * 365 * 100,
+            lastExchangeTs: state.lastExchangeTs,
+            lastUpdated: now,
+        };
+    }
+
+    /** Same empty shape ContractClient returns for a token without a pool. */
+    private buildDefaultPool(token: Token): Pool {
+        return {
+            token,
+            reserve: { tokenReserve: "0", ethReserve: "0" },
+            lpToken: { address: token.address, symbol: "LP", name: "LP Token", decimals: 18, totalSupply: "0", balance: "0" },
+            buyPrice: "0",
+            sellPrice: "0",
+            avgPrice: "0",
+            tokenRatio: "0",
+            volume24h: "0",
+            totalLiquidty: "0",
+            apr: 0,
+            lastExchangeTs: 0,
+            lastUpdated: Date.now(),
+        };
+    }
+
+    private buildRowPool(address: Address, user?: Address): RowPool {
+        const token = this.maelstrom.getToken(address);
+        const state = this.maelstrom.poolState(token);
+        const avgPrice = average(BigInt(state.buy.currentPrice), BigInt(state.sell.currentPrice));
+        return {
+            token,
+            buyPrice: state.buy.currentPrice,
+            sellPrice: state.sell.currentPrice,
+            totalLiquidity: totalLiquidity(BigInt(state.reserve.tokenReserve), BigInt(state.reserve.ethReserve), avgPrice).toString(),
+            ...(user ? { lpToken: this.maelstrom.lpToken(address, user) } : {}),
+        };
+    }
+
+    /** `endIndex` is inclusive, like the contract's list getters. */
+    async getPools(startIndex: number, endIndex: number): Promise<RowPool[]> {
+        return this.maelstrom.poolTokens().slice(startIndex, endIndex + 1).map((token) => this.buildRowPool(token));
+    }
+
+    async getRowPools(tokens: Address[]): Promise<RowPool[]> {
+        return tokens.filter((token) => this.maelstrom.hasPool(token)).map((token) => this.buildRowPool(token));
+    }
+
+    async getUserPools(user: Address, startIndex: number, endIndex: number): Promise<RowPool[]> {
+        return this.maelstrom.userPoolTokens(user).slice(startIndex, endIndex + 1).map((token) => this.buildRowPool(token, user));
+    }
+
+    async getPoolCount(): Promise<number> {
+        return this.maelstrom.poolTokens().length;
+    }
+
+    async getUserPoolCount(user: Address): Promise<number> {
+        return this.maelstrom.userPoolTokens(user).length;
+    }
+
+    async getBlockNumber(): Promise<number> {
+        return this.maelstrom.blockNumber();
+    }
+}
@@ -0,0 +1,55 @@
+import { Address, isAddress } from "viem";
+
+/** Tabs of the swap page. */
+export type SwapMode = "swap" | "buy" | "sell";
+
+/**
+ * Swap page state carried in its URL, e.g. `/swap?mode=sell&tokenIn=0x…&amount=100`.
+ * `amount` is the amount paid in, or the amount received when `exactOut` is set. Buy links only carry
+ * `tokenOut` and sell links only `tokenIn`; the other side is the native currency.
+ */
+export interface SwapLink {
+    mode: SwapMode;
+    tokenIn?: Address;
+    tokenOut?: Address;
+    amount?: string;
+    exactOut?: boolean;
+}
+
+const MODES: readonly SwapMode[] = ["swap", "buy", "sell"];
+const AMOUNT_PATTERN = /^(\d+\.?\d*|\.\d+)$/;
+
+/** Read a link from query parameters; anything malformed is dropped rather than rejected. */
+export function parseSwapLink(params: URLSearchParams): SwapLink {
+    const address = (name: string) => {
+        const value = params.get(name) ?? "";
+        return isAddress(value) ? value : undefined;
+    };
+    const amount = params.get("amount") ?? "";
+    return {
+        mode: MODES.find((mode) => mode === params.get("mode")) ?? "swap",
+        tokenIn: address("tokenIn"),
+        tokenOut: address("tokenOut"),
+        amount: AMOUNT_PATTERN.test(amount) ? amount : undefined,
+        exactOut: params.get("exact") === "out",
+    };
+}
+
+/** Query string for a link, without the leading "?". Empty values and defaults are left out. */
+export function swapLinkQuery(link: SwapLink): string {
+    const params = new URLSearchParams();
+    if (link.mode !== "swap") params.set("mode", link.mode);
+    if (link.tokenIn) params.set("tokenIn", link.tokenIn);
+    if (link.tokenOut) params.set("tokenOut", link.tokenOut);
+    if (link.amount) {
+        params.set("amount", link.amount);
+        if (link.exactOut) params.set("exact", "out");
+    }
+    return params.toString();
+}
+
+/** Path to the swap page with the link pre-filled. */
+export function swapHref(link: SwapLink): string {
+    const query = swapLinkQuery(link);
+    return query ? `/swap?${query}` : "/swap";
+}
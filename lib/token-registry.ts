@@ -0,0 +1,164 @@
+import { Token } from "@/types/token";
+import { Address, erc20Abi, Hex, hexToString, parseAbi, trim } from "viem";
+import { UsePublicClientReturnType } from "wagmi";
+import { toMaelstromError } from "./errors";
+import { batchRead, ReadCall, ReadResult } from "./multicall";
+
+type PublicClient = NonNullable<UsePublicClientReturnType>;
+
+/** Pre-ERC20-standard tokens (MKR, SAI, ...) return bytes32 instead of string. */
+const BYTES32_METADATA_ABI = parseAbi([
+    "function symbol() view returns (bytes32)",
+    "function name() view returns (bytes32)",
+]);
+
+const STORAGE_KEY_PREFIX = "maelstrom:tokens:";
+
+function storageKey(chainId: number): string {
+    return `${STORAGE_KEY_PREFIX}${chainId}`;
+}
+
+function bytes32ToString(value: unknown): string | undefined {
+    try {
+        const text = hexToString(trim(value as Hex, { dir: "right" })).replace(/\0/g, "").trim();
+        return text || undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function successString(result: ReadResult): string | undefined {
+    return result.status === "success" && typeof result.result === "string" && result.result ? result.result : undefined;
+}
+
+/**
+ * ERC20 metadata for one chain. Immutable per address, so entries are cached for good and persisted
+ * to localStorage; concurrent lookups of the same address share one request.
+ */
+export class TokenRegistry {
+    private chainId: number;
+    private tokens = new Map<string, Token>();
+    private inFlight = new Map<string, Promise<Token>>();
+
+    constructor(chainId: number) {
+        this.chainId = chainId;
+        this.restore();
+    }
+
+    private restore(): void {
+        if (typeof window === "undefined") return;
+        try {
+            const raw = window.localStorage.getItem(storageKey(this.chainId));
+            if (!raw) return;
+            (JSON.parse(raw) as Token[]).forEach((token) => this.tokens.set(token.address.toLowerCase(), token));
+        } catch (error) {
+            console.warn("[TokenRegistry] Ignoring unreadable token cache.", error);
+        }
+    }
+
+    private persist(): void {
+        if (typeof window === "undefined") return;
+        try {
+            window.localStorage.setItem(storageKey(this.chainId), JSON.stringify(Array.from(this.tokens.values())));
+        } catch (error) {
+            console.warn("[TokenRegistry] Failed to persist token cache.", error);
+        }
+    }
+
+    /** Cached metadata, if this address has been resolved before. */
+    peek(address: Address): Token | undefined {
+        return this.tokens.get(address.toLowerCase());
+    }
+
+    /** Metadata for each address (order preserved). Unknown addresses are fetched in a single batch. */
+    async getTokens(publicClient: PublicClient, addresses: Address[]): Promise<Token[]> {
+        const missing = Array.from(
+            new Map(
+                addresses
+                    .filter((addr) => !this.tokens.has(addr.toLowerCase()) && !this.inFlight.has(addr.toLowerCase()))
+                    .map((addr) => [addr.toLowerCase(), addr])
+            ).values()
+        );
+        if (missing.length > 0) {
+            const batch = this.fetchMetadata(publicClient, missing);
+            missing.forEach((addr, index) => {
+                const key = addr.toLowerCase();
+                const request = batch
+                    .then((tokens) => {
+                        const token = tokens[index];
+                        if (token instanceof Error) throw token;
+                        return token;
+                    })
+                    .finally(() => this.inFlight.delete(key));
+                this.inFlight.set(key, request);
+            });
+            // Failures surface through the per-address promises below
+            batch.catch(() => undefined);
+        }
+        return Promise.all(
+            addresses.map((addr) => {
+                const key = addr.toLowerCase();
+                const cached = this.tokens.get(key);
+                return cached ? Promise.resolve(cached) : this.inFlight.get(key)!;
+            })
+        );
+    }
+
+    /** One entry per address: its metadata, or the error for that address alone. */
+    private async fetchMetadata(publicClient: PublicClient, addresses: Address[]): Promise<(Token | Error)[]> {
+        const results = await batchRead(
+            publicClient,
+            addresses.flatMap((address): ReadCall[] => [
+                { address, abi: erc20Abi, functionName: "decimals" },
+                { address, abi: erc20Abi, functionName: "symbol" },
+                { address, abi: erc20Abi, functionName: "name" },
+            ])
+        );
+        const failures = new Map<number, Error>();
+        const decoded = addresses.map((address, index) => {
+            const [decimals, symbol, name] = results.slice(index * 3, index * 3 + 3);
+            if (decimals.status === "failure") failures.set(index, toMaelstromError(decimals.error));
+            return { address, decimals: Number(decimals.status === "success" ? decimals.result : 0), symbol: successString(symbol), name: successString(name) };
+        });
+
+        // Retry symbol/name with the bytes32 ABI only for tokens that need it
+        const legacy = decoded.filter((t, index) => !failures.has(index) && (t.symbol === undefined || t.name === undefined));
+        if (legacy.length > 0) {
+            const legacyResults = await batchRead(
+                publicClient,
+                legacy.flatMap((t): ReadCall[] => [
+                    { address: t.address, abi: BYTES32_METADATA_ABI, functionName: "symbol" },
+                    { address: t.address, abi: BYTES32_METADATA_ABI, functionName: "name" },
+                ])
+            );
+            legacy.forEach((t, index) => {
+                const [symbol, name] = legacyResults.slice(index * 2, index * 2 + 2);
+                t.symbol ??= symbol.status === "success" ? bytes32ToString(symbol.result) : undefined;
+                t.name ??= name.status === "success" ? bytes32ToString(name.result) : undefined;
+            });
+        }
+
+        const tokens = decoded.map((t, index): Token | Error => {
+            const failure = failures.get(index);
+            if (failure) return failure;
+            const symbol = t.symbol ?? `${t.address.slice(0, 6)}…${t.address.slice(-4)}`;
+            const token = { address: t.address, decimals: t.decimals, symbol, name: t.name ?? symbol };
+            this.tokens.set(t.address.toLowerCase(), token);
+            return token;
+        });
+        this.persist();
+        return tokens;
+    }
+}
+
+const registries = new Map<number, TokenRegistry>();
+
+/** Shared registry per chain; every ContractClient instance on that chain reads through it. */
+export function getTokenRegistry(chainId: number): TokenRegistry {
+    let registry = registries.get(chainId);
+    if (!registry) {
+        registry = new TokenRegistry(chainId);
+        registries.set(chainId, registry);
+    }
+    return registry;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { PoolState } from "@/types/pool";
+import { buyInputFor, sellInputFor, simulateBuy, simulateSell } from "./auction-model";
+import { formatPrice, fromBaseUnits, parseAmount, parsePrice, priceDecimals, toBaseUnits } from "./units";
+
+const DECIMALS = [6, 8, 18];
+
+function poolWith(decimals: number, buyPrice: bigint, sellPrice: bigint): PoolState {
+    const side = (price: bigint) => ({
+        currentPrice: price.toString(),
+        lastPrice: price.toString(),
+        initialPrice: price.toString(),
+        finalPrice: price.toString(),
+        lastTradeTs: 0,
+        decayedTime: 0,
+        decayedVolume: "0",
+    });
+    return {
+        token: { address: "0x0000000000000000000000000000000000000001", name: "Test", symbol: "TST", decimals },
+        reserve: { tokenReserve: toBaseUnits("1000000", decimals).toString(), ethReserve: toBaseUnits("1000", 18).toString() },
+        buy: side(buyPrice),
+        sell: side(sellPrice),
+        lastExchangeTs: 0,
+        auctionResetPercentage: 5,
+        lastUpdated: 0,
+    };
+}
+
+describe("toBaseUnits / fromBaseUnits", () => {
+    it.each(DECIMALS)("round-trips amounts with %i decimals", (decimals) => {
+        for (const amount of ["1", "0.5", "123456.789", "0.000001"]) {
+            expect(fromBaseUnits(toBaseUnits(amount, decimals), decimals)).toBe(amount);
+        }
+    });
+
+    it("scales one whole token by the token's decimals", () => {
+        expect(toBaseUnits("1", 6)).toBe(BigInt(1_000_000));
+        expect(toBaseUnits("1", 8)).toBe(BigInt(100_000_000));
+        expect(toBaseUnits("1", 18)).toBe(BigInt(10) ** BigInt(18));
+    });
+
+    it("accepts exponent notation from Number math", () => {
+        expect(toBaseUnits("1e-6", 6)).toBe(BigInt(1));
+        expect(toBaseUnits("1.5e3", 8)).toBe(BigInt(150_000_000_000));
+    });
+
+    it("treats empty input as zero", () => {
+        expect(parseAmount("", 18)).toBe(BigInt(0));
+        expect(parseAmount("   ", 6)).toBe(BigInt(0));
+    });
+
+    it("reports unparsable input instead of reading it as zero", () => {
+        expect(parseAmount("abc", 18)).toBeUndefined();
+        expect(parseAmount("1.2.3", 6)).toBeUndefined();
+        expect(parseAmount("1e-7x", 8)).toBeUndefined();
+        expect(toBaseUnits("abc", 18)).toBe(BigInt(0));
+    });
+});
+
+describe("priceDecimals", () => {
+    it("is 18 for 18-decimal tokens and grows as token decimals shrink", () => {
+        expect(priceDecimals(18)).toBe(18);
+        expect(priceDecimals(8)).toBe(28);
+        expect(priceDecimals(6)).toBe(30);
+    });
+
+    it.each(DECIMALS)("round-trips prices with %i decimals", (decimals) => {
+        for (const price of ["0.002", "1", "3500.25"]) {
+            expect(formatPrice(parsePrice(price, decimals), decimals)).toBe(price);
+        }
+    });
+});
+
+describe("quotes across token decimals", () => {
+    it.each(DECIMALS)("buys 500 whole tokens for 1 ETH at 0.002 ETH each with %i decimals", (decimals) => {
+        const price = parsePrice("0.002", decimals);
+        const pool = poolWith(decimals, price, price);
+        const buy = simulateBuy(pool, toBaseUnits("1", 18));
+        expect(fromBaseUnits(buy.amountOut, decimals)).toBe("500");
+        expect(buyInputFor(pool, buy.amountOut)).toBe(toBaseUnits("1", 18));
+    });
+
+    it.each(DECIMALS)("sells 500 whole tokens for 1 ETH at 0.002 ETH each with %i decimals", (decimals) => {
+        const price = parsePrice("0.002", decimals);
+        const pool = poolWith(decimals, price, price);
+        const sell = simulateSell(pool, toBaseUnits("500", decimals));
+        expect(fromBaseUnits(sell.amountOut, 18)).toBe("1");
+        expect(sellInputFor(pool, sell.amountOut)).toBe(toBaseUnits("500", decimals));
+    });
+
+    it.each(DECIMALS)("rounds a buy down and its required input up with %i decimals", (decimals) => {
+        const price = parsePrice("3", decimals);
+        const pool = poolWith(decimals, price, price);
+        const buy = simulateBuy(pool, toBaseUnits("1", 18));
+        // 1 / 3 of a token, truncated to the token's precision
+        expect(fromBaseUnits(buy.amountOut, decimals)).toBe(`0.${"3".repeat(decimals)}`);
+        expect(buyInputFor(pool, buy.amountOut)).toBeLessThanOrEqual(toBaseUnits("1", 18));
+    });
+});
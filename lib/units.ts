@@ -0,0 +1,55 @@
+import { formatUnits, parseUnits } from "viem";
+
+/** Decimals of the chain's native currency (ETH, ETC) on every supported network. */
+export const NATIVE_DECIMALS = 18;
+
+/**
+ * Maelstrom prices are wei per 1e18 base units of the token, whatever the token's decimals:
+ * `wei = baseUnits * price / 1e18`. For an 18-decimal token that is simply wei per whole token.
+ * The arithmetic on them lives in fixed-point.ts.
+ */
+const PRICE_DECIMALS = 18;
+
+/**
+ * User input ("1.5", "0.000001", "1e-7") to base units with the token's decimals. Extra fraction digits are
+ * rounded by parseUnits. Empty input is 0; input that isn't a number is undefined, so forms can flag it.
+ */
+export function parseAmount(amount: string, decimals: number): bigint | undefined {
+    const value = amount.trim();
+    if (!value) return BigInt(0);
+    try {
+        // Results of Number math can come back in exponent notation, which parseUnits rejects
+        const plain = /e/i.test(value) ? Number(value).toFixed(Math.min(decimals, 100)) : value;
+        return parseUnits(plain, decimals);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * `parseAmount` for arithmetic that needs a number either way (balances, minimums): unparsable input counts as 0.
+ * Where the user should hear about a typo, use `parseAmount` instead.
+ */
+export function toBaseUnits(amount: string, decimals: number): bigint {
+    return parseAmount(amount, decimals) ?? BigInt(0);
+}
+
+/** Base units to a decimal string with the token's decimals. */
+export function fromBaseUnits(amount: bigint | string, decimals: number): string {
+    return formatUnits(BigInt(amount), decimals);
+}
+
+/** Decimals that turn an on-chain price for this token into native currency per whole token. */
+export function priceDecimals(tokenDecimals: number): number {
+    return PRICE_DECIMALS + NATIVE_DECIMALS - tokenDecimals;
+}
+
+/** On-chain price to native currency per whole token, as a decimal string. */
+export function formatPrice(price: bigint | string, tokenDecimals: number): string {
+    return formatUnits(BigInt(price), priceDecimals(tokenDecimals));
+}
+
+/** Native currency per whole token (user input) to the on-chain price. */
+export function parsePrice(price: string, tokenDecimals: number): bigint {
+    return toBaseUnits(price, priceDecimals(tokenDecimals));
+}
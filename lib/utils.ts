@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { formatUnits } from "viem"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -38,3 +39,9 @@ export function formatDuration(seconds?: number) {
         .join(" ") || "0m"
     );
   }
+
+// Helper function to format a raw on-chain amount for display, e.g. in toasts
+export function formatTokenAmount(amount: string | bigint, decimals = 18, maxFractionDigits = 6): string {
+    const value = Number(formatUnits(BigInt(amount), decimals));
+    return value.toLocaleString("en-US", { maximumFractionDigits: maxFractionDigits });
+  }
@@ -5,6 +5,8 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { WagmiProvider } from "wagmi";
 import { darkTheme, RainbowKitProvider } from "@rainbow-me/rainbowkit";
 import { Toaster } from "@/components/ui/sonner";
+import { ContractClientProvider } from "./contract-client-provider";
+import { NetworkProvider } from "./network-provider";
 const queryClient = new QueryClient();
 import {wagmi_config} from "@/config"
 
@@ -13,7 +15,9 @@ export function Providers({ children }: { children: ReactNode }) {
     <WagmiProvider config={wagmi_config}>
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider theme={darkTheme()}>
-          {children}
+          <NetworkProvider>
+            <ContractClientProvider>{children}</ContractClientProvider>
+          </NetworkProvider>
           <Toaster />
         </RainbowKitProvider>
       </QueryClientProvider>
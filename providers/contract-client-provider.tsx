@@ -0,0 +1,70 @@
+"use client";
+
+import { createContext, ReactNode, useContext, useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAccount, usePublicClient, useSignTypedData, useWriteContract } from "wagmi";
+import { IContractClient } from "@/types/contract";
+import { createContractClient, isDemoMode } from "@/lib/demo-mode";
+import { invalidateLiveEvents } from "@/lib/query-keys";
+import { useLivePoolEvents } from "@/hooks/use-live-pool-events";
+import { useNetworkState } from "./network-provider";
+
+interface ContractClientContextValue {
+  client: IContractClient | null;
+  // Why the client couldn't be built, e.g. no public client for the chain
+  error: unknown;
+  // Query key prefix: cached data from another chain or from demo mode never mixes with this one
+  scope: string;
+}
+
+const ContractClientContext = createContext<ContractClientContextValue | null>(null);
+
+// One client for the connected wallet and chain, shared by every component and query hook
+export function ContractClientProvider({ children }: { children: ReactNode }) {
+  const { address } = useAccount();
+  const { chainId, walletChainId } = useNetworkState();
+  const { writeContractAsync } = useWriteContract();
+  const { signTypedDataAsync } = useSignTypedData();
+  const publicClient = usePublicClient({ chainId });
+  const queryClient = useQueryClient();
+
+  const value = useMemo<ContractClientContextValue>(() => {
+    const network = isDemoMode() ? "demo" : String(chainId);
+    try {
+      const client = createContractClient(writeContractAsync, publicClient, chainId, address, signTypedDataAsync, walletChainId);
+      return { client, error: null, scope: `${network}:${client.contractAddress.toLowerCase()}` };
+    } catch (error) {
+      return { client: null, error, scope: network };
+    }
+  }, [chainId, walletChainId, address, publicClient, writeContractAsync, signTypedDataAsync]);
+
+  // New trades and liquidity changes make the cached data for the pools and accounts they touch stale
+  useLivePoolEvents({}, (events) => {
+    invalidateLiveEvents(queryClient, value.client, value.scope, events);
+  });
+
+  return <ContractClientContext.Provider value={value}>{children}</ContractClientContext.Provider>;
+}
+
+function useContractClientContext(): ContractClientContextValue {
+  const context = useContext(ContractClientContext);
+  if (!context) throw new Error("useContractClient must be used inside ContractClientProvider");
+  return context;
+}
+
+// The shared client. Pages render inside ContractClientGuard, which shows the construction error instead of
+// mounting them, so this only throws when used outside it
+export function useContractClient(): IContractClient {
+  const { client, error } = useContractClientContext();
+  if (!client) throw error;
+  return client;
+}
+
+// Why the shared client couldn't be built, or null once it is; rebuilt when the chain, RPC or wallet changes
+export function useContractClientError(): unknown {
+  return useContractClientContext().error;
+}
+
+export function useContractScope(): string {
+  return useContractClientContext().scope;
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { createContext, ReactNode, useContext, useEffect, useMemo, useState } from "react";
+import { Address } from "viem";
+import { useAccount } from "wagmi";
+import { DEFAULT_CHAIN_ID, getDeployment } from "@/lib/chains";
+import { isDemoMode } from "@/lib/demo-mode";
+import { DEMO_ACCOUNT } from "@/lib/simulated-contract-client";
+
+const BROWSE_CHAIN_KEY = "maelstrom:browse-chain";
+
+export interface NetworkState {
+  // Chain every read goes to: the wallet's chain when Maelstrom is deployed there, the browsed chain otherwise
+  chainId: number;
+  // Chain the wallet is connected to, if any
+  walletChainId?: number;
+  // Wallet is on a chain without a Maelstrom deployment; writes are refused until it switches
+  wrongNetwork: boolean;
+  // Account that trades and holds LP tokens: the connected wallet, or the simulator's account in demo mode
+  account?: Address;
+  // Chain picked by a visitor without a wallet; ignored once a wallet on a supported chain connects
+  setBrowseChainId: (chainId: number) => void;
+}
+
+const NetworkContext = createContext<NetworkState | null>(null);
+
+export function NetworkProvider({ children }: { children: ReactNode }) {
+  const { address, chainId: walletChainId, isConnected } = useAccount();
+  const [browseChainId, setBrowseChainId] = useState(DEFAULT_CHAIN_ID);
+
+  useEffect(() => {
+    const saved = Number(window.localStorage.getItem(BROWSE_CHAIN_KEY));
+    if (getDeployment(saved)) setBrowseChainId(saved);
+  }, []);
+
+  const value = useMemo<NetworkState>(() => {
+    const supported = getDeployment(walletChainId) !== undefined;
+    const demo = isDemoMode();
+    return {
+      chainId: isConnected && supported ? walletChainId! : browseChainId,
+      walletChainId: isConnected ? walletChainId : undefined,
+      // The simulator runs on any chain
+      wrongNetwork: isConnected && !supported && !demo,
+      account: address ?? (demo ? DEMO_ACCOUNT : undefined),
+      setBrowseChainId: (chainId: number) => {
+        window.localStorage.setItem(BROWSE_CHAIN_KEY, String(chainId));
+        setBrowseChainId(chainId);
+      },
+    };
+  }, [address, walletChainId, isConnected, browseChainId]);
+
+  return <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>;
+}
+
+export function useNetworkState(): NetworkState {
+  const context = useContext(NetworkContext);
+  if (!context) throw new Error("useNetworkState must be used inside NetworkProvider");
+  return context;
+}
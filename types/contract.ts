@@ -1,16 +1,12 @@
 import { Address } from "viem";
-import { Config, UsePublicClientReturnType } from "wagmi";
-import { WriteContractMutateAsync } from "wagmi/query";
-import { BuyRequest, BuyResult, BuyTrade, Deposit, DepositRequest, DepositResult, SellRequest, SellResult, SellTrade, SwapRequest, SwapResult, SwapTrade, Withdraw, WithdrawRequest, WithdrawResult } from "./trades";
+import { BuyRequest, BuyResult, BuyTrade, Deposit, DepositRequest, DepositResult, SellRequest, SellResult, SellTrade, SimulationResult, SwapRequest, SwapResult, SwapTrade, Withdraw, WithdrawRequest, WithdrawResult } from "./trades";
 import { LiquidityPoolToken, Token } from "./token";
-import { InitPool, InitPoolResult, Pool, PoolFeesEvent, Reserve, RowPool } from "./pool";
+import { InitPool, InitPoolResult, Pool, PoolFeesEvent, PoolState, Reserve, RowPool } from "./pool";
 
 export const CONTRACT_ADDRESS = "0x897CeF988A12AB77A12fd8f2Ca74F0B978d302CF" as Address;
 
 export interface IContractClient {
   contractAddress: Address;
-  writeContract: WriteContractMutateAsync<Config, unknown>;
-  publicClient: UsePublicClientReturnType;
 
   initializePool(initPool: InitPool): Promise<InitPoolResult>;
   deposit(depositReq: DepositRequest): Promise<DepositResult>
@@ -19,10 +15,19 @@ export interface IContractClient {
   buy(buyReq: BuyRequest): Promise<BuyResult>
   sell(sellReq: SellRequest): Promise<SellResult>
 
+  simulateBuy(buyReq: BuyRequest): Promise<SimulationResult>
+  simulateSell(sellReq: SellRequest): Promise<SimulationResult>
+  simulateSwap(swapReq: SwapRequest): Promise<SimulationResult>
+  simulateDeposit(depositReq: DepositRequest): Promise<SimulationResult>
+  simulateWithdraw(withdrawReq: WithdrawRequest): Promise<SimulationResult>
+
   isPoolInstantiated(token: Address): Promise<boolean>
-  getPool(token: Token, user: Address): Promise<Pool>
+  getPool(token: Token, user?: Address): Promise<Pool>
+  getPoolState(token: Token): Promise<PoolState>
   getToken(token: Address): Promise<Token>
+  getTokens(tokens: Address[]): Promise<Token[]>
   getLPToken(token: Token, user: Address): Promise<LiquidityPoolToken>
+  getBalances(tokens: Token[], user: Address): Promise<string[]>
   getReserves(token: Token): Promise<Reserve>
   getTokenRatio(token: Token): Promise<string>
   getBuyPrice(token: Token): Promise<string>
@@ -37,23 +42,14 @@ export interface IContractClient {
   getSellTradeEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<SellTrade[]>
   getSwapTradeEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<SwapTrade[]>
   getDepositEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<Deposit[]>
-  getWithdrawEventLogs(fromBlock: number, toBlock: number, token: Token, user?: Address): Promise<Withdraw[]>
+  getWithdrawEventLogs(fromBlock: number, toBlock: number, token?: Token, user?: Address): Promise<Withdraw[]>
 
   getPools(startIndex: number, offset: number): Promise<RowPool[]>
+  getRowPools(tokens: Address[]): Promise<RowPool[]>
   getUserPools(user: Address, startIndex: number, offset: number): Promise<RowPool[]>
   getPoolCount(): Promise<number>
   getUserPoolCount(user: Address): Promise<number>
-}
-
-export const CONTRACT_ADDRESSES: Record<number, Address> = {
-  1: "0x897CeF988A12AB77A12fd8f2Ca74F0B978d302CF" as Address, // Ethereum Mainnet
-  61: "0x897CeF988A12AB77A12fd8f2Ca74F0B978d302CF" as Address, // Ethereum Classic
-  63: "0x39A04312F7640FA2B84833c96fC439D88207c9CD" as Address, // ETC Testnet(Mordor)
-  137: "0x897CeF988A12AB77A12fd8f2Ca74F0B978d302CF" as Address, // Polygon
-  56: "0x897CeF988A12AB77A12fd8f2Ca74F0B978d302CF" as Address, // BSC
-  8453: "0x897CeF988A12AB77A12fd8f2Ca74F0B978d302CF" as Address, // BASE
-  5115: "0x7B1E47C3C6b1eea13D06566f078DcBaEF5B63Ee5" as Address, // Citera Testnet
-
+  getBlockNumber(): Promise<number>
 }
 
 export const ABI = [
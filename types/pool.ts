@@ -1,5 +1,4 @@
 import { LiquidityPoolToken, Token } from "./token"
-import { parseEther } from "viem"
 
 export interface Pool {
   token: Token
@@ -16,6 +15,31 @@ export interface Pool {
   lastUpdated: number
 }
 
+/** One side of a pool's price auction, decoded from the `pools(address)` struct. Prices are raw on-chain values. */
+export interface AuctionSide {
+  currentPrice: string
+  lastPrice: string
+  initialPrice: string
+  finalPrice: string
+  lastTradeTs: number
+  // Length of the current auction in seconds: the price moves from initialPrice to finalPrice over this window
+  // after lastTradeTs. The contract recomputes it on every trade from the (decayed) time between trades.
+  decayedTime: number
+  // Decayed trade volume the contract keeps for this side; decoded for display, the price rules don't use it
+  decayedVolume: string
+}
+
+export interface PoolState {
+  token: Token
+  reserve: Reserve
+  buy: AuctionSide
+  sell: AuctionSide
+  lastExchangeTs: number
+  // Protocol-wide percentage by which a trade resets the auction prices
+  auctionResetPercentage: number
+  lastUpdated: number
+}
+
 export interface RowPool{
   token: Token,
   buyPrice: string,
@@ -24,20 +48,6 @@ export interface RowPool{
   lpToken?: LiquidityPoolToken
 }
 
-const ETH: Token = {
-  address: "0x0000000000000000000000000000000000000000",
-  symbol: "ETH",
-  name: "Ether",
-  decimals: 18,
-}
-
-export const ETH_ROW_POOL: RowPool = {
-  token: ETH,
-  buyPrice: parseEther("1").toString(),
-  sellPrice: parseEther("1").toString(),
-  totalLiquidity: parseEther("0").toString(),
-}
-
 export interface InitPool{
   token: string
   ethAmount: string
@@ -49,6 +59,11 @@ export interface InitPool{
 export interface InitPoolResult{
   success: boolean
   txHash: string
+  ethAmount: string
+  tokenAmount: string
+  initialBuyPrice: string
+  initialSellPrice: string
+  gasUsed: string
   timestamp: number
   error?: string
 }
@@ -1,4 +1,4 @@
-import { Address } from "viem"
+import { Address, zeroAddress } from "viem"
 import { type Chain } from "viem"
 
 export interface Token{
@@ -13,13 +13,25 @@ export interface LiquidityPoolToken extends Token{
   balance: string
 }
 
+// The native currency is identified by the zero address; its symbol differs per chain (ETH, METC, CBTC, ...)
+export const NATIVE_TOKEN_ADDRESS: Address = zeroAddress
+
 export const ETH: Token = {
-  address: "0x0000000000000000000000000000000000000000",
+  address: NATIVE_TOKEN_ADDRESS,
   symbol: "ETH",
   name: "Ether",
   decimals: 18,
 }
 
+export function isNativeToken(token?: Pick<Token, "address">): boolean {
+  return !!token && token.address.toLowerCase() === NATIVE_TOKEN_ADDRESS
+}
+
+// Tokens are the same asset when their addresses match, whatever symbol or name they carry
+export function sameToken(a?: Pick<Token, "address">, b?: Pick<Token, "address">): boolean {
+  return !!a && !!b && a.address.toLowerCase() === b.address.toLowerCase()
+}
+
 // Helper function to get native currency token based on chain
 export function getNativeCurrencyToken(chain?: Chain): Token {
   if (!chain) {
@@ -27,9 +39,9 @@ export function getNativeCurrencyToken(chain?: Chain): Token {
   }
   
   return {
-    address: "0x0000000000000000000000000000000000000000",
+    address: NATIVE_TOKEN_ADDRESS,
     symbol: chain.nativeCurrency.symbol,
     name: chain.nativeCurrency.name,
     decimals: chain.nativeCurrency.decimals,
   };
-}
\ No newline at end of file
+}
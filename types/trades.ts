@@ -81,6 +81,13 @@ export interface SwapResult{
   success: boolean
   txHash: string
   swapRequest: SwapRequest
+  amountIn: string
+  amountOut: string
+  tradeSellPrice: string
+  updatedSellPrice: string
+  tradeBuyPrice: string
+  updatedBuyPrice: string
+  gasUsed: string
   timestamp: number
   error?: string
 }
@@ -90,6 +97,10 @@ export interface SellResult{
   txHash: string
   sellRequest: SellRequest
   amountOut: string
+  tradeSellPrice: string
+  updatedSellPrice: string
+  buyPrice: string
+  gasUsed: string
   timestamp: number
   error?: string
 }
@@ -99,6 +110,10 @@ export interface BuyResult{
   txHash: string
   buyRequest: BuyRequest
   amountOut: string
+  tradeBuyPrice: string
+  updatedBuyPrice: string
+  sellPrice: string
+  gasUsed: string
   timestamp: number
   error?: string
 }
@@ -107,6 +122,10 @@ export interface DepositResult{
   success: boolean
   txHash: string
   depositRequest: DepositRequest
+  ethAmount: string
+  tokenAmount: string
+  lpTokensMinted: string
+  gasUsed: string
   timestamp: number
   error?: string
 }
@@ -115,6 +134,23 @@ export interface WithdrawResult{
   success: boolean
   txHash: string
   withdrawRequest: WithdrawRequest
+  ethAmount: string
+  tokenAmount: string
+  lpTokensBurnt: string
+  gasUsed: string
   timestamp: number
   error?: string
-}
\ No newline at end of file
+}
+
+export interface SimulationResult{
+  success: boolean
+  // false when the node could not run the simulation (e.g. approval still pending and no eth_simulateV1)
+  simulated: boolean
+  needsApproval: boolean
+  amountOut?: string
+  ethAmount?: string
+  tokenAmount?: string
+  lpTokens?: string
+  error?: string
+  errorName?: string
+}